@@ -3,6 +3,23 @@ import path from 'path';
 
 dotenv.config({ path: path.join(__dirname, '../../.env') });
 
+function jsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    console.warn(`[Config] ${name} is not valid JSON, using the default`);
+    return fallback;
+  }
+}
+
+function listEnv(name: string, fallback: string): string[] {
+  return (process.env[name] || fallback).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+const DEFAULT_BIOMETRIC_PROVIDERS = 'aws_rekognition,google_vision,heuristic';
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
@@ -66,6 +83,64 @@ export const config = {
     apiKey: process.env.DOCUMENT_OCR_API_KEY || 'xv1kXFoZsVUrKwsAnk0Qke1E5EAOQHjc-iB86R1lQHGVISRxdyDJT8kCAolpS92EX7WFO6ukmCI7'
   },
 
+  ocr: {
+    // Providers tried in order until one returns usable data; names not listed are never used
+    providerOrder: listEnv('OCR_PROVIDER_ORDER', 'external_api,document_ai_cache,document_ai,google_vision,tesseract'),
+    // Orders keyed by "TYPE:COUNTRY", "TYPE" or "*:COUNTRY", e.g. {"PASSPORT:CAN": ["document_ai", "tesseract"]}
+    providerOrderOverrides: jsonEnv<Record<string, string[]>>('OCR_PROVIDER_ORDER_OVERRIDES', {}),
+    providerTimeoutMs: parseInt(process.env.OCR_PROVIDER_TIMEOUT_MS || '30000', 10),
+    // Per provider timeouts, e.g. {"tesseract": 60000}
+    providerTimeouts: jsonEnv<Record<string, number>>('OCR_PROVIDER_TIMEOUTS', {}),
+    // A provider that fails this many times in a row is skipped for the cooldown
+    circuitFailureThreshold: parseInt(process.env.OCR_CIRCUIT_FAILURE_THRESHOLD || '3', 10),
+    circuitCooldownMs: parseInt(process.env.OCR_CIRCUIT_COOLDOWN_MS || '60000', 10)
+  },
+
+  biometrics: {
+    // Providers tried in order for each capability; the next one is used when a provider fails.
+    // BIOMETRIC_PROVIDERS=local runs everything on the deterministic local provider, with no cloud credentials.
+    // Development and tests only: the server and worker refuse to start with it in production.
+    faceDetectProviders: listEnv('BIOMETRIC_FACE_DETECT_PROVIDERS', process.env.BIOMETRIC_PROVIDERS || DEFAULT_BIOMETRIC_PROVIDERS),
+    faceCompareProviders: listEnv('BIOMETRIC_FACE_COMPARE_PROVIDERS', process.env.BIOMETRIC_PROVIDERS || DEFAULT_BIOMETRIC_PROVIDERS),
+    livenessProviders: listEnv('BIOMETRIC_LIVENESS_PROVIDERS', process.env.BIOMETRIC_PROVIDERS || DEFAULT_BIOMETRIC_PROVIDERS),
+    // Head pose, eyes and expression per frame, for liveness challenges
+    faceAnalysisProviders: listEnv('BIOMETRIC_FACE_ANALYSIS_PROVIDERS', process.env.BIOMETRIC_PROVIDERS || DEFAULT_BIOMETRIC_PROVIDERS),
+    local: {
+      // Scores the local provider gives every pair of faces and every selfie
+      matchScore: parseFloat(process.env.BIOMETRIC_LOCAL_MATCH_SCORE || '0.95'),
+      livenessScore: parseFloat(process.env.BIOMETRIC_LOCAL_LIVENESS_SCORE || '0.9')
+    }
+  },
+
+  forensics: {
+    // Image forensics of uploaded ID document images (error level analysis, copy-move,
+    // JPEG grid/quantization, editing software traces)
+    enabled: process.env.FORENSICS_ENABLED !== 'false',
+    // A document whose forensic score (0-1, highest analyzer score) reaches this is treated as tampered
+    tamperThreshold: parseFloat(process.env.FORENSICS_TAMPER_THRESHOLD || '0.75'),
+    heatmapMaxDimension: parseInt(process.env.FORENSICS_HEATMAP_MAX_DIMENSION || '1024', 10)
+  },
+
+  liveness: {
+    // Active challenges: the applicant performs a random sequence of actions on camera
+    challengeActions: parseInt(process.env.LIVENESS_CHALLENGE_ACTIONS || '3', 10),
+    challengeTtlSeconds: parseInt(process.env.LIVENESS_CHALLENGE_TTL_SECONDS || '120', 10),
+    maxChallengesPerAttempt: parseInt(process.env.LIVENESS_MAX_CHALLENGES_PER_ATTEMPT || '5', 10),
+    maxFrames: parseInt(process.env.LIVENESS_MAX_FRAMES || '30', 10),
+    // Only a passed challenge counts as liveness; a single selfie is no longer trusted
+    requireChallenge: process.env.LIVENESS_REQUIRE_CHALLENGE === 'true'
+  },
+
+  faceIndex: {
+    // Templates one duplicate face search compares, newest first; bounds the cost of a submit
+    maxScanTemplates: parseInt(process.env.FACE_INDEX_MAX_SCAN_TEMPLATES || '100000', 10)
+  },
+
+  documentCorrection: {
+    // Find the document outline in photos, flatten it, deskew and turn it upright before OCR
+    enabled: process.env.DOCUMENT_CORRECTION_ENABLED !== 'false',
+    maxDimension: parseInt(process.env.DOCUMENT_CORRECTION_MAX_DIMENSION || '2000', 10)
+  },
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10)
@@ -75,6 +150,17 @@ export const config = {
     level: process.env.LOG_LEVEL || 'info'
   },
 
+  jobs: {
+    // 'in-process' runs the job worker inside the API server, 'external' leaves it to `npm run worker`
+    worker: process.env.JOB_WORKER || 'in-process',
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    retryBackoffMs: parseInt(process.env.JOB_RETRY_BACKOFF_MS || '5000', 10),
+    // A RUNNING job whose worker has not finished within this time is assumed lost and re-queued
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000', 10),
+    expirySweepIntervalMs: parseInt(process.env.EXPIRY_SWEEP_INTERVAL_MS || '900000', 10)
+  },
+
   verification: {
     documentMaxSizeMB: 10,
     supportedImageFormats: ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'],
@@ -84,3 +170,14 @@ export const config = {
     livenessThreshold: 0.7
   }
 };
+
+// The local biometric provider matches every pair of faces and passes every selfie
+const biometricProviderLists = [
+  config.biometrics.faceDetectProviders,
+  config.biometrics.faceCompareProviders,
+  config.biometrics.livenessProviders,
+  config.biometrics.faceAnalysisProviders
+];
+if (config.server.nodeEnv === 'production' && biometricProviderLists.some(list => list.includes('local'))) {
+  throw new Error('[Config] The local biometric provider is for development and tests only and cannot be used in production');
+}
@@ -1,9 +1,27 @@
 import { Request, Response } from 'express';
+import multer from 'multer';
 import { AdminService } from '../services/admin.service';
+import { DecisionPolicyService } from '../services/decision-policy.service';
 import { AdminRequest } from '../middleware/admin-auth.middleware';
 import { logger } from '../utils/logger';
 
 const adminService = new AdminService();
+const decisionPolicyService = new DecisionPolicyService();
+
+// Photos for face search are only held in memory
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (_req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB max file size
+  }
+});
 
 export class AdminController {
   // Authentication
@@ -406,6 +424,77 @@ export class AdminController {
     }
   }
 
+  // Decision Policy
+  async getPartnerDecisionPolicy(req: AdminRequest, res: Response) {
+    try {
+      if (!req.admin) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { id } = req.params;
+
+      const [active, history] = await Promise.all([
+        decisionPolicyService.getActivePolicy(id),
+        decisionPolicyService.getPolicyHistory(id)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: { active, history }
+      });
+    } catch (error) {
+      logger.error('[AdminController] Get partner decision policy error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get decision policy'
+      });
+    }
+  }
+
+  async updatePartnerDecisionPolicy(req: AdminRequest, res: Response) {
+    try {
+      if (!req.admin) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { id } = req.params;
+      const { weights, thresholds, blockingFlags, advisoryFlags, riskRules } = req.body;
+
+      const policy = await decisionPolicyService.updatePolicy(
+        id,
+        { weights, thresholds, blockingFlags, advisoryFlags, riskRules },
+        `admin:${req.admin.email}`
+      );
+
+      logger.info(`[AdminController] Partner ${id} decision policy updated to version ${policy.version} by admin ${req.admin.email}`);
+
+      return res.status(200).json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      logger.error('[AdminController] Update partner decision policy error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid decision policy')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update decision policy'
+      });
+    }
+  }
+
   // Verification Management
   async getVerifications(req: AdminRequest, res: Response) {
     try {
@@ -416,7 +505,7 @@ export class AdminController {
         });
       }
 
-      const { limit, offset, sort, order, status, partnerId } = req.query;
+      const { limit, offset, sort, order, status, partnerId, sandbox } = req.query;
 
       const result = await adminService.getAllVerifications({
         limit: limit ? parseInt(limit as string) : undefined,
@@ -424,7 +513,8 @@ export class AdminController {
         sort: sort as string,
         order: order as 'asc' | 'desc',
         status: status as string,
-        partnerId: partnerId as string
+        partnerId: partnerId as string,
+        sandbox: sandbox === 'true'
       });
 
       return res.status(200).json({
@@ -473,6 +563,122 @@ export class AdminController {
     }
   }
 
+  async getSharedDocument(req: AdminRequest, res: Response) {
+    try {
+      if (!req.admin) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { id } = req.params;
+      const crossPartner = (req.query.crossPartner as string) || 'full';
+
+      if (crossPartner !== 'full' && crossPartner !== 'signal') {
+        return res.status(400).json({
+          success: false,
+          error: 'crossPartner must be "full" or "signal"'
+        });
+      }
+
+      const result = await adminService.getSharedDocument(id, crossPartner);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: 'Verification not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('[AdminController] Get shared document error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get shared document'
+      });
+    }
+  }
+
+  async getVerificationTimeline(req: AdminRequest, res: Response) {
+    try {
+      if (!req.admin) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { id } = req.params;
+      const timeline = await adminService.getVerificationTimeline(id);
+
+      if (!timeline) {
+        return res.status(404).json({
+          success: false,
+          error: 'Verification not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: timeline
+      });
+    } catch (error) {
+      logger.error('[AdminController] Get verification timeline error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get verification timeline'
+      });
+    }
+  }
+
+  async searchFaces(req: AdminRequest, res: Response) {
+    try {
+      if (!req.admin) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No photo uploaded'
+        });
+      }
+
+      const threshold = req.body.threshold !== undefined ? parseFloat(req.body.threshold) : undefined;
+      if (threshold !== undefined && (isNaN(threshold) || threshold < 0 || threshold > 1)) {
+        return res.status(400).json({
+          success: false,
+          error: 'threshold must be a number between 0 and 1'
+        });
+      }
+
+      const result = await adminService.searchFaces(req.file.buffer, {
+        threshold,
+        limit: req.body.limit ? parseInt(req.body.limit) : undefined
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('[AdminController] Face search error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to search faces';
+      return res.status(message === 'No single face found in the uploaded photo' ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
   async manualPassVerification(req: AdminRequest, res: Response) {
     try {
       if (!req.admin) {
@@ -494,6 +700,14 @@ export class AdminController {
       });
     } catch (error) {
       logger.error('[AdminController] Manual pass verification error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid status transition')) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to pass verification'
@@ -530,6 +744,14 @@ export class AdminController {
       });
     } catch (error) {
       logger.error('[AdminController] Manual fail verification error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid status transition')) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to reject verification'
@@ -638,6 +860,14 @@ export class AdminController {
       });
     } catch (error) {
       logger.error('[AdminController] Update retry count error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid status transition')) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to update retry count'
@@ -1,10 +1,13 @@
 import { Request, Response } from 'express';
 import multer from 'multer';
 import { PartnerService } from '../services/partner.service';
+import { DecisionPolicyService } from '../services/decision-policy.service';
 import { s3Service } from '../services/s3.service';
 import { logger } from '../utils/logger';
+import { parseVerificationOptions } from '../utils/verification-options';
 
 const partnerService = new PartnerService();
+const decisionPolicyService = new DecisionPolicyService();
 
 // Multer configuration for logo uploads - use memory storage for S3 upload
 const storage = multer.memoryStorage();
@@ -338,6 +341,30 @@ export class PartnerController {
     }
   }
 
+  async rotateSandboxApiKey(req: AuthRequest, res: Response) {
+    try {
+      if (!req.partner) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const result = await partnerService.rotateSandboxApiKey(req.partner.id);
+
+      return res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Rotate sandbox API key error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to issue sandbox API key'
+      });
+    }
+  }
+
   async getTiers(_req: Request, res: Response): Promise<Response> {
     try {
       const tiers = await partnerService.getAllTiers();
@@ -364,7 +391,9 @@ export class PartnerController {
         });
       }
 
-      const verifications = await partnerService.getPartnerVerifications(req.partner.id);
+      const verifications = await partnerService.getPartnerVerifications(req.partner.id, {
+        sandbox: req.query.sandbox === 'true'
+      });
 
       return res.status(200).json({
         success: true,
@@ -427,6 +456,46 @@ export class PartnerController {
     }
   }
 
+  async getVerificationTimeline(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.partner) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { verificationId } = req.params;
+      const timeline = await partnerService.getVerificationTimeline(req.partner.id, verificationId);
+
+      return res.status(200).json({
+        success: true,
+        data: timeline
+      });
+    } catch (error) {
+      logger.error('[PartnerController] Get verification timeline error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      if (error instanceof Error && error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get verification timeline'
+      });
+    }
+  }
+
   async requestVerification(req: AuthRequest, res: Response): Promise<Response> {
     try {
       logger.info('[PartnerController] Request verification called');
@@ -452,12 +521,21 @@ export class PartnerController {
         });
       }
 
+      const { options, error } = parseVerificationOptions(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error
+        });
+      }
+
       const verification = await partnerService.requestVerification(req.partner.id, {
         userName,
         userEmail,
         userPhone,
         type: type || 'IDENTITY',
-        webhookUrl
+        webhookUrl,
+        ...options
       });
 
       logger.info(`Partner ${req.partner.email} requested verification for ${userEmail}`);
@@ -666,10 +744,106 @@ export class PartnerController {
       });
     } catch (error) {
       logger.error('[PartnerController] Update retry count error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid status transition')) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to update retry count'
       });
     }
   }
+
+  async getDecisionPolicy(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.partner) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const policy = await decisionPolicyService.getActivePolicy(req.partner.id);
+
+      return res.status(200).json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      logger.error('[PartnerController] Get decision policy error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get decision policy'
+      });
+    }
+  }
+
+  async getDecisionPolicyHistory(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.partner) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const history = await decisionPolicyService.getPolicyHistory(req.partner.id);
+
+      return res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      logger.error('[PartnerController] Get decision policy history error:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get decision policy history'
+      });
+    }
+  }
+
+  async updateDecisionPolicy(req: AuthRequest, res: Response): Promise<Response> {
+    try {
+      if (!req.partner) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not authenticated'
+        });
+      }
+
+      const { weights, thresholds, blockingFlags, advisoryFlags, riskRules } = req.body;
+
+      const policy = await decisionPolicyService.updatePolicy(
+        req.partner.id,
+        { weights, thresholds, blockingFlags, advisoryFlags, riskRules },
+        req.partner.email
+      );
+
+      logger.info(`[PartnerController] Partner ${req.partner.email} updated decision policy to version ${policy.version}`);
+
+      return res.status(200).json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      logger.error('[PartnerController] Update decision policy error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Invalid decision policy')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update decision policy'
+      });
+    }
+  }
 }
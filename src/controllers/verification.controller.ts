@@ -1,15 +1,30 @@
 import { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
 import { VerificationService } from '../services/verification.service';
 import { WebhookService } from '../services/webhook.service';
+import { JobQueueService, JOB_TYPES } from '../services/job-queue.service';
+import { isVerificationExpired } from '../services/verification-expiry.service';
+import { VerificationAttemptService, ATTEMPT_ERRORS, formatAttempts } from '../services/verification-attempt.service';
+import { LivenessChallengeService, LIVENESS_CHALLENGE_ERRORS } from '../services/liveness-challenge.service';
+import { BiometricService } from '../services/biometric.service';
+import { DocumentScannerService } from '../services/document-scanner.service';
+import { CaptureFeedbackService, CAPTURE_FEEDBACK_ERRORS } from '../services/capture-feedback.service';
 import { s3Service } from '../services/s3.service';
-import { VerificationType, DocumentType, WebhookEvent } from '../types/verification.types';
+import { extractClipFrames, CLIP_ERRORS } from '../services/biometrics/clip-frames';
+import { VerificationType, DocumentType, WebhookEvent, AttemptStatus } from '../types/verification.types';
 import { decryptVerificationRequest } from '../utils/crypto';
-
-const prisma = new PrismaClient();
+import { parseVerificationOptions } from '../utils/verification-options';
+import { withholdDateOfBirth } from '../utils/redact';
+import { config } from '../config';
 
 const verificationService = new VerificationService();
 const webhookService = new WebhookService();
+const jobQueue = new JobQueueService();
+const attemptService = new VerificationAttemptService();
+const livenessChallengeService = new LivenessChallengeService(new BiometricService());
+const captureFeedbackService = new CaptureFeedbackService(new DocumentScannerService(), new BiometricService());
+
+// Fewest frames a selfie clip or burst can be judged live from
+const MIN_SELFIE_FRAMES = 3;
 
 // UUID v4 format validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -43,11 +58,75 @@ async function validateVerificationId(
     return null;
   }
 
+  if (isVerificationExpired(verification)) {
+    sendExpired(res);
+    return null;
+  }
+
   return verification;
 }
 
+function sendExpired(res: Response): void {
+  res.status(410).json({
+    success: false,
+    error: 'Verification expired',
+    message: 'This verification link has expired. Please contact the organization that requested this verification for a new link.'
+  });
+}
+
+/**
+ * Respond to an upload the current attempt cannot take. Returns false for any other error.
+ */
+function sendAttemptError(
+  res: Response,
+  error: unknown,
+  verification?: { retryCount: number; maxRetries: number }
+): boolean {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message === ATTEMPT_ERRORS.RETRY_LIMIT) {
+    res.status(429).json({
+      success: false,
+      error: message,
+      message: 'You have exceeded the maximum number of verification attempts. Please contact the organization that requested this verification to generate a new verification link.',
+      retryCount: verification?.retryCount,
+      maxRetries: verification?.maxRetries
+    });
+    return true;
+  }
+
+  if (message === ATTEMPT_ERRORS.COMPLETED) {
+    res.status(400).json({
+      success: false,
+      error: message,
+      message: 'This verification has already passed. No further action is required.'
+    });
+    return true;
+  }
+
+  if (message === ATTEMPT_ERRORS.PROCESSING) {
+    res.status(409).json({
+      success: false,
+      error: message,
+      message: 'Your documents have been submitted and are being checked. Please wait for the result.'
+    });
+    return true;
+  }
+
+  return false;
+}
+
+const LIVENESS_CHALLENGE_ERROR_STATUS: Record<string, number> = {
+  [LIVENESS_CHALLENGE_ERRORS.NOT_FOUND]: 404,
+  [LIVENESS_CHALLENGE_ERRORS.EXPIRED]: 410,
+  [LIVENESS_CHALLENGE_ERRORS.COMPLETED]: 409,
+  [LIVENESS_CHALLENGE_ERRORS.LIMIT]: 429,
+  [LIVENESS_CHALLENGE_ERRORS.TOO_FEW_FRAMES]: 400
+};
+
 export interface PartnerRequest extends Request {
   partnerId?: string;
+  sandbox?: boolean; // authenticated with the partner's sandbox API key
 }
 
 export class VerificationController {
@@ -56,12 +135,23 @@ export class VerificationController {
       const { userId, type, webhookUrl, metadata } = req.body;
       const partnerId = req.partnerId; // Set by middleware if API key provided
 
+      const { options, error } = parseVerificationOptions(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
       const verification = await verificationService.createVerification(
         userId,
         type as VerificationType,
         webhookUrl,
         metadata,
-        partnerId
+        partnerId,
+        options,
+        !!req.sandbox
       );
 
       if (webhookUrl) {
@@ -88,9 +178,9 @@ export class VerificationController {
   async uploadDocument(req: Request, res: Response) {
     try {
       const { verificationId } = req.params;
-      const { documentType, side } = req.body;
+      const { documentType, side, issuingCountry } = req.body;
 
-      console.log('Upload document request:', { verificationId, documentType, side, hasFile: !!req.file });
+      console.log('Upload document request:', { verificationId, documentType, side, issuingCountry, hasFile: !!req.file });
       console.log('[DEBUG] uploadDocument - Validating verification ID...',verificationId);
 
       // Validate verification ID format and existence FIRST
@@ -99,58 +189,14 @@ export class VerificationController {
         return; // Response already sent by validateVerificationId
       }
 
-      console.log('[DEBUG] uploadDocument - Checking verification status and retry eligibility...');
-
-      // Allow uploads for PENDING, IN_PROGRESS, or FAILED (for retry) statuses
-      // Check total retries across the entire verification chain
-      const totalRetries = await verificationService.getTotalRetryCount(verificationId);
-      const maxRetries = verification.maxRetries;
-
-      console.log('[DEBUG] uploadDocument - Verification found:', {
-        id: verification.id,
-        status: verification.status,
-        totalRetries,
-        maxRetries
-      });
-
-      if (verification.status === 'COMPLETED') {
-        console.log('[DEBUG] uploadDocument - BLOCKED: Verification already completed');
-        return res.status(400).json({
-          success: false,
-          error: 'Verification already completed successfully'
-        });
-      }
-
-      // Only block if verification is FAILED and this is NOT the current/last attempt
-      // Users should be able to re-upload documents for their current attempt even if it previously failed
-      // The retry count only matters when creating a NEW retry verification, not when re-uploading to current one
-      // We block only if they've exceeded max retries (totalRetries > maxRetries means a new retry was already blocked)
-      if (verification.status === 'FAILED' && totalRetries > maxRetries) {
-        console.log('[DEBUG] uploadDocument - BLOCKED: Exceeded max retries', {
-          totalRetries,
-          maxRetries,
-          condition: `${totalRetries} > ${maxRetries} = ${totalRetries > maxRetries}`
-        });
-        return res.status(429).json({
-          success: false,
-          error: 'Maximum retry limit reached',
-          message: 'You have exceeded the maximum number of verification attempts. Please contact the organization that requested this verification to generate a new verification link.',
-          retryCount: totalRetries,
-          maxRetries
-        });
-      }
-
-      // If verification failed but is at max retries, reset to IN_PROGRESS to allow re-upload
-      if (verification.status === 'FAILED' && totalRetries === maxRetries) {
-        console.log('[DEBUG] uploadDocument - Last attempt failed, allowing re-upload and resetting to IN_PROGRESS');
-        await prisma.verification.update({
-          where: { id: verificationId },
-          data: { status: 'IN_PROGRESS' }
-        });
+      // Uploads go to the open attempt; after a failed attempt this opens the next one, up to maxRetries
+      try {
+        await attemptService.openForUpload(verificationId);
+      } catch (error) {
+        if (sendAttemptError(res, error, verification)) return;
+        throw error;
       }
 
-      console.log('[DEBUG] uploadDocument - ALLOWED: Proceeding with upload');
-
       if (!req.file) {
         return res.status(400).json({
           success: false,
@@ -195,7 +241,8 @@ export class VerificationController {
         imageBuffer,
         documentType as DocumentType | undefined,
         side,
-        documentUrl
+        documentUrl,
+        typeof issuingCountry === 'string' && issuingCountry.trim() ? issuingCountry.trim().toUpperCase() : undefined
       );
 
       console.log('Document processed successfully');
@@ -213,20 +260,24 @@ export class VerificationController {
         });
       }
 
+      const data = {
+        document: result.document,
+        extractedData: result.extractedData,
+        quality: result.qualityCheck,
+        documentType: result.documentType,
+        userSelectedType: result.userSelectedType,
+        attemptNumber: result.attemptNumber,
+        documentUrl,
+        storageType: s3Service.isEnabled() ? 's3' : 'local'
+      };
+
       return res.status(200).json({
         success: true,
-        data: {
-          document: result.document,
-          extractedData: result.extractedData,
-          quality: result.qualityCheck,
-          documentType: result.documentType,
-          userSelectedType: result.userSelectedType,
-          documentUrl,
-          storageType: s3Service.isEnabled() ? 's3' : 'local'
-        }
+        data: verification.withholdDob ? withholdDateOfBirth(data) : data
       });
     } catch (error) {
       console.error('Document upload error:', error);
+      if (sendAttemptError(res, error)) return;
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -247,37 +298,14 @@ export class VerificationController {
         return; // Response already sent by validateVerificationId
       }
 
-      // Check total retries across the entire verification chain
-      const totalRetries = await verificationService.getTotalRetryCount(verificationId);
-      const maxRetries = verification.maxRetries;
-
-      console.log('[DEBUG] uploadSelfie - Verification found:', {
-        id: verification.id,
-        status: verification.status,
-        totalRetries,
-        maxRetries
-      });
-
-      // Allow uploads for PENDING, IN_PROGRESS, or FAILED (for retry) statuses
-      if (verification.status === 'COMPLETED') {
-        return res.status(400).json({
-          success: false,
-          error: 'Verification already completed successfully'
-        });
+      // Uploads go to the open attempt; after a failed attempt this opens the next one, up to maxRetries
+      try {
+        await attemptService.openForUpload(verificationId);
+      } catch (error) {
+        if (sendAttemptError(res, error, verification)) return;
+        throw error;
       }
 
-      // Check retry limit BEFORE allowing any upload
-     // if (verification.status === 'FAILED' && totalRetries >= maxRetries) {
-     //   console.log('[DEBUG] uploadSelfie - BLOCKED: Max retries reached');
-     //   return res.status(429).json({
-     //     success: false,
-     //     error: 'Maximum retry limit reached',
-     //     message: 'You have exceeded the maximum number of verification attempts. Please contact the organization that requested this verification to generate a new verification link.',
-     //     retryCount: totalRetries,
-     //     maxRetries
-      //  });
-      //}
-
       if (!req.file) {
         return res.status(400).json({
           success: false,
@@ -327,6 +355,7 @@ export class VerificationController {
         }
       });
     } catch (error) {
+      if (sendAttemptError(res, error)) return;
       return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -334,6 +363,185 @@ export class VerificationController {
     }
   }
 
+  /**
+   * Check a document photo before uploading it; nothing is stored
+   */
+  async precheckDocument(req: Request, res: Response) {
+    return this.sendCaptureFeedback(req, res, (image, sandbox) => captureFeedbackService.checkDocument(image, sandbox));
+  }
+
+  /**
+   * Check a selfie before uploading it; nothing is stored
+   */
+  async precheckSelfie(req: Request, res: Response) {
+    return this.sendCaptureFeedback(req, res, (image, sandbox) => captureFeedbackService.checkSelfie(image, sandbox));
+  }
+
+  private async sendCaptureFeedback(
+    req: Request,
+    res: Response,
+    check: (image: Buffer, sandbox: boolean) => ReturnType<CaptureFeedbackService['checkDocument']>
+  ) {
+    try {
+      const { verificationId } = req.params;
+
+      const verification = await validateVerificationId(verificationId, res);
+      if (!verification) {
+        return;
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded'
+        });
+      }
+
+      const feedback = await check(req.file.buffer, !!verification.isSandbox);
+
+      return res.status(200).json({
+        success: true,
+        data: feedback
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(message === CAPTURE_FEEDBACK_ERRORS.UNREADABLE_IMAGE ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Selfie as a 2-3 second clip (animated WebP or GIF) or a burst of frames in
+   * capture order; liveness is judged across the frames
+   */
+  async uploadSelfieFrames(req: Request, res: Response) {
+    try {
+      const { verificationId } = req.params;
+
+      const verification = await validateVerificationId(verificationId, res);
+      if (!verification) {
+        return;
+      }
+
+      try {
+        await attemptService.openForUpload(verificationId);
+      } catch (error) {
+        if (sendAttemptError(res, error, verification)) return;
+        throw error;
+      }
+
+      const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+      const clip = files.clip?.[0];
+      const frames = clip
+        ? await extractClipFrames(clip.buffer, config.liveness.maxFrames)
+        : (files.frames || []).map(file => file.buffer);
+
+      if (frames.length < MIN_SELFIE_FRAMES) {
+        return res.status(400).json({
+          success: false,
+          error: `At least ${MIN_SELFIE_FRAMES} selfie frames or a selfie clip are required`
+        });
+      }
+
+      const biometricData = await verificationService.processSelfieFrames(verificationId, frames);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...biometricData,
+          storageType: s3Service.isEnabled() ? 's3' : 'local'
+        }
+      });
+    } catch (error) {
+      if (sendAttemptError(res, error)) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(message === CLIP_ERRORS.UNSUPPORTED ? 400 : 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Issue a liveness challenge: a short random sequence of actions the
+   * applicant performs on camera before the frames are uploaded
+   */
+  async createLivenessChallenge(req: Request, res: Response) {
+    try {
+      const { verificationId } = req.params;
+
+      const verification = await validateVerificationId(verificationId, res);
+      if (!verification) {
+        return;
+      }
+
+      const challenge = await livenessChallengeService.createChallenge(verificationId);
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          challengeId: challenge.id,
+          actions: challenge.actions,
+          expiresAt: challenge.expiresAt
+        }
+      });
+    } catch (error) {
+      if (sendAttemptError(res, error)) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(LIVENESS_CHALLENGE_ERROR_STATUS[message] || 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
+  /**
+   * Frames captured while the applicant performed the challenge, in capture order
+   */
+  async submitLivenessChallenge(req: Request, res: Response) {
+    try {
+      const { verificationId, challengeId } = req.params;
+
+      const verification = await validateVerificationId(verificationId, res);
+      if (!verification) {
+        return;
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No frames uploaded'
+        });
+      }
+
+      const mirrored = req.body?.mirrored === true || req.body?.mirrored === 'true';
+      const challenge = await livenessChallengeService.completeChallenge(
+        verificationId,
+        challengeId,
+        files.map(file => file.buffer),
+        mirrored
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          challengeId: challenge.id,
+          status: challenge.status,
+          ...(challenge.result as Record<string, unknown>)
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(LIVENESS_CHALLENGE_ERROR_STATUS[message] || 500).json({
+        success: false,
+        error: message
+      });
+    }
+  }
+
   async submitVerification(req: Request, res: Response) {
     try {
       const { verificationId } = req.params;
@@ -348,8 +556,7 @@ export class VerificationController {
         });
       }
 
-      // Check retry limit before processing
-      let verification = await verificationService.getVerification(verificationId);
+      const verification = await verificationService.getVerification(verificationId);
 
       if (!verification) {
         return res.status(404).json({
@@ -359,53 +566,24 @@ export class VerificationController {
         });
       }
 
-       console.log('[DEBUG] submitVerification 01 - Verification found:', {
-        id: verification!.id,
-        status: verification!.status,
-        retryCount: verification!.retryCount,
-        maxRetries: verification!.maxRetries,
-        documentsCount: verification!.documents?.length 
-      });
-
-
-      // If this verification is FAILED, find the latest retry verification to use instead
-      let activeVerificationId = verificationId;
-      if (verification.status === 'FAILED') {
-        const latestRetry = await verificationService.getLatestRetryVerification(verificationId);
-        console.log('[DEBUG] submitVerification - Looking for retry, found:', latestRetry ? {
-          id: latestRetry.id,
-          status: latestRetry.status,
-          parentVerificationId: latestRetry.parentVerificationId,
-          documentsCount: latestRetry.documents?.length || 0
-        } : 'none');
-
-        // Use the latest retry if it exists and is still in progress (PENDING or IN_PROGRESS)
-        // If the retry is already FAILED, user needs to upload new documents first
-        if (latestRetry && (latestRetry.status === 'PENDING' || latestRetry.status === 'IN_PROGRESS')) {
-          console.log('[DEBUG] submitVerification - Using retry verification:', latestRetry.id);
-          activeVerificationId = latestRetry.id;
-          verification = latestRetry;
-        } else if (latestRetry && latestRetry.status === 'FAILED') {
-          console.log('[DEBUG] submitVerification - Latest retry already failed, user needs to upload new documents');
-          return res.status(400).json({
-            success: false,
-            error: 'Verification already processed',
-            message: 'This verification attempt has already been completed. Please upload new documents to try again.'
-          });
-        }
+      if (isVerificationExpired(verification)) {
+        sendExpired(res);
+        return;
       }
 
+      const attempt = verification.attempts[verification.attempts.length - 1];
+
       console.log('[DEBUG] submitVerification - Verification found:', {
-        id: verification!.id,
-        status: verification!.status,
-        retryCount: verification!.retryCount,
-        maxRetries: verification!.maxRetries,
-        documentsCount: verification!.documents?.length || 0,
-        activeVerificationId
+        id: verification.id,
+        status: verification.status,
+        attempt: attempt.number,
+        attemptStatus: attempt.status,
+        retryCount: verification.retryCount,
+        maxRetries: verification.maxRetries,
+        documentsCount: attempt.documents.length
       });
 
-      // Check if verification has already been completed successfully
-      if (verification!.status === 'COMPLETED') {
+      if (attempt.status === AttemptStatus.PASSED) {
         console.log('[DEBUG] submitVerification - BLOCKED: Already completed');
         return res.status(400).json({
           success: false,
@@ -414,67 +592,47 @@ export class VerificationController {
         });
       }
 
-      // Check retry limit (count all retries in the chain)
-/*       const totalRetries = await verificationService.getTotalRetryCount(verificationId);
-      const maxRetries = verification!.maxRetries;
-      if (totalRetries >= maxRetries) {
-        console.log('[DEBUG] submitVerification - BLOCKED: Max retries reached', {
-          totalRetries,
-          maxRetries,
-          condition: `${totalRetries} >= ${maxRetries} = ${totalRetries >= maxRetries}`
-        });
-        return res.status(429).json({
+      if (attempt.status === AttemptStatus.FAILED) {
+        console.log('[DEBUG] submitVerification - Latest attempt already failed, user needs to upload new documents');
+        return res.status(400).json({
           success: false,
-          error: 'Maximum retry limit reached',
-          message: 'You have exceeded the maximum number of verification attempts. Please contact the organization that requested this verification to generate a new verification link.',
-          retryCount: totalRetries,
-          maxRetries
-        });
-      } */
-
-      console.log('[DEBUG] submitVerification - ALLOWED: Proceeding with verification');
-
-      const result = await verificationService.performVerification(activeVerificationId);
-
-      // Get updated verification to include retry info
-      const updatedVerification = await verificationService.getVerification(verificationId);
-      const remainingRetries = updatedVerification
-        ? updatedVerification.maxRetries - updatedVerification.retryCount
-        : 0;
-
-      // Determine the new status based on the verification result
-      const newStatus = result.passed ? 'COMPLETED' : 'FAILED';
-
-      if (verification?.webhookUrl) {
-        await webhookService.sendWebhook(verification.webhookUrl, {
-          event: WebhookEvent.VERIFICATION_COMPLETED,
-          verificationId,
-          status: newStatus,
-          result,
-          timestamp: new Date().toISOString()
+          error: 'Verification already processed',
+          message: 'This verification attempt has already been completed. Please upload new documents to try again.'
         });
       }
 
-      // If verification failed, include retry information
-      if (!result.passed) {
-        return res.status(200).json({
-          success: true,
-          data: {
-            ...result,
-            canRetry: remainingRetries > 0,
-            remainingRetries,
-            retryCount: updatedVerification?.retryCount || 0,
-            maxRetries: updatedVerification?.maxRetries || 5,
-            message: remainingRetries > 0
-              ? `Verification failed. You have ${remainingRetries} attempt(s) remaining. Please re-upload your documents and try again.`
-              : 'Verification failed. Maximum retry limit reached. Please contact the organization that requested this verification.'
-          }
+      if (attempt.status === AttemptStatus.OPEN) {
+        const missingDocuments = verificationService.getMissingDocumentsError({
+          type: verification.type,
+          documents: attempt.documents
         });
+        if (missingDocuments) {
+          return res.status(400).json({
+            success: false,
+            error: missingDocuments
+          });
+        }
+
+        // The attempt stops taking uploads from here on
+        await attemptService.submit(attempt.id);
       }
 
-      return res.status(200).json({
+      // Processing runs on the job worker; a second submit returns the job already queued
+      const job = await jobQueue.enqueueForVerification(
+        JOB_TYPES.PROCESS_VERIFICATION,
+        verificationId,
+        { verificationId, attemptId: attempt.id }
+      );
+
+      return res.status(202).json({
         success: true,
-        data: result
+        data: {
+          jobId: job.id,
+          verificationId,
+          attemptNumber: attempt.number,
+          status: job.status,
+          statusUrl: `/api/v1/verifications/${verificationId}/jobs/${job.id}`
+        }
       });
     } catch (error) {
       return res.status(500).json({
@@ -484,7 +642,7 @@ export class VerificationController {
     }
   }
 
-  async getVerification(req: Request, res: Response) {
+  async getVerification(req: PartnerRequest, res: Response) {
     try {
       const { verificationId } = req.params;
 
@@ -497,7 +655,7 @@ export class VerificationController {
         });
       }
 
-      let verification = await verificationService.getVerification(verificationId);
+      const verification = await verificationService.getVerification(verificationId);
 
       if (!verification) {
         return res.status(404).json({
@@ -506,61 +664,34 @@ export class VerificationController {
         });
       }
 
-      // If this verification is FAILED, check for active retry (still in progress) and return that instead
-      // Only consider a retry as "active" if it's PENDING or IN_PROGRESS, not if it has already FAILED
-      let activeRetryId: string | null = null;
-      if (verification.status === 'FAILED') {
-        const latestRetry = await verificationService.getLatestRetryVerification(verificationId);
-        if (latestRetry && (latestRetry.status === 'PENDING' || latestRetry.status === 'IN_PROGRESS')) {
-          console.log('[VerificationController] Returning active retry verification:', latestRetry.id);
-          activeRetryId = latestRetry.id;
-          verification = latestRetry;
-        } else if (latestRetry && latestRetry.status === 'FAILED') {
-          // The retry also failed - return the retry's data to show its results
-          console.log('[VerificationController] Returning failed retry verification:', latestRetry.id);
-          verification = latestRetry;
-          // Don't set activeRetryId - this retry is not "active", it has completed (with failure)
-        }
-      }
-
-      // Calculate retry info based on total retries in the chain
-      const totalRetries = await verificationService.getTotalRetryCount(verificationId);
-      const maxRetries = verification.maxRetries;
-      const remainingRetries = maxRetries - totalRetries;
-      const canRetry = verification.status === 'FAILED' && remainingRetries > 0;
-
-       console.log('[VerificationController] Calculate retry info based on total retries in the chain:', totalRetries, maxRetries, remainingRetries, canRetry);
+      const currentAttempt = verification.attempts[verification.attempts.length - 1];
+      const attemptFinished = currentAttempt.status === AttemptStatus.PASSED || currentAttempt.status === AttemptStatus.FAILED;
+      const remainingRetries = Math.max(0, verification.maxRetries - verification.retryCount);
+      const canRetry = currentAttempt.status === AttemptStatus.FAILED && remainingRetries > 0;
 
-      // Determine if this is a fresh retry attempt (user is starting over)
-      // vs. a completed verification (show results)
-      const isActiveRetry = activeRetryId !== null;
-      const isFreshStart = canRetry && (verification.status === 'PENDING' || verification.status === 'IN_PROGRESS');
+      // Results of an earlier attempt are hidden while the user works on a new one
+      const resultsToReturn = attemptFinished ? verification.results : null;
 
-      // Only show errors/results when:
-      // 1. Verification is COMPLETED (passed)
-      // 2. Verification is FAILED and cannot retry (max retries reached)
-      // 3. The current verification (not retry) just failed
-      const showErrors = verification.status === 'COMPLETED' ||
-                         (verification.status === 'FAILED' && !canRetry) ||
-                         (verification.status === 'FAILED' && !isActiveRetry && verification.results !== null);
-
-      // If user can retry and is on a fresh attempt, clear old results
-      const resultsToReturn = (canRetry && (isFreshStart || isActiveRetry)) ? null : verification.results;
+      // A withheld date of birth is left out for every caller, with or without an API key
+      const withholdDob = verification.withholdDob;
 
       return res.status(200).json({
         success: true,
         data: {
-          ...verification,
-          results: resultsToReturn,
-          originalVerificationId: activeRetryId ? verificationId : null,
+          ...(withholdDob ? withholdDateOfBirth(verification) : verification),
+          // Uploads of the current attempt; earlier attempts are listed under attempts
+          documents: withholdDob ? withholdDateOfBirth(currentAttempt.documents) : currentAttempt.documents,
+          results: withholdDob ? withholdDateOfBirth(resultsToReturn) : resultsToReturn,
+          attempts: formatAttempts(verification.attempts),
+          currentAttempt: currentAttempt.number,
           canRetry,
           remainingRetries,
-          retryCount: totalRetries,
-          isRetryInProgress: isActiveRetry || isFreshStart,
-          showErrors,
+          retryCount: verification.retryCount,
+          isRetryInProgress: currentAttempt.number > 1 && !attemptFinished,
+          showErrors: attemptFinished,
           retryMessage: canRetry
             ? `You have ${remainingRetries} attempt(s) remaining. Please re-upload your documents and try again.`
-            : verification.status === 'FAILED'
+            : currentAttempt.status === AttemptStatus.FAILED
               ? 'Maximum retry limit reached. Please contact the organization that requested this verification.'
               : null
         }
@@ -573,6 +704,52 @@ export class VerificationController {
     }
   }
 
+  /**
+   * Poll a submission job. The result is the verification outcome once the job has succeeded.
+   */
+  async getSubmissionJob(req: Request, res: Response) {
+    try {
+      const { verificationId, jobId } = req.params;
+
+      if (!verificationId || !UUID_REGEX.test(verificationId) || !jobId || !UUID_REGEX.test(jobId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid verification or job ID format'
+        });
+      }
+
+      const job = await jobQueue.getJob(jobId);
+      const payload = job?.payload as { verificationId?: string } | undefined;
+
+      if (!job || payload?.verificationId !== verificationId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found'
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          verificationId,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          error: job.lastError,
+          result: job.status === 'SUCCEEDED' ? job.result : null,
+          createdAt: job.createdAt,
+          completedAt: job.completedAt
+        }
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   async compareFaces(req: Request, res: Response) {
     try {
       const { verificationId } = req.params;
@@ -14,18 +14,24 @@ export const apiKeyMiddleware = async (
     const apiKey = req.query.apiKey as string || req.headers['x-api-key'] as string;
 
     if (apiKey) {
-      // Look up partner by API key
-      const partner = await prisma.partner.findUnique({
-        where: { apiKey },
+      // Look up partner by live or sandbox API key
+      const partner = await prisma.partner.findFirst({
+        where: { OR: [{ apiKey }, { sandboxApiKey: apiKey }] },
         include: { tier: true }
       });
+      const sandbox = !!partner && partner.sandboxApiKey === apiKey;
 
-      if (partner && partner.isActive) {
+      // Sandbox requests do not count towards the monthly limit
+      if (partner && partner.isActive && sandbox) {
+        req.partnerId = partner.id;
+        req.sandbox = true;
+      } else if (partner && partner.isActive) {
         // Check if partner has reached their monthly limit
         const thisMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
         const verificationsThisMonth = await prisma.verification.count({
           where: {
             partnerId: partner.id,
+            isSandbox: false,
             createdAt: {
               gte: thisMonth
             }
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { AdminController } from '../controllers/admin.controller';
+import { AdminController, upload } from '../controllers/admin.controller';
 import { adminAuthMiddleware } from '../middleware/admin-auth.middleware';
 
 const router = Router();
@@ -26,14 +26,21 @@ router.put('/partners/:id', adminAuthMiddleware, controller.updatePartner.bind(c
 router.delete('/partners/:id', adminAuthMiddleware, controller.deletePartner.bind(controller));
 router.post('/partners/:id/toggle-active', adminAuthMiddleware, controller.togglePartnerActive.bind(controller));
 router.post('/partners/:id/reset-api-key', adminAuthMiddleware, controller.resetPartnerApiKey.bind(controller));
+router.get('/partners/:id/decision-policy', adminAuthMiddleware, controller.getPartnerDecisionPolicy.bind(controller));
+router.put('/partners/:id/decision-policy', adminAuthMiddleware, controller.updatePartnerDecisionPolicy.bind(controller));
 
 // Verification Management
 router.get('/verifications', adminAuthMiddleware, controller.getVerifications.bind(controller));
 router.get('/verifications/:id', adminAuthMiddleware, controller.getVerificationById.bind(controller));
+router.get('/verifications/:id/shared-document', adminAuthMiddleware, controller.getSharedDocument.bind(controller));
+router.get('/verifications/:id/timeline', adminAuthMiddleware, controller.getVerificationTimeline.bind(controller));
 router.post('/verifications/:id/manual-pass', adminAuthMiddleware, controller.manualPassVerification.bind(controller));
 router.post('/verifications/:id/manual-fail', adminAuthMiddleware, controller.manualFailVerification.bind(controller));
 router.post('/verifications/:id/resend-email', adminAuthMiddleware, controller.resendVerificationEmail.bind(controller));
 router.put('/verifications/:id/details', adminAuthMiddleware, controller.updateVerificationDetails.bind(controller));
 router.put('/verifications/:id/retry-count', adminAuthMiddleware, controller.updateRetryCount.bind(controller));
 
+// Face search
+router.post('/faces/search', adminAuthMiddleware, upload.single('photo'), controller.searchFaces.bind(controller));
+
 export default router;
@@ -20,8 +20,13 @@ router.post('/change-password', partnerAuthMiddleware, controller.changePassword
 router.post('/upload-logo', partnerAuthMiddleware, upload.single('logo'), controller.uploadLogo.bind(controller));
 router.post('/upgrade-tier', partnerAuthMiddleware, controller.upgradeTier.bind(controller));
 router.get('/usage-stats', partnerAuthMiddleware, controller.getUsageStats.bind(controller));
+router.post('/sandbox-api-key', partnerAuthMiddleware, controller.rotateSandboxApiKey.bind(controller));
+router.get('/decision-policy', partnerAuthMiddleware, controller.getDecisionPolicy.bind(controller));
+router.put('/decision-policy', partnerAuthMiddleware, controller.updateDecisionPolicy.bind(controller));
+router.get('/decision-policy/history', partnerAuthMiddleware, controller.getDecisionPolicyHistory.bind(controller));
 router.get('/verifications', partnerAuthMiddleware, controller.getVerifications.bind(controller));
 router.get('/verifications/:verificationId', partnerAuthMiddleware, controller.getVerificationById.bind(controller));
+router.get('/verifications/:verificationId/timeline', partnerAuthMiddleware, controller.getVerificationTimeline.bind(controller));
 router.post('/verifications/request', partnerAuthMiddleware, controller.requestVerification.bind(controller));
 router.post('/verifications/:verificationId/resend-email', partnerAuthMiddleware, controller.resendVerificationEmail.bind(controller));
 router.put('/verifications/:verificationId/details', partnerAuthMiddleware, controller.updateVerificationDetails.bind(controller));
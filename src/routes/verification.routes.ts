@@ -50,6 +50,23 @@ const upload = multer({
   }
 });
 
+// Liveness frames and pre-check captures are analysed and discarded, so they stay in memory
+const frameUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.verification.documentMaxSizeMB * 1024 * 1024,
+    files: config.liveness.maxFrames
+  },
+  fileFilter: (_req, file, cb) => {
+    // WebP and GIF for animated selfie clips
+    if (['image/jpeg', 'image/png', 'image/webp', 'image/gif'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Unsupported frame format. Supported formats: JPEG, PNG, WebP, GIF.'));
+    }
+  }
+});
+
 // Decrypt verification request - no API key needed as this is called from public verify page
 // IMPORTANT: This route must be defined BEFORE /verifications/:verificationId to avoid matching "decrypt" as a verificationId
 router.get(
@@ -69,6 +86,21 @@ router.post(
   controller.uploadDocument.bind(controller)
 );
 
+// Capture pre-checks analyse the picture and discard it, nothing is stored
+router.post(
+  '/verifications/:verificationId/documents/precheck',
+  apiKeyMiddleware,
+  frameUpload.single('document'),
+  controller.precheckDocument.bind(controller)
+);
+
+router.post(
+  '/verifications/:verificationId/selfie/precheck',
+  apiKeyMiddleware,
+  frameUpload.single('selfie'),
+  controller.precheckSelfie.bind(controller)
+);
+
 router.post(
   '/verifications/:verificationId/selfie',
   apiKeyMiddleware,
@@ -76,6 +108,30 @@ router.post(
   controller.uploadSelfie.bind(controller)
 );
 
+// Selfie clip (animated WebP/GIF) or burst of frames, judged live across the frames
+router.post(
+  '/verifications/:verificationId/selfie/frames',
+  apiKeyMiddleware,
+  frameUpload.fields([
+    { name: 'frames', maxCount: config.liveness.maxFrames },
+    { name: 'clip', maxCount: 1 }
+  ]),
+  controller.uploadSelfieFrames.bind(controller)
+);
+
+router.post(
+  '/verifications/:verificationId/liveness/challenges',
+  apiKeyMiddleware,
+  controller.createLivenessChallenge.bind(controller)
+);
+
+router.post(
+  '/verifications/:verificationId/liveness/challenges/:challengeId/frames',
+  apiKeyMiddleware,
+  frameUpload.array('frames', config.liveness.maxFrames),
+  controller.submitLivenessChallenge.bind(controller)
+);
+
 router.post(
   '/verifications/:verificationId/compare-faces',
   apiKeyMiddleware,
@@ -89,4 +145,10 @@ router.post(
   controller.submitVerification.bind(controller)
 );
 
+router.get(
+  '/verifications/:verificationId/jobs/:jobId',
+  apiKeyMiddleware,
+  controller.getSubmissionJob.bind(controller)
+);
+
 export default router;
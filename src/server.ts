@@ -11,6 +11,7 @@ import adminRoutes from './routes/admin.routes';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/error-handler';
+import { createJobWorker } from './worker';
 
 const app = express();
 
@@ -78,6 +79,10 @@ const PORT = config.server.port;
 app.listen(PORT, () => {
   logger.info(`ID Verification Server running on port ${PORT}`);
   logger.info(`Environment: ${config.server.nodeEnv}`);
+
+  if (config.jobs.worker === 'in-process') {
+    createJobWorker().start();
+  }
 });
 
 export default app;
@@ -0,0 +1,165 @@
+import { ExtractedDocumentData } from '../types/verification.types';
+
+export interface AamvaParseResult {
+  iin: string | null;          // Issuer Identification Number of the jurisdiction
+  version: number | null;      // AAMVA DL/ID card design standard version
+  elements: Record<string, string>;
+  data: ExtractedDocumentData;
+}
+
+/**
+ * Parser for the AAMVA DL/ID card design standard payload encoded in the
+ * PDF417 barcode on the back of North American driver's licences and ID cards
+ */
+export class AamvaParserService {
+  /**
+   * Parse a decoded PDF417 payload. Returns null when the text isn't an AAMVA payload.
+   */
+  parse(payload: string): AamvaParseResult | null {
+    if (!payload) return null;
+
+    const text = payload.replace(/\r\n?/g, '\n');
+    const header = text.match(/(?:ANSI|AAMVA) ?(\d{6})(\d{2})/);
+
+    // The first subfile (DL or ID) starts right after the header's subfile directory
+    const subfileStart = text.search(/(?:DL|ID)(?=D[A-Z]{2})/);
+    if (subfileStart === -1) {
+      return null;
+    }
+
+    const elements: Record<string, string> = {};
+    const lines = text.substring(subfileStart + 2).split('\n');
+
+    for (const line of lines) {
+      const match = line.match(/^(D[A-Z]{2})(.*)$/);
+      if (match && !(match[1] in elements)) {
+        elements[match[1]] = match[2].trim();
+      }
+    }
+
+    if (!elements.DAQ) {
+      return null;
+    }
+
+    const version = header ? parseInt(header[2], 10) : null;
+
+    return {
+      iin: header ? header[1] : null,
+      version,
+      elements,
+      data: this.toExtractedData(elements, version, payload)
+    };
+  }
+
+  private toExtractedData(elements: Record<string, string>, version: number | null, payload: string): ExtractedDocumentData {
+    const country = elements.DCG || undefined;
+    // Version 1 and Canadian cards encode dates as CCYYMMDD, US cards as MMDDCCYY
+    const yearFirst = version === 1 || country === 'CAN';
+
+    let lastName: string | undefined = elements.DCS || elements.DAB;
+    let firstName: string | undefined = elements.DAC || elements.DCT;
+    let middleName: string | undefined = elements.DAD;
+
+    // Version 1 cards may only carry the full name as LAST,FIRST,MIDDLE
+    if (!lastName && elements.DAA) {
+      [lastName, firstName, middleName] = elements.DAA.split(',').map(part => part.trim());
+    }
+
+    // DCT (versions 2-3) holds all given names separated by commas
+    if (firstName && firstName.includes(',')) {
+      const [first, ...rest] = firstName.split(',').map(part => part.trim());
+      firstName = first;
+      middleName = middleName || rest.filter(Boolean).join(' ');
+    }
+
+    const clean = (value?: string) => value && value.toUpperCase() !== 'NONE' ? value : undefined;
+    firstName = clean(firstName);
+    middleName = clean(middleName);
+    lastName = clean(lastName);
+
+    const data: ExtractedDocumentData = {
+      documentNumber: elements.DAQ,
+      firstName,
+      lastName,
+      fullName: [firstName, middleName, lastName].filter(Boolean).join(' ') || undefined,
+      dateOfBirth: this.decodeDate(elements.DBB, yearFirst),
+      expiryDate: this.decodeDate(elements.DBA, yearFirst),
+      issueDate: this.decodeDate(elements.DBD, yearFirst),
+      gender: this.decodeSex(elements.DBC),
+      issuingCountry: country,
+      barcode: payload,
+      // Barcode payloads are protected by Reed-Solomon error correction
+      confidence: 1
+    };
+
+    if (elements.DAG || elements.DAI || elements.DAJ || elements.DAK) {
+      data.address = {
+        street: [elements.DAG, elements.DAH].filter(Boolean).join(' ') || undefined,
+        city: elements.DAI || undefined,
+        state: elements.DAJ || undefined,
+        postalCode: this.decodePostalCode(elements.DAK),
+        country
+      };
+    }
+
+    return data;
+  }
+
+  /**
+   * MMDDCCYY or CCYYMMDD to YYYY-MM-DD, trying the other order when the expected one is invalid
+   */
+  private decodeDate(value: string | undefined, yearFirst: boolean): string | undefined {
+    if (!value || !/^\d{8}$/.test(value)) {
+      return undefined;
+    }
+
+    const yearFirstDate = { year: value.substring(0, 4), month: value.substring(4, 6), day: value.substring(6, 8) };
+    const monthFirstDate = { year: value.substring(4, 8), month: value.substring(0, 2), day: value.substring(2, 4) };
+    const candidates = yearFirst ? [yearFirstDate, monthFirstDate] : [monthFirstDate, yearFirstDate];
+
+    for (const { year, month, day } of candidates) {
+      const m = parseInt(month, 10);
+      const d = parseInt(day, 10);
+      const y = parseInt(year, 10);
+      if (m >= 1 && m <= 12 && d >= 1 && d <= 31 && y >= 1900 && y <= 2200) {
+        return `${year}-${month}-${day}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private decodeSex(value?: string): string | undefined {
+    switch (value) {
+      case '1':
+      case 'M':
+        return 'M';
+      case '2':
+      case 'F':
+        return 'F';
+      case '9':
+      case 'X':
+        return 'X';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * US ZIP codes are stored as 9 digits, padded with zeros when the +4 part is unknown
+   */
+  private decodePostalCode(value?: string): string | undefined {
+    if (!value) return undefined;
+
+    const postalCode = value.replace(/\s+/g, '');
+    if (/^\d{9}$/.test(postalCode)) {
+      return postalCode.endsWith('0000')
+        ? postalCode.substring(0, 5)
+        : `${postalCode.substring(0, 5)}-${postalCode.substring(5)}`;
+    }
+    return postalCode;
+  }
+}
+
+// Export singleton instance
+export const aamvaParser = new AamvaParserService();
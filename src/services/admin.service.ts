@@ -4,10 +4,24 @@ import jwt from 'jsonwebtoken';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import { s3Service } from './s3.service';
+import { formatCheckRuns } from './checks/check-pipeline';
+import { VerificationAttemptService, formatAttempts, latestAttemptChecks } from './verification-attempt.service';
+import { VerificationStateService } from './verification-state.service';
+import { verificationOptionsFrom } from '../utils/verification-options';
 import { EmailService } from './email.service';
+import { FaceIndexService } from './face-index.service';
+import { BiometricService } from './biometric.service';
+import { DEFAULT_DECISION_POLICY } from './decision-policy.service';
+import { documentKeyFilter } from './document-reuse.service';
 import { generateVerificationLink } from '../utils/crypto';
+import { ImageForensicsService } from './image-forensics.service';
+import { ImageForensicsReport } from './forensics/forensics.types';
 
 const emailService = new EmailService();
+const faceIndexService = new FaceIndexService(new BiometricService());
+const verificationStateService = new VerificationStateService();
+const attemptService = new VerificationAttemptService();
+const imageForensicsService = new ImageForensicsService();
 
 const prisma = new PrismaClient();
 
@@ -193,13 +207,13 @@ export class AdminService {
     ] = await Promise.all([
       prisma.partner.count(),
       prisma.partner.count({ where: { isActive: true } }),
-      prisma.verification.count(),
+      prisma.verification.count({ where: { isSandbox: false } }),
       prisma.verification.count({
-        where: { createdAt: { gte: startOfMonth } }
+        where: { isSandbox: false, createdAt: { gte: startOfMonth } }
       }),
-      prisma.verification.count({ where: { status: { in: ['PENDING', 'IN_PROGRESS'] } } }),
-      prisma.verification.count({ where: { status: 'COMPLETED' } }),
-      prisma.verification.count({ where: { status: 'FAILED' } })
+      prisma.verification.count({ where: { isSandbox: false, status: { in: ['PENDING', 'IN_PROGRESS'] } } }),
+      prisma.verification.count({ where: { isSandbox: false, status: 'COMPLETED' } }),
+      prisma.verification.count({ where: { isSandbox: false, status: 'FAILED' } })
     ]);
 
     // Calculate revenue (sum of partner tier prices)
@@ -516,8 +530,9 @@ export class AdminService {
     order?: 'asc' | 'desc';
     status?: string;
     partnerId?: string;
+    sandbox?: boolean; // list sandbox verifications instead of live ones
   }) {
-    const where: any = {};
+    const where: any = { isSandbox: !!options?.sandbox };
 
     if (options?.status && options.status !== 'all') {
       where.status = options.status;
@@ -598,7 +613,9 @@ export class AdminService {
         },
         user: true,
         documents: true,
-        results: true
+        results: true,
+        checks: true,
+        attempts: { include: { documents: true, checks: true } }
       }
     });
 
@@ -649,6 +666,12 @@ export class AdminService {
           qualityScore: doc.qualityScore,
           isBlurry: doc.isBlurry,
           hasGlare: doc.hasGlare,
+          ocrProvider: doc.ocrProvider,
+          ocrAttempts: doc.ocrAttempts,
+          forensics: await imageForensicsService.withSignedHeatmaps(doc.forensics as unknown as ImageForensicsReport | null),
+          originality: doc.originality,
+          layout: doc.layout,
+          attemptId: doc.attemptId,
           createdAt: doc.createdAt
         };
       })
@@ -667,9 +690,13 @@ export class AdminService {
         companyName: verification.partner.companyName,
         email: verification.partner.users[0]?.email || ''
       } : null,
+      options: verificationOptionsFrom(verification),
       documents: documentsWithSignedUrls,
       createdAt: verification.createdAt,
       completedAt: verification.completedAt,
+      expiresAt: verification.expiresAt,
+      attempts: formatAttempts(verification.attempts, { includeChecks: true }),
+      checkRuns: formatCheckRuns(latestAttemptChecks(verification)),
       results: null
     };
 
@@ -691,7 +718,10 @@ export class AdminService {
           livenessScore: r.livenessScore,
           nameMatch: r.nameMatch,
           dateOfBirthMatch: r.dateOfBirthMatch,
-          addressMatch: r.addressMatch
+          addressMatch: r.addressMatch,
+          addressMatchScore: r.addressMatchScore,
+          ageOverThreshold: r.ageOverThreshold,
+          age: r.age
         },
         extractedData: r.extractedData || {
           fullName: r.extractedName,
@@ -703,6 +733,7 @@ export class AdminService {
         },
         flags: r.flags || [],
         warnings: r.warnings || [],
+        policyVersion: r.policyVersion,
         createdAt: r.createdAt
       };
     }
@@ -710,6 +741,128 @@ export class AdminService {
     return response;
   }
 
+  /**
+   * Status history of a verification, or null when it does not exist
+   */
+  async getVerificationTimeline(verificationId: string) {
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId }
+    });
+
+    if (!verification) {
+      return null;
+    }
+
+    return {
+      verificationId,
+      status: verification.status,
+      timeline: await verificationStateService.getTimeline(verificationId)
+    };
+  }
+
+  /**
+   * Every other verification whose result recorded the same document as this one.
+   * With crossPartner 'signal', verifications made for other partners are reduced
+   * to a yes/no so one partner's customers are not disclosed while reviewing another's.
+   */
+  async getSharedDocument(verificationId: string, crossPartner: 'full' | 'signal' = 'full') {
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId },
+      include: { results: true }
+    });
+
+    if (!verification) {
+      return null;
+    }
+
+    const key = verification.results?.documentKey;
+    const shared = key
+      ? await prisma.verificationResult.findMany({
+          where: { documentKey: documentKeyFilter(key), verificationId: { not: verificationId } },
+          include: {
+            verification: {
+              include: {
+                partner: { select: { id: true, companyName: true } },
+                user: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'desc' }
+        })
+      : [];
+
+    const verifications = shared.map((r: any) => ({
+      id: r.verificationId,
+      status: r.verification.status,
+      partner: r.verification.partner,
+      userName: r.verification.user?.fullName,
+      userEmail: r.verification.user?.email,
+      extractedName: r.extractedName,
+      extractedDob: r.extractedDob,
+      passed: r.passed,
+      flags: r.flags || [],
+      createdAt: r.createdAt
+    }));
+
+    const otherPartners = verifications.filter((v: any) => (v.partner?.id ?? null) !== verification.partnerId);
+
+    return {
+      verificationId,
+      documentNumber: verification.results?.documentNumber ?? null,
+      issuingCountry: verification.results?.issuingCountry ?? null,
+      crossPartner,
+      verifications: crossPartner === 'signal'
+        ? verifications.filter((v: any) => !otherPartners.includes(v))
+        : verifications,
+      sharedWithOtherPartners: otherPartners.length > 0
+    };
+  }
+
+  /**
+   * 1:N search of an uploaded photo against every enrolled selfie
+   */
+  async searchFaces(imageBuffer: Buffer, options: { threshold?: number; limit?: number } = {}) {
+    const template = await faceIndexService.createTemplate(imageBuffer);
+    if (!template) {
+      throw new Error('No single face found in the uploaded photo');
+    }
+
+    const threshold = options.threshold ?? DEFAULT_DECISION_POLICY.thresholds.duplicateFace;
+    const matches = await faceIndexService.search(template, { threshold, limit: options.limit });
+
+    const verifications = await prisma.verification.findMany({
+      where: { id: { in: matches.map(match => match.verificationId) } },
+      include: {
+        partner: { select: { id: true, companyName: true } },
+        user: true,
+        results: { select: { passed: true, documentNumber: true, issuingCountry: true } }
+      }
+    });
+    const byId = new Map(verifications.map(v => [v.id, v]));
+
+    const results = [];
+    for (const match of matches) {
+      const verification = byId.get(match.verificationId);
+      // Deleted since the search
+      if (!verification) continue;
+      results.push({
+        verificationId: match.verificationId,
+        similarity: match.similarity,
+        status: verification.status,
+        partner: verification.partner,
+        userName: verification.user?.fullName,
+        userEmail: verification.user?.email,
+        extractedName: match.extractedName,
+        documentNumber: verification.results?.documentNumber ?? null,
+        issuingCountry: verification.results?.issuingCountry ?? null,
+        passed: verification.results?.passed ?? null,
+        createdAt: match.createdAt
+      });
+    }
+
+    return { threshold, matches: results };
+  }
+
   // Manual verification actions
   async manualPassVerification(verificationId: string, adminId: string) {
     const verification = await prisma.verification.findUnique({
@@ -721,41 +874,47 @@ export class AdminService {
       throw new Error('Verification not found');
     }
 
-    // Update or create verification result
-    if (verification.results) {
-      await prisma.verificationResult.update({
-        where: { id: verification.results.id },
-        data: {
-          passed: true,
-          score: 1.0,
-          riskLevel: 'LOW',
-          warnings: {
-            push: `Manually approved by admin (${adminId}) on ${new Date().toISOString()}`
+    // Written with the status change, so a rejected transition leaves the result untouched
+    await prisma.$transaction(async (tx) => {
+      // Update or create verification result
+      if (verification.results) {
+        await tx.verificationResult.update({
+          where: { id: verification.results.id },
+          data: {
+            passed: true,
+            score: 1.0,
+            riskLevel: 'LOW',
+            warnings: {
+              push: `Manually approved by admin (${adminId}) on ${new Date().toISOString()}`
+            }
           }
-        }
-      });
-    } else {
-      await prisma.verificationResult.create({
-        data: {
-          verificationId,
-          passed: true,
-          score: 1.0,
-          riskLevel: 'LOW',
-          documentAuthentic: true,
-          documentExpired: false,
-          documentTampered: false,
-          warnings: [`Manually approved by admin (${adminId}) on ${new Date().toISOString()}`]
-        }
+        });
+      } else {
+        await tx.verificationResult.create({
+          data: {
+            verificationId,
+            passed: true,
+            score: 1.0,
+            riskLevel: 'LOW',
+            documentAuthentic: true,
+            documentExpired: false,
+            documentTampered: false,
+            warnings: [`Manually approved by admin (${adminId}) on ${new Date().toISOString()}`]
+          }
+        });
+      }
+
+      const completedAt = new Date();
+      await attemptService.recordManualDecision(tx, verificationId, true, completedAt);
+      await verificationStateService.transition(verificationId, 'COMPLETED', { type: 'admin', id: adminId }, {
+        tx,
+        reason: 'Manually approved',
+        data: { completedAt }
       });
-    }
+    });
 
-    // Update verification status
-    const updated = await prisma.verification.update({
+    const updated = await prisma.verification.findUnique({
       where: { id: verificationId },
-      data: {
-        status: 'COMPLETED',
-        completedAt: new Date()
-      },
       include: {
         results: true,
         partner: true,
@@ -778,42 +937,48 @@ export class AdminService {
       throw new Error('Verification not found');
     }
 
-    // Update or create verification result
-    if (verification.results) {
-      await prisma.verificationResult.update({
-        where: { id: verification.results.id },
-        data: {
-          passed: false,
-          score: 0,
-          riskLevel: 'HIGH',
-          flags: {
-            push: `MANUAL_REJECTION`
-          },
-          warnings: {
-            push: `Manually rejected by admin (${adminId}): ${reason}`
+    // Written with the status change, so a rejected transition leaves the result untouched
+    await prisma.$transaction(async (tx) => {
+      // Update or create verification result
+      if (verification.results) {
+        await tx.verificationResult.update({
+          where: { id: verification.results.id },
+          data: {
+            passed: false,
+            score: 0,
+            riskLevel: 'HIGH',
+            flags: {
+              push: `MANUAL_REJECTION`
+            },
+            warnings: {
+              push: `Manually rejected by admin (${adminId}): ${reason}`
+            }
           }
-        }
-      });
-    } else {
-      await prisma.verificationResult.create({
-        data: {
-          verificationId,
-          passed: false,
-          score: 0,
-          riskLevel: 'HIGH',
-          flags: ['MANUAL_REJECTION'],
-          warnings: [`Manually rejected by admin (${adminId}): ${reason}`]
-        }
+        });
+      } else {
+        await tx.verificationResult.create({
+          data: {
+            verificationId,
+            passed: false,
+            score: 0,
+            riskLevel: 'HIGH',
+            flags: ['MANUAL_REJECTION'],
+            warnings: [`Manually rejected by admin (${adminId}): ${reason}`]
+          }
+        });
+      }
+
+      const completedAt = new Date();
+      const attemptFailed = await attemptService.recordManualDecision(tx, verificationId, false, completedAt);
+      await verificationStateService.transition(verificationId, 'FAILED', { type: 'admin', id: adminId }, {
+        tx,
+        reason: `Manually rejected: ${reason}`,
+        data: { completedAt, retryCount: attemptFailed ? { increment: 1 } : undefined }
       });
-    }
+    });
 
-    // Update verification status
-    const updated = await prisma.verification.update({
+    const updated = await prisma.verification.findUnique({
       where: { id: verificationId },
-      data: {
-        status: 'FAILED',
-        completedAt: new Date()
-      },
       include: {
         results: true,
         partner: true,
@@ -890,17 +1055,16 @@ export class AdminService {
         throw new Error(`Retry count cannot exceed max retries (${verification.maxRetries})`);
       }
 
-      const updated = await prisma.verification.update({
-        where: { id: verificationId },
-        data: {
-          retryCount,
-          // If retry count is reset to less than max, and status is FAILED, set back to PENDING
-          status: retryCount < verification.maxRetries && verification.status === 'FAILED'
-            ? 'PENDING'
-            : verification.status,
-          updatedAt: new Date()
-        }
-      });
+      // If retry count is reset to less than max, and status is FAILED, set back to PENDING
+      const updated = retryCount < verification.maxRetries && verification.status === 'FAILED'
+        ? await verificationStateService.transition(verificationId, 'PENDING', { type: 'admin', id: adminId }, {
+          reason: `Retry count set to ${retryCount}`,
+          data: { retryCount }
+        }) ?? await prisma.verification.findUniqueOrThrow({ where: { id: verificationId } })
+        : await prisma.verification.update({
+          where: { id: verificationId },
+          data: { retryCount }
+        });
 
       logger.info(`[AdminService] Retry count updated successfully for verification ${verificationId}`);
 
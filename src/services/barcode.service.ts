@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  NotFoundException,
+  PDF417Reader,
+  RGBLuminanceSource
+} from '@zxing/library';
+
+/**
+ * Decodes the PDF417 barcode printed on the back of driver's licences and ID cards
+ */
+export class BarcodeService {
+  private reader = new PDF417Reader();
+  private hints = new Map<DecodeHintType, any>([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417]],
+    [DecodeHintType.TRY_HARDER, true]
+  ]);
+
+  /**
+   * Returns the decoded text, or null when no PDF417 barcode could be read.
+   * Photos of the card may be rotated, so each quarter turn is tried.
+   */
+  async decodePdf417(imageBuffer: Buffer): Promise<string | null> {
+    for (const angle of [0, 90, 180, 270]) {
+      try {
+        const { data, info } = await sharp(imageBuffer)
+          .rotate(angle)
+          .resize(2400, 2400, { fit: 'inside', withoutEnlargement: true })
+          .greyscale()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+
+        const luminance = new RGBLuminanceSource(new Uint8ClampedArray(data), info.width, info.height);
+        const bitmap = new BinaryBitmap(new HybridBinarizer(luminance));
+        const result = this.reader.decode(bitmap, this.hints);
+
+        console.log(`[BarcodeService] PDF417 decoded at ${angle}° (${result.getText().length} characters)`);
+        return result.getText();
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) {
+          console.log(`[BarcodeService] PDF417 decode failed at ${angle}°:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    console.log('[BarcodeService] No PDF417 barcode found');
+    return null;
+  }
+}
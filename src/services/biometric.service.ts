@@ -3,12 +3,44 @@ import axios from 'axios';
 import FormData from 'form-data';
 import { ImageAnnotatorClient } from '@google-cloud/vision';
 import { RekognitionClient, CompareFacesCommand, DetectFacesCommand, Attribute } from '@aws-sdk/client-rekognition';
-import { BiometricData, LivenessCheckResult } from '../types/verification.types';
+import { BiometricData, FaceFrameAnalysis, FaceLandmarks, LivenessCheckResult, Point } from '../types/verification.types';
 import { config } from '../config';
+import { BiometricProviderRegistry } from './biometrics/biometric-provider-registry';
+import { BiometricProvider, FaceComparison } from './biometrics/biometric-provider.types';
+import { AwsRekognitionBiometricProvider } from './biometrics/aws-rekognition.provider';
+import { GoogleVisionBiometricProvider } from './biometrics/google-vision.provider';
+import { HeuristicBiometricProvider } from './biometrics/heuristic.provider';
+import { LocalBiometricProvider } from './biometrics/local.provider';
+import {
+  EyeOutline,
+  eyeAspectRatio,
+  eyeStates,
+  findBlink,
+  headNod,
+  headTurn,
+  shapeChange
+} from './biometrics/face-geometry';
+
+// Multi-frame liveness
+const MIN_FACE_FRAMES = 0.8; // share of the frames that must show exactly one face
+const MICRO_MOTION_THRESHOLD = 0.01; // median shape change between frames, in eye distances
+const HEAD_MOVEMENT_THRESHOLD = 0.05; // widest head turn or nod (headTurn / headNod units), about 5 degrees
+const TEXTURE_VARIATION_LIMIT = 0.25; // robust coefficient of variation of the face detail across frames
+const FRONTAL_TURN = 0.1; // head turn still treated as facing the camera
+const FACE_CROP_EYE_DISTANCES = 2.5; // side of the square face crop
+const FACE_DETAIL_SIZE = 128;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
 
 // Face annotation interface from Google Vision API
 interface FaceAnnotation {
   boundingPoly?: { vertices?: Array<{ x?: number; y?: number }> };
+  fdBoundingPoly?: { vertices?: Array<{ x?: number; y?: number }> }; // the face alone, without hair and headwear
   landmarks?: Array<{
     type?: string;
     position?: { x?: number; y?: number; z?: number };
@@ -32,10 +64,60 @@ export class BiometricService {
   private rekognitionClient: RekognitionClient | null = null;
   private useGoogleVision: boolean = false;
   private useAwsRekognition: boolean = false;
+  private registry = new BiometricProviderRegistry();
 
-  constructor() {
+  /**
+   * providers replaces the built-in providers; which of them serve each
+   * capability, and in what order, comes from config.biometrics
+   */
+  constructor(providers?: BiometricProvider[]) {
     this.initializeGoogleVision();
     this.initializeAwsRekognition();
+
+    const registered = providers || [
+      new AwsRekognitionBiometricProvider(this),
+      new GoogleVisionBiometricProvider(this),
+      new HeuristicBiometricProvider(this),
+      new LocalBiometricProvider()
+    ];
+    registered.forEach(provider => this.registry.register(provider));
+  }
+
+  hasGoogleVision(): boolean {
+    return this.useGoogleVision && !!this.visionClient;
+  }
+
+  hasAwsRekognition(): boolean {
+    return this.useAwsRekognition && !!this.rekognitionClient;
+  }
+
+  /**
+   * Call providers in order until one gives a usable result. When none does,
+   * the last result is returned, or the last error thrown.
+   */
+  private async runProviders<P extends { name: string }, R>(
+    capability: string,
+    providers: P[],
+    call: (provider: P) => Promise<R>,
+    isUsable: (result: R) => boolean = () => true
+  ): Promise<R> {
+    let lastResult: R | undefined;
+    let lastError: unknown = new Error(`No ${capability} provider available`);
+
+    for (const provider of providers) {
+      try {
+        const result = await call(provider);
+        if (isUsable(result)) return result;
+        lastResult = result;
+        console.log(`[BiometricService] ${provider.name} ${capability} gave no usable result, trying the next provider`);
+      } catch (error) {
+        lastError = error;
+        console.error(`[BiometricService] ${provider.name} ${capability} failed, trying the next provider:`, error);
+      }
+    }
+
+    if (lastResult !== undefined) return lastResult;
+    throw lastError;
   }
 
   private initializeGoogleVision(): void {
@@ -124,58 +206,54 @@ export class BiometricService {
   }
 
   async extractFaceData(imageBuffer: Buffer): Promise<BiometricData> {
-    try {
-      if (this.useGoogleVision && this.visionClient) {
-        return this.extractFaceDataWithGoogleVision(imageBuffer);
-      }
-      return this.extractFaceDataFallback(imageBuffer);
-    } catch (error) {
-      console.error('[BiometricService] Face extraction error, using fallback:', error);
-      return this.extractFaceDataFallback(imageBuffer);
-    }
+    return this.runProviders('face detection', this.registry.faceDetectors(), provider => provider.detectFace(imageBuffer));
   }
 
-  private async extractFaceDataWithGoogleVision(imageBuffer: Buffer): Promise<BiometricData> {
-    try {
-      const [result] = await this.visionClient!.faceDetection({
-        image: { content: imageBuffer.toString('base64') }
-      });
+  /**
+   * Head pose, eyes and expression of the face in a camera frame. The frame is
+   * turned upright first so landmarks of every provider share its coordinates.
+   */
+  async analyzeFace(imageBuffer: Buffer): Promise<FaceFrameAnalysis> {
+    const frame = await sharp(imageBuffer).rotate().jpeg({ quality: 95 }).toBuffer();
+    return this.runProviders('face analysis', this.registry.faceAnalyzers(), provider => provider.analyzeFace(frame));
+  }
 
-      const faces = result.faceAnnotations;
+  async extractFaceDataWithGoogleVision(imageBuffer: Buffer): Promise<BiometricData> {
+    const [result] = await this.visionClient!.faceDetection({
+      image: { content: imageBuffer.toString('base64') }
+    });
 
-      if (!faces || faces.length === 0) {
-        console.log('[BiometricService] No faces detected by Google Vision');
-        return {
-          faceDetected: false,
-          faceCount: 0
-        };
-      }
+    const faces = result.faceAnnotations;
+
+    if (!faces || faces.length === 0) {
+      console.log('[BiometricService] No faces detected by Google Vision');
+      return {
+        faceDetected: false,
+        faceCount: 0
+      };
+    }
 
-      const primaryFace = faces[0] as FaceAnnotation;
-      console.log('[BiometricService] Google Vision detected', faces.length, 'face(s)');
-      console.log('[BiometricService] Detection confidence:', primaryFace.detectionConfidence);
+    const primaryFace = faces[0] as FaceAnnotation;
+    console.log('[BiometricService] Google Vision detected', faces.length, 'face(s)');
+    console.log('[BiometricService] Detection confidence:', primaryFace.detectionConfidence);
 
-      // Extract landmarks from Google Vision
-      const landmarks = this.extractGoogleVisionLandmarks(primaryFace);
+    // Extract landmarks from Google Vision
+    const landmarks = this.extractGoogleVisionLandmarks(primaryFace);
 
-      // Generate embedding from face features
-      const embedding = this.generateEmbeddingFromFaceAnnotation(primaryFace);
+    // Generate embedding from face features
+    const embedding = this.generateEmbeddingFromFaceAnnotation(primaryFace);
 
-      // Calculate face quality based on Vision API metrics
-      const faceQuality = this.calculateFaceQualityFromAnnotation(primaryFace);
+    // Calculate face quality based on Vision API metrics
+    const faceQuality = this.calculateFaceQualityFromAnnotation(primaryFace);
 
-      return {
-        faceDetected: true,
-        faceCount: faces.length,
-        faceQuality,
-        landmarks,
-        embedding,
-        googleVisionData: primaryFace // Store full annotation for comparison
-      };
-    } catch (error) {
-      console.error('[BiometricService] Google Vision face detection failed:', error);
-      return this.extractFaceDataFallback(imageBuffer);
-    }
+    return {
+      faceDetected: true,
+      faceCount: faces.length,
+      faceQuality,
+      landmarks,
+      embedding,
+      googleVisionData: primaryFace // Store full annotation for comparison
+    };
   }
 
   private extractGoogleVisionLandmarks(face: FaceAnnotation): BiometricData['landmarks'] {
@@ -254,7 +332,112 @@ export class BiometricService {
     return Math.min(1, Math.max(0, quality));
   }
 
-  private async extractFaceDataFallback(imageBuffer: Buffer): Promise<BiometricData> {
+  async analyzeFaceWithGoogleVision(imageBuffer: Buffer): Promise<FaceFrameAnalysis> {
+    const [result] = await this.visionClient!.faceDetection({
+      image: { content: imageBuffer.toString('base64') }
+    });
+
+    const faces = (result.faceAnnotations || []) as FaceAnnotation[];
+    if (faces.length === 0) {
+      return { faceDetected: false, faceCount: 0 };
+    }
+
+    const face = faces[0];
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    const vertices = (face.fdBoundingPoly || face.boundingPoly)?.vertices || [];
+    const xs = vertices.map(v => v.x || 0);
+    const ys = vertices.map(v => v.y || 0);
+    const point = (type: string): Point | null => {
+      const position = face.landmarks?.find(l => l.type === type)?.position;
+      return position ? { x: position.x || 0, y: position.y || 0 } : null;
+    };
+    const eyes: EyeOutline[] = [];
+    for (const side of ['LEFT', 'RIGHT']) {
+      const top = point(`${side}_EYE_TOP_BOUNDARY`);
+      const bottom = point(`${side}_EYE_BOTTOM_BOUNDARY`);
+      const left = point(`${side}_EYE_LEFT_CORNER`);
+      const right = point(`${side}_EYE_RIGHT_CORNER`);
+      if (top && bottom && left && right) eyes.push({ top, bottom, left, right });
+    }
+
+    return {
+      faceDetected: true,
+      faceCount: faces.length,
+      landmarks: this.extractGoogleVisionLandmarks(face),
+      eyeAspectRatio: eyeAspectRatio(eyes),
+      smiling: face.joyLikelihood === 'LIKELY' || face.joyLikelihood === 'VERY_LIKELY',
+      boundingBox: vertices.length > 0 && width > 0 && height > 0
+        ? {
+          left: Math.min(...xs) / width,
+          top: Math.min(...ys) / height,
+          width: (Math.max(...xs) - Math.min(...xs)) / width,
+          height: (Math.max(...ys) - Math.min(...ys)) / height
+        }
+        : undefined,
+      yaw: face.panAngle,
+      pitch: face.tiltAngle,
+      roll: face.rollAngle
+    };
+  }
+
+  async analyzeFaceWithRekognition(imageBuffer: Buffer): Promise<FaceFrameAnalysis> {
+    const response = await this.rekognitionClient!.send(new DetectFacesCommand({
+      Image: { Bytes: imageBuffer },
+      Attributes: ['ALL'] as Attribute[]
+    }));
+
+    const faces = response.FaceDetails || [];
+    if (faces.length === 0) {
+      return { faceDetected: false, faceCount: 0 };
+    }
+
+    // Rekognition gives landmarks as fractions of the image
+    const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+    const face = faces[0];
+    const point = (type: string): Point | null => {
+      const landmark = face.Landmarks?.find(l => l.Type === type);
+      return landmark?.X !== undefined && landmark?.Y !== undefined ? { x: landmark.X * width, y: landmark.Y * height } : null;
+    };
+    const eyes: EyeOutline[] = [];
+    for (const side of ['left', 'right']) {
+      const top = point(`${side}EyeUp`);
+      const bottom = point(`${side}EyeDown`);
+      const left = point(`${side}EyeLeft`);
+      const right = point(`${side}EyeRight`);
+      if (top && bottom && left && right) eyes.push({ top, bottom, left, right });
+    }
+
+    const leftEye = point('eyeLeft');
+    const rightEye = point('eyeRight');
+    const nose = point('nose');
+    const leftMouth = point('mouthLeft');
+    const rightMouth = point('mouthRight');
+
+    return {
+      faceDetected: true,
+      faceCount: faces.length,
+      landmarks: leftEye && rightEye && nose && leftMouth && rightMouth
+        ? { leftEye, rightEye, nose, leftMouth, rightMouth }
+        : undefined,
+      eyeAspectRatio: eyeAspectRatio(eyes),
+      eyesOpen: face.EyesOpen?.Value,
+      smiling: face.Smile?.Value,
+      sunglasses: face.Sunglasses?.Value,
+      boundingBox: face.BoundingBox
+        ? {
+          left: face.BoundingBox.Left || 0,
+          top: face.BoundingBox.Top || 0,
+          width: face.BoundingBox.Width || 0,
+          height: face.BoundingBox.Height || 0
+        }
+        : undefined,
+      yaw: face.Pose?.Yaw,
+      pitch: face.Pose?.Pitch,
+      roll: face.Pose?.Roll
+    };
+  }
+
+  async extractFaceDataFallback(imageBuffer: Buffer): Promise<BiometricData> {
     // Fallback to basic detection
     const faceDetected = await this.detectFaceFallback(imageBuffer);
 
@@ -404,10 +587,10 @@ export class BiometricService {
     return (similarity + 1) / 2;
   }
 
-  async compareFacesWithGoogleVision(
-    documentImageBuffer: Buffer,
-    selfieBuffer: Buffer
-  ): Promise<{ match: boolean; confidence: number; details: any }> {
+  /**
+   * Compare the face on an ID document with a selfie using the configured face compare providers
+   */
+  async compareFaceImages(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
     // Convert PDFs to images before face comparison
     let docBuffer = documentImageBuffer;
     let selfBuffer = selfieBuffer;
@@ -433,23 +616,19 @@ export class BiometricService {
       };
     }
 
-    // Use AWS Rekognition if available (recommended for face comparison)
-    if (this.useAwsRekognition && this.rekognitionClient) {
-      return this.compareFacesWithRekognition(docBuffer, selfBuffer);
-    }
-
-    // Fallback to Google Vision landmark comparison (less accurate)
-    if (this.useGoogleVision && this.visionClient) {
-      return this.compareFacesWithGoogleVisionLandmarks(docBuffer, selfBuffer);
-    }
+    return this.runProviders('face comparison', this.registry.faceComparers(),
+      provider => provider.compareFaces(docBuffer, selfBuffer));
+  }
 
-    // Final fallback to embedding comparison
-    console.log('[BiometricService] No face comparison service available, using embedding fallback');
-    const docFace = await this.extractFaceData(docBuffer);
-    const selfieFace = await this.extractFaceData(selfBuffer);
+  /**
+   * Compare the pixel embeddings of both images - the least accurate method
+   */
+  async compareFacesWithEmbeddings(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
+    const docFace = await this.extractFaceDataFallback(documentImageBuffer);
+    const selfieFace = await this.extractFaceDataFallback(selfieBuffer);
 
     if (!docFace.faceDetected || !selfieFace.faceDetected) {
-      return { match: false, confidence: 0, details: { error: 'Face not detected' } };
+      return { match: false, confidence: 0, details: { error: 'Face not detected', method: 'fallback' } };
     }
 
     const score = await this.compareFaces(docFace.embedding!, selfieFace.embedding!);
@@ -459,10 +638,7 @@ export class BiometricService {
   /**
    * Compare faces using AWS Rekognition - the most accurate method
    */
-  private async compareFacesWithRekognition(
-    documentImageBuffer: Buffer,
-    selfieBuffer: Buffer
-  ): Promise<{ match: boolean; confidence: number; details: any }> {
+  async compareFacesWithRekognition(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
     try {
       console.log('[BiometricService] Using AWS Rekognition for face comparison');
 
@@ -553,97 +729,67 @@ export class BiometricService {
         };
       }
 
-      // Fallback to Google Vision if Rekognition fails
-      if (this.useGoogleVision && this.visionClient) {
-        console.log('[BiometricService] Falling back to Google Vision landmarks');
-        return this.compareFacesWithGoogleVisionLandmarks(documentImageBuffer, selfieBuffer);
-      }
-
-      return {
-        match: false,
-        confidence: 0,
-        details: {
-          error: 'Face comparison failed: ' + error.message,
-          method: 'aws_rekognition'
-        }
-      };
+      // Let the next provider try
+      throw error;
     }
   }
 
   /**
    * Compare faces using Google Vision landmarks - less accurate fallback
    */
-  private async compareFacesWithGoogleVisionLandmarks(
-    documentImageBuffer: Buffer,
-    selfieBuffer: Buffer
-  ): Promise<{ match: boolean; confidence: number; details: any }> {
-    try {
-      console.log('[BiometricService] Using Google Vision landmarks for face comparison (less accurate)');
+  async compareFacesWithGoogleVisionLandmarks(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
+    console.log('[BiometricService] Using Google Vision landmarks for face comparison (less accurate)');
 
-      // Get face annotations for both images
-      const [docResult] = await this.visionClient!.faceDetection({
-        image: { content: documentImageBuffer.toString('base64') }
-      });
+    // Get face annotations for both images
+    const [docResult] = await this.visionClient!.faceDetection({
+      image: { content: documentImageBuffer.toString('base64') }
+    });
 
-      const [selfieResult] = await this.visionClient!.faceDetection({
-        image: { content: selfieBuffer.toString('base64') }
-      });
-
-      const docFaces = docResult.faceAnnotations;
-      const selfieFaces = selfieResult.faceAnnotations;
-
-      if (!docFaces || docFaces.length === 0) {
-        console.log('[BiometricService] No face detected in document');
-        return { match: false, confidence: 0, details: { error: 'No face in document', method: 'google_vision_landmarks' } };
-      }
+    const [selfieResult] = await this.visionClient!.faceDetection({
+      image: { content: selfieBuffer.toString('base64') }
+    });
 
-      if (!selfieFaces || selfieFaces.length === 0) {
-        console.log('[BiometricService] No face detected in selfie');
-        return { match: false, confidence: 0, details: { error: 'No face in selfie', method: 'google_vision_landmarks' } };
-      }
+    const docFaces = docResult.faceAnnotations;
+    const selfieFaces = selfieResult.faceAnnotations;
 
-      const docFace = docFaces[0] as FaceAnnotation;
-      const selfieFace = selfieFaces[0] as FaceAnnotation;
+    if (!docFaces || docFaces.length === 0) {
+      console.log('[BiometricService] No face detected in document');
+      return { match: false, confidence: 0, details: { error: 'No face in document', method: 'google_vision_landmarks' } };
+    }
 
-      // Compare using multiple metrics
-      const landmarkSimilarity = this.compareFaceLandmarks(docFace, selfieFace);
-      const geometrySimilarity = this.compareFaceGeometry(docFace, selfieFace);
+    if (!selfieFaces || selfieFaces.length === 0) {
+      console.log('[BiometricService] No face detected in selfie');
+      return { match: false, confidence: 0, details: { error: 'No face in selfie', method: 'google_vision_landmarks' } };
+    }
 
-      // Weight the similarities
-      const overallScore = (landmarkSimilarity * 0.6) + (geometrySimilarity * 0.4);
+    const docFace = docFaces[0] as FaceAnnotation;
+    const selfieFace = selfieFaces[0] as FaceAnnotation;
 
-      console.log('[BiometricService] Google Vision landmark comparison results:');
-      console.log('  - Landmark similarity:', landmarkSimilarity.toFixed(3));
-      console.log('  - Geometry similarity:', geometrySimilarity.toFixed(3));
-      console.log('  - Overall score:', overallScore.toFixed(3));
-      console.log('  - WARNING: This method is less accurate than AWS Rekognition');
+    // Compare using multiple metrics
+    const landmarkSimilarity = this.compareFaceLandmarks(docFace, selfieFace);
+    const geometrySimilarity = this.compareFaceGeometry(docFace, selfieFace);
 
-      return {
-        match: overallScore >= 0.75,
-        confidence: overallScore,
-        details: {
-          method: 'google_vision_landmarks',
-          warning: 'Landmark-based comparison is less accurate. Consider using AWS Rekognition.',
-          landmarkSimilarity,
-          geometrySimilarity,
-          docDetectionConfidence: docFace.detectionConfidence,
-          selfieDetectionConfidence: selfieFace.detectionConfidence
-        }
-      };
-    } catch (error) {
-      console.error('[BiometricService] Google Vision comparison failed:', error);
+    // Weight the similarities
+    const overallScore = (landmarkSimilarity * 0.6) + (geometrySimilarity * 0.4);
 
-      // Final fallback to embedding comparison
-      const docFace = await this.extractFaceData(documentImageBuffer);
-      const selfieFace = await this.extractFaceData(selfieBuffer);
+    console.log('[BiometricService] Google Vision landmark comparison results:');
+    console.log('  - Landmark similarity:', landmarkSimilarity.toFixed(3));
+    console.log('  - Geometry similarity:', geometrySimilarity.toFixed(3));
+    console.log('  - Overall score:', overallScore.toFixed(3));
+    console.log('  - WARNING: This method is less accurate than AWS Rekognition');
 
-      if (!docFace.faceDetected || !selfieFace.faceDetected) {
-        return { match: false, confidence: 0, details: { error: 'Face detection failed' } };
+    return {
+      match: overallScore >= 0.75,
+      confidence: overallScore,
+      details: {
+        method: 'google_vision_landmarks',
+        warning: 'Landmark-based comparison is less accurate. Consider using AWS Rekognition.',
+        landmarkSimilarity,
+        geometrySimilarity,
+        docDetectionConfidence: docFace.detectionConfidence,
+        selfieDetectionConfidence: selfieFace.detectionConfidence
       }
-
-      const score = await this.compareFaces(docFace.embedding!, selfieFace.embedding!);
-      return { match: score >= 0.85, confidence: score, details: { method: 'fallback_after_error' } };
-    }
+    };
   }
 
   private compareFaceLandmarks(face1: FaceAnnotation, face2: FaceAnnotation): number {
@@ -779,37 +925,138 @@ export class BiometricService {
     return angleScore * ratioScore;
   }
 
+  /**
+   * Passive liveness from a short burst of selfie frames. A live face blinks,
+   * changes shape slightly from frame to frame and turns or nods; a photo moved
+   * in front of the camera does neither. The fine detail of the face also stays
+   * consistent across the frames, where a replayed screen flickers and shifts.
+   * checks.selectedFrame is the sharpest frontal frame, to use as the selfie;
+   * every other face frame must show the same person, or the frames fail.
+   */
   async performLivenessCheck(videoFrames: Buffer[]): Promise<LivenessCheckResult> {
+    const failed = (error: string): LivenessCheckResult => ({
+      isLive: false,
+      confidence: 0,
+      checks: { method: 'multi_frame', error, framesAnalyzed: videoFrames.length }
+    });
+
     if (videoFrames.length < 3) {
-      return {
-        isLive: false,
-        confidence: 0,
-        checks: {}
-      };
+      return failed('At least 3 frames are required');
+    }
+
+    const analyses: FaceFrameAnalysis[] = [];
+    for (const frame of videoFrames) {
+      analyses.push(await this.analyzeFace(frame));
     }
 
-    const blinkDetected = await this.detectBlink(videoFrames);
-    const headMovement = await this.detectHeadMovement(videoFrames);
-    const textureAnalysis = await this.analyzeTexture(videoFrames[0]);
+    if (analyses.some(analysis => analysis.faceCount > 1)) {
+      return failed('More than one face in the frames');
+    }
+    const faceFrames = analyses
+      .map((analysis, index) => ({ analysis, index }))
+      .filter(({ analysis }) => analysis.faceDetected && analysis.landmarks);
+    if (faceFrames.length < Math.max(3, videoFrames.length * MIN_FACE_FRAMES)) {
+      return failed('Face not visible in enough frames');
+    }
 
-    const checksCount = [blinkDetected, headMovement, textureAnalysis].filter(Boolean).length;
-    const confidence = checksCount / 3;
+    const landmarks = faceFrames.map(({ analysis }) => analysis.landmarks!);
+    const eyes = eyeStates(faceFrames.map(({ analysis }) => analysis));
+    const blinkDetected = findBlink(eyes) >= 0;
+
+    // Shape change between consecutive frames; a rigid picture only moves, turns and scales
+    const shapeChanges = landmarks.slice(1).map((frame, i) => shapeChange(landmarks[i], frame));
+    const microMotionScore = Number(median(shapeChanges).toFixed(4));
+    const microMotionPass = microMotionScore >= MICRO_MOTION_THRESHOLD;
+
+    const turns = landmarks.map(headTurn);
+    const nods = landmarks.map(headNod);
+    const headMovementScore = Number(Math.max(
+      Math.max(...turns) - Math.min(...turns),
+      Math.max(...nods) - Math.min(...nods)
+    ).toFixed(3));
+    const headMovement = headMovementScore >= HEAD_MOVEMENT_THRESHOLD;
+
+    const details: number[] = [];
+    for (const { index, analysis } of faceFrames) {
+      details.push(await this.measureFaceDetail(videoFrames[index], analysis.landmarks!));
+    }
+    const detailMedian = median(details);
+    const detailVariation = detailMedian > 0
+      ? 1.4826 * median(details.map(detail => Math.abs(detail - detailMedian))) / detailMedian
+      : 1;
+    const textureConsistencyScore = Number(Math.max(0, 1 - detailVariation / (2 * TEXTURE_VARIATION_LIMIT)).toFixed(3));
+    const textureAnalysis = detailVariation <= TEXTURE_VARIATION_LIMIT;
+
+    // Sharpest frame with open eyes facing the camera; the most frontal one when none does
+    const ranked = faceFrames.map((frame, i) => ({ index: frame.index, detail: details[i], turn: Math.abs(turns[i]), eyes: eyes[i] }));
+    const eyesOpen = ranked.filter(candidate => candidate.eyes !== 'closed');
+    const candidates = eyesOpen.length > 0 ? eyesOpen : ranked;
+    const frontal = candidates.filter(candidate => candidate.turn <= FRONTAL_TURN);
+    const selected = frontal.length > 0
+      ? frontal.reduce((best, candidate) => candidate.detail > best.detail ? candidate : best)
+      : candidates.reduce((best, candidate) => candidate.turn < best.turn ? candidate : best);
+
+    // One frame of someone else's photo among live frames must not become the selfie
+    const { samePerson, samePersonScore } = await this.matchAcrossFrames(
+      videoFrames, selected.index, faceFrames.map(({ index }) => index));
+
+    const passedChecks = [blinkDetected, headMovement, microMotionPass, textureAnalysis].filter(Boolean).length;
+    const isLive = samePerson && microMotionPass && textureAnalysis && (blinkDetected || headMovement);
+    const confidence = passedChecks / 4;
+
+    console.log(`[BiometricService] Multi-frame liveness result: isLive=${isLive}, blink=${blinkDetected}, ` +
+      `headMovement=${headMovementScore}, microMotion=${microMotionScore}, textureConsistency=${textureConsistencyScore}, ` +
+      `samePerson=${samePerson} (${samePersonScore}), frames=${faceFrames.length}/${videoFrames.length}, selected=${selected.index}`);
 
     return {
-      isLive: checksCount >= 2,
+      isLive,
       confidence,
       checks: {
+        method: 'multi_frame',
+        passedChecks,
+        totalChecks: 4,
         blinkDetected,
         headMovement,
-        textureAnalysis
+        headMovementScore,
+        microMotionScore,
+        microMotionPass,
+        textureAnalysis,
+        textureConsistencyScore,
+        samePerson,
+        samePersonScore,
+        framesAnalyzed: videoFrames.length,
+        selectedFrame: selected.index
       }
     };
   }
 
+  /**
+   * Compare the face of the selected frame with the face of every other frame,
+   * stopping at the first that does not match. samePersonScore is the lowest
+   * comparison score.
+   */
+  private async matchAcrossFrames(
+    frames: Buffer[],
+    selected: number,
+    faceFrames: number[]
+  ): Promise<{ samePerson: boolean; samePersonScore: number }> {
+    let samePersonScore = 1;
+    for (const index of faceFrames) {
+      if (index === selected) continue;
+      const comparison = await this.compareFaceImages(frames[selected], frames[index]);
+      samePersonScore = Math.min(samePersonScore, Number(comparison.confidence.toFixed(3)));
+      if (!comparison.match) {
+        console.log(`[BiometricService] Frame ${index} does not show the face of frame ${selected}`);
+        return { samePerson: false, samePersonScore };
+      }
+    }
+    return { samePerson: true, samePersonScore };
+  }
+
   /**
    * Single-image anti-spoofing detection
    * Detects if the selfie is a real face or a printed photo/screen
-   * Uses AWS Rekognition if available, falls back to heuristic analysis
+   * Uses the configured liveness providers; a provider that reports an error hands over to the next
    */
   async performSingleImageLivenessCheck(imageBuffer: Buffer): Promise<LivenessCheckResult> {
     console.log('[BiometricService] Performing single-image liveness check...');
@@ -830,29 +1077,16 @@ export class BiometricService {
       }
     }
 
-    // Try AWS Rekognition first (more accurate)
-    if (this.useAwsRekognition && this.rekognitionClient) {
-      try {
-        const awsResult = await this.performAwsRekognitionLivenessCheck(processBuffer);
-        if (awsResult.checks && !awsResult.checks.error) {
-          console.log('[BiometricService] AWS Rekognition liveness check completed');
-          return awsResult;
-        }
-        console.log('[BiometricService] AWS Rekognition check returned error, falling back to heuristic');
-      } catch (error) {
-        console.error('[BiometricService] AWS Rekognition liveness check failed, falling back to heuristic:', error);
-      }
-    }
-
-    // Fall back to heuristic analysis with relaxed thresholds
-    return this.performHeuristicLivenessCheck(processBuffer);
+    return this.runProviders('liveness check', this.registry.livenessCheckers(),
+      provider => provider.checkLiveness(processBuffer),
+      result => !result.checks?.error);
   }
 
   /**
    * AWS Rekognition-based liveness detection
    * Uses face attributes to determine if the selfie is genuine
    */
-  private async performAwsRekognitionLivenessCheck(imageBuffer: Buffer): Promise<LivenessCheckResult> {
+  async performAwsRekognitionLivenessCheck(imageBuffer: Buffer): Promise<LivenessCheckResult> {
     console.log('[BiometricService] Using AWS Rekognition for liveness detection...');
 
     const checks: LivenessCheckResult['checks'] = {};
@@ -1020,7 +1254,7 @@ export class BiometricService {
    * Uses image analysis when AWS Rekognition is not available
    * Thresholds are relaxed to reduce false positives
    */
-  private async performHeuristicLivenessCheck(imageBuffer: Buffer): Promise<LivenessCheckResult> {
+  async performHeuristicLivenessCheck(imageBuffer: Buffer): Promise<LivenessCheckResult> {
     console.log('[BiometricService] Using heuristic liveness check (fallback)...');
 
     const checks: LivenessCheckResult['checks'] = {};
@@ -1729,93 +1963,36 @@ export class BiometricService {
     return 0.3 + normalizedVariance * 0.7;
   }
 
-  private async detectBlink(frames: Buffer[]): Promise<boolean> {
-    if (frames.length < 3) return false;
-
-    const eyeOpenness: number[] = [];
-
-    for (const frame of frames) {
-      const openness = await this.measureEyeOpenness(frame);
-      eyeOpenness.push(openness);
-    }
-
-    let blinkCount = 0;
-    for (let i = 1; i < eyeOpenness.length - 1; i++) {
-      if (eyeOpenness[i] < 0.3 && eyeOpenness[i - 1] > 0.5 && eyeOpenness[i + 1] > 0.5) {
-        blinkCount++;
-      }
-    }
-
-    return blinkCount > 0;
-  }
-
-  private async measureEyeOpenness(_imageBuffer: Buffer): Promise<number> {
-    return Math.random() * 0.5 + 0.5;
-  }
-
-  private async detectHeadMovement(frames: Buffer[]): Promise<boolean> {
-    if (frames.length < 3) return false;
-
-    const positions: Array<{ x: number; y: number }> = [];
-
-    for (const frame of frames) {
-      const face = await this.extractFaceData(frame);
-      if (face.landmarks) {
-        positions.push(face.landmarks.nose);
-      }
-    }
-
-    if (positions.length < 3) return false;
-
-    let totalMovement = 0;
-    for (let i = 1; i < positions.length; i++) {
-      const dx = positions[i].x - positions[i - 1].x;
-      const dy = positions[i].y - positions[i - 1].y;
-      totalMovement += Math.sqrt(dx * dx + dy * dy);
-    }
-
-    return totalMovement > 20;
-  }
-
-  private async analyzeTexture(imageBuffer: Buffer): Promise<boolean> {
-    const image = sharp(imageBuffer);
-    const grayscale = await image
+  /**
+   * Fine detail of the face in a frame: mean Laplacian response over the face,
+   * scaled to a fixed size so frames of different zoom compare
+   */
+  private async measureFaceDetail(frame: Buffer, landmarks: FaceLandmarks): Promise<number> {
+    const upright = sharp(await sharp(frame).rotate().toBuffer());
+    const { width = 0, height = 0 } = await upright.metadata();
+
+    const points = [landmarks.leftEye, landmarks.rightEye, landmarks.nose, landmarks.leftMouth, landmarks.rightMouth];
+    const centreX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+    const centreY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    const eyeDistance = Math.hypot(landmarks.rightEye.x - landmarks.leftEye.x, landmarks.rightEye.y - landmarks.leftEye.y);
+    const size = Math.max(8, Math.min(width, height, Math.round(eyeDistance * FACE_CROP_EYE_DISTANCES)));
+    const left = Math.round(Math.min(Math.max(0, centreX - size / 2), width - size));
+    const top = Math.round(Math.min(Math.max(0, centreY - size / 2), height - size));
+
+    const pixels = await upright
+      .extract({ left, top, width: size, height: size })
       .grayscale()
+      .resize(FACE_DETAIL_SIZE, FACE_DETAIL_SIZE, { fit: 'fill' })
       .raw()
-      .toBuffer({ resolveWithObject: true });
-
-    const pixels = grayscale.data;
-    const width = grayscale.info.width;
-    const height = grayscale.info.height;
-
-    let varianceSum = 0;
-    let count = 0;
-
-    const blockSize = 10;
-    for (let y = 0; y < height - blockSize; y += blockSize) {
-      for (let x = 0; x < width - blockSize; x += blockSize) {
-        let blockSum = 0;
-        for (let by = 0; by < blockSize; by++) {
-          for (let bx = 0; bx < blockSize; bx++) {
-            blockSum += pixels[(y + by) * width + (x + bx)];
-          }
-        }
-        const blockMean = blockSum / (blockSize * blockSize);
+      .toBuffer();
 
-        let blockVariance = 0;
-        for (let by = 0; by < blockSize; by++) {
-          for (let bx = 0; bx < blockSize; bx++) {
-            const pixel = pixels[(y + by) * width + (x + bx)];
-            blockVariance += (pixel - blockMean) ** 2;
-          }
-        }
-        varianceSum += blockVariance / (blockSize * blockSize);
-        count++;
+    let sum = 0;
+    for (let y = 1; y < FACE_DETAIL_SIZE - 1; y++) {
+      for (let x = 1; x < FACE_DETAIL_SIZE - 1; x++) {
+        const i = y * FACE_DETAIL_SIZE + x;
+        sum += Math.abs(4 * pixels[i] - pixels[i - 1] - pixels[i + 1] - pixels[i - FACE_DETAIL_SIZE] - pixels[i + FACE_DETAIL_SIZE]);
       }
     }
-
-    const avgVariance = varianceSum / count;
-
-    return avgVariance > 100;
+    return sum / ((FACE_DETAIL_SIZE - 2) * (FACE_DETAIL_SIZE - 2));
   }
 }
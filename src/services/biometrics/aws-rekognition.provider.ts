@@ -0,0 +1,28 @@
+import { FaceFrameAnalysis, LivenessCheckResult } from '../../types/verification.types';
+import type { BiometricService } from '../biometric.service';
+import { FaceAnalysisProvider, FaceCompareProvider, FaceComparison, LivenessProvider } from './biometric-provider.types';
+
+/**
+ * AWS Rekognition CompareFaces and DetectFaces attributes; the most accurate provider
+ */
+export class AwsRekognitionBiometricProvider implements FaceCompareProvider, LivenessProvider, FaceAnalysisProvider {
+  readonly name = 'aws_rekognition';
+
+  constructor(private biometricService: BiometricService) {}
+
+  isAvailable(): boolean {
+    return this.biometricService.hasAwsRekognition();
+  }
+
+  compareFaces(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
+    return this.biometricService.compareFacesWithRekognition(documentImageBuffer, selfieBuffer);
+  }
+
+  checkLiveness(imageBuffer: Buffer): Promise<LivenessCheckResult> {
+    return this.biometricService.performAwsRekognitionLivenessCheck(imageBuffer);
+  }
+
+  analyzeFace(imageBuffer: Buffer): Promise<FaceFrameAnalysis> {
+    return this.biometricService.analyzeFaceWithRekognition(imageBuffer);
+  }
+}
@@ -0,0 +1,59 @@
+import { config } from '../../config';
+import {
+  BiometricProvider,
+  FaceAnalysisProvider,
+  FaceCompareProvider,
+  FaceDetectProvider,
+  LivenessProvider
+} from './biometric-provider.types';
+
+/**
+ * Registered biometric providers. Which of them serve each capability, and in
+ * what order, comes from config.biometrics; a configured name whose provider
+ * does not offer the capability is ignored for it.
+ */
+export class BiometricProviderRegistry {
+  private providers = new Map<string, BiometricProvider>();
+
+  register(provider: BiometricProvider): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Biometric provider "${provider.name}" is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  getRegisteredProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  faceDetectors(): FaceDetectProvider[] {
+    return this.select(config.biometrics.faceDetectProviders, (p): p is FaceDetectProvider => 'detectFace' in p);
+  }
+
+  faceComparers(): FaceCompareProvider[] {
+    return this.select(config.biometrics.faceCompareProviders, (p): p is FaceCompareProvider => 'compareFaces' in p);
+  }
+
+  livenessCheckers(): LivenessProvider[] {
+    return this.select(config.biometrics.livenessProviders, (p): p is LivenessProvider => 'checkLiveness' in p);
+  }
+
+  faceAnalyzers(): FaceAnalysisProvider[] {
+    return this.select(config.biometrics.faceAnalysisProviders, (p): p is FaceAnalysisProvider => 'analyzeFace' in p);
+  }
+
+  /**
+   * Available providers with the capability, in configured order
+   */
+  private select<P extends BiometricProvider>(order: string[], offers: (p: BiometricProvider) => p is P): P[] {
+    const selected: P[] = [];
+    for (const name of order) {
+      const provider = this.providers.get(name);
+      if (provider && offers(provider) && provider.isAvailable()) {
+        selected.push(provider);
+      }
+    }
+    return selected;
+  }
+}
@@ -0,0 +1,34 @@
+import { BiometricData, FaceFrameAnalysis, LivenessCheckResult } from '../../types/verification.types';
+
+export interface FaceComparison {
+  match: boolean;
+  confidence: number;
+  details: any; // details.method names the comparison method
+}
+
+interface BiometricProviderBase {
+  readonly name: string;
+  /** Whether the provider is configured (credentials present, client created) */
+  isAvailable(): boolean;
+}
+
+export interface FaceDetectProvider extends BiometricProviderBase {
+  detectFace(imageBuffer: Buffer): Promise<BiometricData>;
+}
+
+export interface FaceCompareProvider extends BiometricProviderBase {
+  compareFaces(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison>;
+}
+
+export interface LivenessProvider extends BiometricProviderBase {
+  checkLiveness(imageBuffer: Buffer): Promise<LivenessCheckResult>;
+}
+
+export interface FaceAnalysisProvider extends BiometricProviderBase {
+  analyzeFace(imageBuffer: Buffer): Promise<FaceFrameAnalysis>;
+}
+
+/**
+ * A provider implements one or more of the capabilities
+ */
+export type BiometricProvider = FaceDetectProvider | FaceCompareProvider | LivenessProvider | FaceAnalysisProvider;
@@ -0,0 +1,29 @@
+import sharp from 'sharp';
+
+export const CLIP_ERRORS = {
+  UNSUPPORTED: 'Unsupported selfie clip. Upload an animated WebP or GIF, or the frames as separate images.'
+} as const;
+
+/**
+ * Frames of an animated WebP or GIF clip as JPEGs, sampled evenly over the
+ * clip when it has more than maxFrames
+ */
+export async function extractClipFrames(clip: Buffer, maxFrames: number): Promise<Buffer[]> {
+  let pages = 1;
+  try {
+    pages = (await sharp(clip).metadata()).pages || 1;
+  } catch {
+    throw new Error(CLIP_ERRORS.UNSUPPORTED);
+  }
+  if (pages < 2) {
+    throw new Error(CLIP_ERRORS.UNSUPPORTED);
+  }
+
+  const count = Math.min(pages, maxFrames);
+  const frames: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const page = count > 1 ? Math.round(i * (pages - 1) / (count - 1)) : 0;
+    frames.push(await sharp(clip, { page }).jpeg({ quality: 95 }).toBuffer());
+  }
+  return frames;
+}
@@ -0,0 +1,133 @@
+import { FaceFrameAnalysis, FaceLandmarks, Point } from '../../types/verification.types';
+
+/**
+ * Outline of one eye: the lid boundaries and the two corners
+ */
+export interface EyeOutline {
+  top: Point;
+  bottom: Point;
+  left: Point;
+  right: Point;
+}
+
+export type EyeState = 'open' | 'closed' | null;
+
+// Eye aspect ratio below this share of the usual opening counts as closed, above the second as open
+const CLOSED_EYE_RATIO = 0.65;
+const OPEN_EYE_RATIO = 0.85;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Eye aspect ratio: lid opening over eye width, averaged over the eyes given.
+ * Stays roughly constant while an eye is open and falls towards 0 as it closes,
+ * whatever the size of the face in the frame.
+ */
+export function eyeAspectRatio(eyes: EyeOutline[]): number | undefined {
+  const ratios = eyes
+    .filter(eye => distance(eye.left, eye.right) > 0)
+    .map(eye => distance(eye.top, eye.bottom) / distance(eye.left, eye.right));
+  return ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : undefined;
+}
+
+/**
+ * Horizontal offset of the nose tip from the point between the eyes, in eye
+ * distances; positive towards the right of the image. About 0 for a frontal
+ * face and 0.2 for a head turned some 20 degrees.
+ */
+export function headTurn(landmarks: FaceLandmarks): number {
+  const eyeDistance = distance(landmarks.leftEye, landmarks.rightEye);
+  if (eyeDistance === 0) {
+    return 0;
+  }
+  return (landmarks.nose.x - (landmarks.leftEye.x + landmarks.rightEye.x) / 2) / eyeDistance;
+}
+
+/**
+ * Vertical position of the nose tip between the eyes (0) and the mouth (1);
+ * changes as the head nods, stays put when a flat picture is tilted
+ */
+export function headNod(landmarks: FaceLandmarks): number {
+  const eyeY = (landmarks.leftEye.y + landmarks.rightEye.y) / 2;
+  const mouthY = (landmarks.leftMouth.y + landmarks.rightMouth.y) / 2;
+  return mouthY === eyeY ? 0 : (landmarks.nose.y - eyeY) / (mouthY - eyeY);
+}
+
+/**
+ * How much the face changed shape between two frames, in eye distances: the
+ * landmark distance left once the frame is moved, turned and scaled onto the
+ * reference. A picture moved in front of the camera keeps its shape.
+ */
+export function shapeChange(reference: FaceLandmarks, frame: FaceLandmarks): number {
+  const keys: Array<keyof FaceLandmarks> = ['leftEye', 'rightEye', 'nose', 'leftMouth', 'rightMouth'];
+  const centre = (landmarks: FaceLandmarks): Point => ({
+    x: keys.reduce((sum, key) => sum + landmarks[key].x, 0) / keys.length,
+    y: keys.reduce((sum, key) => sum + landmarks[key].y, 0) / keys.length
+  });
+  const refCentre = centre(reference);
+  const frameCentre = centre(frame);
+  const p = keys.map(key => ({ x: reference[key].x - refCentre.x, y: reference[key].y - refCentre.y }));
+  const q = keys.map(key => ({ x: frame[key].x - frameCentre.x, y: frame[key].y - frameCentre.y }));
+
+  // Least-squares similarity transform, as the complex factor taking q onto p
+  let real = 0;
+  let imaginary = 0;
+  let norm = 0;
+  for (let i = 0; i < keys.length; i++) {
+    real += q[i].x * p[i].x + q[i].y * p[i].y;
+    imaginary += q[i].x * p[i].y - q[i].y * p[i].x;
+    norm += q[i].x * q[i].x + q[i].y * q[i].y;
+  }
+  const eyeDistance = distance(reference.leftEye, reference.rightEye);
+  if (norm === 0 || eyeDistance === 0) {
+    return 0;
+  }
+  const a = real / norm;
+  const b = imaginary / norm;
+
+  let squares = 0;
+  for (let i = 0; i < keys.length; i++) {
+    squares += (p[i].x - (a * q[i].x - b * q[i].y)) ** 2 + (p[i].y - (a * q[i].y + b * q[i].x)) ** 2;
+  }
+  return Math.sqrt(squares / keys.length) / eyeDistance;
+}
+
+/**
+ * Whether the eyes are open or closed in each frame. The eye aspect ratio is
+ * judged against its median over the frames, the eyes' usual opening for this
+ * face and camera; frames without the eye outline fall back to the provider's
+ * own reading. null when neither is known.
+ */
+export function eyeStates(frames: FaceFrameAnalysis[]): EyeState[] {
+  const ratios = frames
+    .map(frame => frame.eyeAspectRatio)
+    .filter((ratio): ratio is number => ratio !== undefined)
+    .sort((a, b) => a - b);
+  const openRatio = ratios.length > 0 ? ratios[Math.floor(ratios.length / 2)] : 0;
+
+  return frames.map(frame => {
+    if (frame.eyeAspectRatio !== undefined && openRatio > 0) {
+      if (frame.eyeAspectRatio < openRatio * CLOSED_EYE_RATIO) return 'closed';
+      if (frame.eyeAspectRatio >= openRatio * OPEN_EYE_RATIO) return 'open';
+      return null;
+    }
+    return frame.eyesOpen === undefined ? null : frame.eyesOpen ? 'open' : 'closed';
+  });
+}
+
+/**
+ * First frame after `from` where the eyes are closed, with open eyes in
+ * an earlier frame (from `from` on) and in a later one; -1 when there is no blink
+ */
+export function findBlink(states: EyeState[], from = 0): number {
+  for (let index = from + 1; index < states.length - 1; index++) {
+    if (states[index] === 'closed' &&
+        states.slice(from, index).includes('open') &&
+        states.slice(index + 1).includes('open')) {
+      return index;
+    }
+  }
+  return -1;
+}
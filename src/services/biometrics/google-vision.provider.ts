@@ -0,0 +1,28 @@
+import { BiometricData, FaceFrameAnalysis } from '../../types/verification.types';
+import type { BiometricService } from '../biometric.service';
+import { FaceAnalysisProvider, FaceCompareProvider, FaceComparison, FaceDetectProvider } from './biometric-provider.types';
+
+/**
+ * Google Vision face detection; faces are compared by their landmarks, which is less accurate than Rekognition
+ */
+export class GoogleVisionBiometricProvider implements FaceDetectProvider, FaceCompareProvider, FaceAnalysisProvider {
+  readonly name = 'google_vision';
+
+  constructor(private biometricService: BiometricService) {}
+
+  isAvailable(): boolean {
+    return this.biometricService.hasGoogleVision();
+  }
+
+  detectFace(imageBuffer: Buffer): Promise<BiometricData> {
+    return this.biometricService.extractFaceDataWithGoogleVision(imageBuffer);
+  }
+
+  compareFaces(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
+    return this.biometricService.compareFacesWithGoogleVisionLandmarks(documentImageBuffer, selfieBuffer);
+  }
+
+  analyzeFace(imageBuffer: Buffer): Promise<FaceFrameAnalysis> {
+    return this.biometricService.analyzeFaceWithGoogleVision(imageBuffer);
+  }
+}
@@ -0,0 +1,33 @@
+import { BiometricData, LivenessCheckResult } from '../../types/verification.types';
+import type { BiometricService } from '../biometric.service';
+import {
+  FaceCompareProvider,
+  FaceComparison,
+  FaceDetectProvider,
+  LivenessProvider
+} from './biometric-provider.types';
+
+/**
+ * In-process image analysis. Always available, so it belongs last in the order.
+ */
+export class HeuristicBiometricProvider implements FaceDetectProvider, FaceCompareProvider, LivenessProvider {
+  readonly name = 'heuristic';
+
+  constructor(private biometricService: BiometricService) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  detectFace(imageBuffer: Buffer): Promise<BiometricData> {
+    return this.biometricService.extractFaceDataFallback(imageBuffer);
+  }
+
+  compareFaces(documentImageBuffer: Buffer, selfieBuffer: Buffer): Promise<FaceComparison> {
+    return this.biometricService.compareFacesWithEmbeddings(documentImageBuffer, selfieBuffer);
+  }
+
+  checkLiveness(imageBuffer: Buffer): Promise<LivenessCheckResult> {
+    return this.biometricService.performHeuristicLivenessCheck(imageBuffer);
+  }
+}
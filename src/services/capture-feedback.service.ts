@@ -0,0 +1,249 @@
+import sharp from 'sharp';
+import {
+  CaptureFeedback,
+  CaptureGuidance,
+  CaptureGuidanceCode,
+  FaceBoundingBox,
+  FaceFrameAnalysis,
+  ImageRegion
+} from '../types/verification.types';
+import { config } from '../config';
+import { DocumentScannerService } from './document-scanner.service';
+import { BiometricService } from './biometric.service';
+import { headTurn } from './biometrics/face-geometry';
+
+export const CAPTURE_FEEDBACK_ERRORS = {
+  UNREADABLE_IMAGE: 'Image could not be read'
+} as const;
+
+// Mean luminance, 0-255, outside which the picture is too dark or too bright
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 220;
+// Document image size below which processDocument scores the quality down
+const MIN_DOCUMENT_LONG_SIDE = 800;
+const MIN_DOCUMENT_SHORT_SIDE = 600;
+// Face width as a share of the frame width
+const MIN_FACE_WIDTH = 0.2;
+const MAX_FACE_WIDTH = 0.8;
+// Offset of the face centre from the frame centre, as a share of the frame
+const MAX_FACE_OFFSET = 0.2;
+// Head pose in degrees, and the nose offset in eye distances when the provider gives no pose
+const MAX_YAW = 15;
+const MAX_PITCH = 15;
+const MAX_ROLL = 15;
+const MAX_TURN = 0.15;
+// Face width and height in eye distances, for providers that give landmarks but no face box
+const FACE_WIDTH_EYE_DISTANCES = 2.2;
+const FACE_HEIGHT_RATIO = 1.3;
+
+const GUIDANCE_MESSAGES: Record<CaptureGuidanceCode, string> = {
+  [CaptureGuidanceCode.TOO_DARK]: 'The picture is too dark. Move to a brighter place or turn on a light.',
+  [CaptureGuidanceCode.TOO_BRIGHT]: 'The picture is too bright. Move out of direct light.',
+  [CaptureGuidanceCode.BLURRY]: 'The picture is blurry. Hold the camera still and let it focus.',
+  [CaptureGuidanceCode.GLARE]: 'Glare is hiding part of the document. Tilt it away from the light.',
+  [CaptureGuidanceCode.DOCUMENT_CUT_OFF]: 'Part of the document is cut off. Fit the whole document in the frame.',
+  [CaptureGuidanceCode.LOW_RESOLUTION]: 'The document is too small to read. Move the camera closer.',
+  [CaptureGuidanceCode.NO_FACE]: 'No face found. Look into the camera.',
+  [CaptureGuidanceCode.MULTIPLE_FACES]: 'More than one face is in the picture. Make sure you are alone in the frame.',
+  [CaptureGuidanceCode.FACE_TOO_SMALL]: 'Your face is too small. Move closer to the camera.',
+  [CaptureGuidanceCode.FACE_TOO_CLOSE]: 'Your face is too close. Move back from the camera.',
+  [CaptureGuidanceCode.CENTER_FACE]: 'Center your face in the frame.',
+  [CaptureGuidanceCode.FACE_CAMERA]: 'Turn your head to face the camera.',
+  [CaptureGuidanceCode.TILT_HEAD]: 'Your head is tilted. Hold it level.',
+  [CaptureGuidanceCode.LOOK_STRAIGHT]: 'Look straight into the camera without raising or lowering your chin.',
+  [CaptureGuidanceCode.OPEN_EYES]: 'Keep your eyes open.',
+  [CaptureGuidanceCode.REMOVE_SUNGLASSES]: 'Remove your sunglasses.'
+};
+
+function guide(code: CaptureGuidanceCode, region?: ImageRegion): CaptureGuidance {
+  return region
+    ? { code, region, message: `Glare on the ${region.replace('-', ' ')} of the document. Tilt it away from the light.` }
+    : { code, message: GUIDANCE_MESSAGES[code] };
+}
+
+/**
+ * Checks a capture before it is uploaded and tells the applicant what to
+ * change, so the capture UI can retake the picture until it is acceptable.
+ * Runs the same quality checks as an upload without storing anything.
+ */
+export class CaptureFeedbackService {
+  constructor(
+    private documentScanner: DocumentScannerService,
+    private biometricService: BiometricService
+  ) {}
+
+  /**
+   * Lighting, focus, glare and framing of an ID document photo. Acceptable
+   * once nothing needs changing and processDocument would take its quality.
+   * Sandbox uploads may be any picture, so sandbox captures are always acceptable.
+   */
+  async checkDocument(image: Buffer, sandbox = false): Promise<CaptureFeedback> {
+    if (sandbox) {
+      return { acceptable: true, qualityScore: null, guidance: [] };
+    }
+    await this.assertReadable(image);
+
+    // Judge the image processDocument would: the flattened document when its outline is found
+    let documentImage = image;
+    if (config.documentCorrection.enabled) {
+      try {
+        const correction = await this.documentScanner.correctDocument(image);
+        if (correction.corrected) {
+          documentImage = correction.image;
+        }
+      } catch (error) {
+        console.error('[CaptureFeedbackService] Document correction failed, checking the capture as is:', error);
+      }
+    }
+
+    const preprocessed = await this.documentScanner.preprocessImage(documentImage);
+    const quality = await this.documentScanner.checkQuality(preprocessed);
+    // Lighting is judged on the capture as the camera shows it, so glare regions match the applicant's view
+    const lighting = await this.documentScanner.analyzeLighting(image);
+    const { width = 0, height = 0 } = await sharp(preprocessed).metadata();
+
+    const guidance = this.brightnessGuidance(lighting.brightness);
+    if (quality.isBlurry) {
+      guidance.push(guide(CaptureGuidanceCode.BLURRY));
+    }
+    // checkQuality only tells whether the brightest pixel stands out; the regions tell where the glare is
+    for (const region of lighting.glareRegions) {
+      guidance.push(guide(CaptureGuidanceCode.GLARE, region));
+    }
+    if (!quality.isComplete) {
+      guidance.push(guide(CaptureGuidanceCode.DOCUMENT_CUT_OFF));
+    } else if (Math.max(width, height) < MIN_DOCUMENT_LONG_SIDE || Math.min(width, height) < MIN_DOCUMENT_SHORT_SIDE) {
+      guidance.push(guide(CaptureGuidanceCode.LOW_RESOLUTION));
+    }
+
+    return {
+      acceptable: guidance.length === 0 && quality.qualityScore >= config.verification.minQualityScore,
+      qualityScore: quality.qualityScore,
+      guidance
+    };
+  }
+
+  /**
+   * Lighting and focus of a selfie, and the size, position and pose of the
+   * face in it. Acceptable once nothing needs changing.
+   * Sandbox selfies are never sent to a face provider, so they are always acceptable.
+   */
+  async checkSelfie(image: Buffer, sandbox = false): Promise<CaptureFeedback> {
+    if (sandbox) {
+      return { acceptable: true, qualityScore: null, guidance: [] };
+    }
+    const { width, height } = await this.assertReadable(image);
+
+    const quality = await this.documentScanner.checkQuality(await this.documentScanner.preprocessImage(image));
+    const lighting = await this.documentScanner.analyzeLighting(image);
+    const face = await this.biometricService.analyzeFace(image);
+
+    const guidance = this.brightnessGuidance(lighting.brightness);
+    if (quality.isBlurry) {
+      guidance.push(guide(CaptureGuidanceCode.BLURRY));
+    }
+    if (!face.faceDetected) {
+      guidance.push(guide(CaptureGuidanceCode.NO_FACE));
+    } else if (face.faceCount > 1) {
+      guidance.push(guide(CaptureGuidanceCode.MULTIPLE_FACES));
+    } else {
+      guidance.push(...this.faceGuidance(face, width, height));
+    }
+
+    return {
+      acceptable: guidance.length === 0,
+      qualityScore: quality.qualityScore,
+      guidance
+    };
+  }
+
+  private brightnessGuidance(brightness: number): CaptureGuidance[] {
+    if (brightness < MIN_BRIGHTNESS) return [guide(CaptureGuidanceCode.TOO_DARK)];
+    if (brightness > MAX_BRIGHTNESS) return [guide(CaptureGuidanceCode.TOO_BRIGHT)];
+    return [];
+  }
+
+  private faceGuidance(face: FaceFrameAnalysis, width: number, height: number): CaptureGuidance[] {
+    const guidance: CaptureGuidance[] = [];
+
+    const box = this.faceBox(face, width, height);
+    if (box) {
+      if (box.width < MIN_FACE_WIDTH) {
+        guidance.push(guide(CaptureGuidanceCode.FACE_TOO_SMALL));
+      } else if (box.width > MAX_FACE_WIDTH) {
+        guidance.push(guide(CaptureGuidanceCode.FACE_TOO_CLOSE));
+      }
+      const offsetX = Math.abs(box.left + box.width / 2 - 0.5);
+      const offsetY = Math.abs(box.top + box.height / 2 - 0.5);
+      if (Math.max(offsetX, offsetY) > MAX_FACE_OFFSET) {
+        guidance.push(guide(CaptureGuidanceCode.CENTER_FACE));
+      }
+    }
+
+    const turned = face.yaw !== undefined
+      ? Math.abs(face.yaw) > MAX_YAW
+      : !!face.landmarks && Math.abs(headTurn(face.landmarks)) > MAX_TURN;
+    if (turned) {
+      guidance.push(guide(CaptureGuidanceCode.FACE_CAMERA));
+    }
+
+    // Without a pose from the provider the roll is the slope of the line through the eyes
+    const roll = face.roll ?? (face.landmarks
+      ? Math.atan2(face.landmarks.rightEye.y - face.landmarks.leftEye.y, face.landmarks.rightEye.x - face.landmarks.leftEye.x) * 180 / Math.PI
+      : 0);
+    if (Math.abs(roll) > MAX_ROLL) {
+      guidance.push(guide(CaptureGuidanceCode.TILT_HEAD));
+    }
+    if (face.pitch !== undefined && Math.abs(face.pitch) > MAX_PITCH) {
+      guidance.push(guide(CaptureGuidanceCode.LOOK_STRAIGHT));
+    }
+
+    // Eyes behind sunglasses cannot be read as open or closed
+    if (face.sunglasses) {
+      guidance.push(guide(CaptureGuidanceCode.REMOVE_SUNGLASSES));
+    } else if (face.eyesOpen === false) {
+      guidance.push(guide(CaptureGuidanceCode.OPEN_EYES));
+    }
+
+    return guidance;
+  }
+
+  /**
+   * The provider's face box, or one estimated from the landmarks
+   */
+  private faceBox(face: FaceFrameAnalysis, width: number, height: number): FaceBoundingBox | null {
+    if (face.boundingBox) {
+      return face.boundingBox;
+    }
+    if (!face.landmarks || width === 0 || height === 0) {
+      return null;
+    }
+
+    const { leftEye, rightEye, leftMouth, rightMouth } = face.landmarks;
+    const faceWidth = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y) * FACE_WIDTH_EYE_DISTANCES;
+    const faceHeight = faceWidth * FACE_HEIGHT_RATIO;
+    const centreX = (leftEye.x + rightEye.x + leftMouth.x + rightMouth.x) / 4;
+    const centreY = (leftEye.y + rightEye.y + leftMouth.y + rightMouth.y) / 4;
+    return {
+      left: (centreX - faceWidth / 2) / width,
+      top: (centreY - faceHeight / 2) / height,
+      width: faceWidth / width,
+      height: faceHeight / height
+    };
+  }
+
+  /**
+   * Upright size of the capture; throws when it is not an image sharp can decode
+   */
+  private async assertReadable(image: Buffer): Promise<{ width: number; height: number }> {
+    try {
+      const { width = 0, height = 0, orientation = 1 } = await sharp(image).metadata();
+      if (width === 0 || height === 0) {
+        throw new Error('No image dimensions');
+      }
+      return orientation >= 5 ? { width: height, height: width } : { width, height };
+    } catch {
+      throw new Error(CAPTURE_FEEDBACK_ERRORS.UNREADABLE_IMAGE);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { CheckStatus } from '../../types/verification.types';
+import { compareAddresses, formatAddress } from '../../utils/address';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Partner-supplied address against the address read from the document
+ */
+export class AddressMatchCheck implements VerificationCheckModule {
+  readonly name = 'address_match';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const expected = context.expectedAddress;
+
+    if (!expected) {
+      return { status: CheckStatus.SKIPPED, reason: 'No expected address provided' };
+    }
+
+    const extracted = context.extractedData.address;
+
+    // The partner asked for an address match, so an unreadable address can't pass
+    if (!extracted) {
+      console.log('[AddressMatchCheck] No address read from document');
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        details: { expectedAddress: formatAddress(expected), extractedAddress: null },
+        flags: ['ADDRESS_MISMATCH'],
+        warnings: ['Address could not be read from the document']
+      };
+    }
+
+    const comparison = compareAddresses(expected, extracted);
+    const threshold = context.policy.thresholds.addressMatch;
+    const match = comparison.match && comparison.score >= threshold;
+
+    console.log('[AddressMatchCheck] Address comparison result:', { match, score: comparison.score });
+
+    return {
+      status: match ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: comparison.score,
+      provider: 'normalized_components',
+      details: {
+        expectedAddress: formatAddress(expected),
+        extractedAddress: formatAddress(extracted),
+        components: comparison.components,
+        threshold
+      },
+      flags: match ? [] : ['ADDRESS_MISMATCH']
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { CheckStatus } from '../../types/verification.types';
+import { toIsoDate } from '../../utils/date';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+import { describeLowConfidenceRead, lowConfidenceRead } from './field-confidence';
+
+/**
+ * Age gating: the document holder must be at least the partner's minimum age.
+ * Details never include the date of birth so the run can be shown when it is withheld.
+ * Nothing corroborates the date of birth here, so a low-confidence read cannot pass.
+ */
+export class AgeCheck implements VerificationCheckModule {
+  readonly name = 'age';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const minimumAge = context.minimumAge;
+
+    if (!minimumAge) {
+      return { status: CheckStatus.SKIPPED, reason: 'No minimum age requested' };
+    }
+
+    const dateOfBirth = toIsoDate(context.extractedData.dateOfBirth);
+
+    if (!dateOfBirth) {
+      console.log('[AgeCheck] No date of birth read from document');
+      return {
+        status: CheckStatus.FAILED,
+        details: { minimumAge, age: null },
+        flags: ['AGE_UNVERIFIED'],
+        warnings: ['Age could not be verified - no date of birth found on the document']
+      };
+    }
+
+    const age = calculateAge(dateOfBirth);
+    const overThreshold = age >= minimumAge;
+
+    const lowConfidence = lowConfidenceRead(context, 'dateOfBirth');
+    if (lowConfidence) {
+      console.log(`[AgeCheck] Age ${age}, minimum ${minimumAge}: not trusted, date of birth confidence ${lowConfidence.confidence}`);
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        provider: 'date_of_birth',
+        details: { minimumAge, age, lowConfidence: { confidence: lowConfidence.confidence, source: lowConfidence.source } },
+        flags: ['LOW_CONFIDENCE_FIELD'],
+        warnings: [`Age could not be verified - ${describeLowConfidenceRead(lowConfidence)}`]
+      };
+    }
+
+    console.log(`[AgeCheck] Age ${age}, minimum ${minimumAge}: ${overThreshold ? 'PASSED' : 'FAILED'}`);
+
+    return {
+      status: overThreshold ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: overThreshold ? 1 : 0,
+      provider: 'date_of_birth',
+      details: { minimumAge, age },
+      flags: overThreshold ? [] : ['AGE_BELOW_MINIMUM']
+    };
+  }
+}
+
+/**
+ * Whole years between a YYYY-MM-DD date of birth and today (UTC)
+ */
+export function calculateAge(dateOfBirth: string, today: Date = new Date()): number {
+  const [year, month, day] = dateOfBirth.split('-').map(part => parseInt(part, 10));
+  let age = today.getUTCFullYear() - year;
+
+  const birthdayPassed = today.getUTCMonth() + 1 > month ||
+    (today.getUTCMonth() + 1 === month && today.getUTCDate() >= day);
+  if (!birthdayPassed) {
+    age--;
+  }
+
+  return age;
+}
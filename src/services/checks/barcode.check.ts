@@ -0,0 +1,70 @@
+import { CheckStatus } from '../../types/verification.types';
+import { aamvaParser } from '../aamva-parser.service';
+import { compareDocumentFields } from './field-compare';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Compares the AAMVA PDF417 barcode decoded from the back of a licence with
+ * the OCR of the printed front. Forgers often alter the front without
+ * re-encoding the barcode, so a disagreement is treated as tampering.
+ */
+export class BarcodeCheck implements VerificationCheckModule {
+  readonly name = 'barcode';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const idDocuments = context.documents.filter(doc => doc.type !== 'SELFIE');
+    const back = idDocuments.find(doc => doc.side === 'BACK' && doc.extractedData?.barcode);
+
+    if (!back) {
+      return { status: CheckStatus.SKIPPED, reason: 'No barcode decoded from the back of the document' };
+    }
+
+    // Only the front of the same document; an attempt may also hold another ID, such as a passport
+    const front = idDocuments.find(doc => doc.side !== 'BACK' && doc.type === back.type && doc.extractedData);
+
+    const parsed = aamvaParser.parse(back.extractedData.barcode);
+    if (!parsed) {
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: 'Barcode is not an AAMVA payload',
+        warnings: ['Could not read the barcode on the back of the document']
+      };
+    }
+
+    if (!front) {
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: 'No front side of the same document to compare the barcode with',
+        details: { iin: parsed.iin, version: parsed.version }
+      };
+    }
+
+    const { compared, matched, mismatches } = compareDocumentFields(parsed.data, front.extractedData);
+    const details = {
+      iin: parsed.iin,
+      version: parsed.version,
+      frontDocumentId: front.id,
+      backDocumentId: back.id,
+      fieldsCompared: compared,
+      mismatches
+    };
+
+    if (compared === 0) {
+      return { status: CheckStatus.SKIPPED, reason: 'No common fields to compare', details };
+    }
+
+    if (mismatches.length > 0) {
+      console.log('[BarcodeCheck] Barcode does not match front of document:', mismatches);
+      return {
+        status: CheckStatus.FAILED,
+        score: matched / compared,
+        provider: 'aamva_pdf417',
+        details,
+        flags: ['BARCODE_MISMATCH'],
+        warnings: [`Barcode does not match printed ${mismatches.map(m => m.field).join(', ')}`]
+      };
+    }
+
+    return { status: CheckStatus.PASSED, score: 1, provider: 'aamva_pdf417', details };
+  }
+}
@@ -0,0 +1,98 @@
+import { PrismaClient } from '@prisma/client';
+import { CheckStatus } from '../../types/verification.types';
+import { CheckContext, CheckRun, VerificationCheckModule } from './check.types';
+
+const prisma = new PrismaClient();
+
+/**
+ * Runs registered check modules in registration order and persists each run
+ * as a VerificationCheck row
+ */
+export class CheckPipeline {
+  private checks: VerificationCheckModule[] = [];
+
+  register(check: VerificationCheckModule): this {
+    if (this.checks.some(c => c.name === check.name)) {
+      throw new Error(`Check "${check.name}" is already registered`);
+    }
+    this.checks.push(check);
+    return this;
+  }
+
+  getRegisteredChecks(): string[] {
+    return this.checks.map(c => c.name);
+  }
+
+  async run(context: CheckContext): Promise<CheckRun[]> {
+    const runs: CheckRun[] = [];
+
+    for (const check of this.checks) {
+      const startedAt = Date.now();
+
+      try {
+        const outcome = await check.run(context);
+        runs.push({ name: check.name, ...outcome, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        // An unexpected crash fails closed: CHECK_ERROR is blocking unless a policy marks it advisory
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[CheckPipeline] Check ${check.name} threw:`, error);
+        runs.push({
+          name: check.name,
+          status: CheckStatus.ERROR,
+          reason: message,
+          flags: ['CHECK_ERROR'],
+          warnings: [`${check.name} check failed: ${message}`],
+          durationMs: Date.now() - startedAt
+        });
+      }
+
+      const last = runs[runs.length - 1];
+      console.log(`[CheckPipeline] ${check.name}: ${last.status}` +
+        (last.score !== undefined && last.score !== null ? ` (score ${last.score.toFixed(3)})` : '') +
+        (last.reason ? ` - ${last.reason}` : '') +
+        ` in ${last.durationMs}ms`);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Replace the stored check rows of a verification attempt with the latest runs
+   */
+  async persist(verificationId: string, attemptId: string, runs: CheckRun[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.verificationCheck.deleteMany({ where: { attemptId } }),
+      prisma.verificationCheck.createMany({
+        data: runs.map((run, index) => ({
+          verificationId,
+          attemptId,
+          name: run.name,
+          sequence: index,
+          status: run.status,
+          score: run.score ?? null,
+          details: (run.details || {}) as any,
+          reason: run.reason || null,
+          provider: run.provider || null,
+          durationMs: run.durationMs
+        }))
+      })
+    ]);
+  }
+}
+
+/**
+ * Format stored check rows for partner and admin responses
+ */
+export function formatCheckRuns(checks: any[] | undefined) {
+  return (checks || [])
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(c => ({
+      name: c.name,
+      status: c.status,
+      score: c.score,
+      reason: c.reason,
+      provider: c.provider,
+      durationMs: c.durationMs,
+      details: c.details
+    }));
+}
@@ -0,0 +1,53 @@
+import {
+  CheckStatus,
+  DecisionPolicy,
+  DocumentAddress,
+  ExtractedDocumentData,
+  LivenessChallengeResult
+} from '../../types/verification.types';
+import { FieldConflict, FieldSource } from '../field-merge.service';
+
+/**
+ * Everything a check module may read while a verification is being decided.
+ * Checks must not write to the database; the pipeline persists their runs.
+ */
+export interface CheckContext {
+  verificationId: string;
+  verificationType: string;
+  partnerId?: string | null;
+  requesterName?: string | null;
+  expectedDateOfBirth?: string | null; // YYYY-MM-DD
+  expectedAddress?: DocumentAddress | string | null;
+  minimumAge?: number | null;
+  metadata: Record<string, any>;
+  documents: any[];
+  idDocument?: any;
+  selfieDocument?: any;
+  livenessChallenge?: LivenessChallengeResult | null; // latest completed liveness challenge of the attempt
+  extractedData: ExtractedDocumentData; // merged across every ID document
+  fieldSources: Record<string, FieldSource>;
+  fieldConflicts: FieldConflict[];
+  averageQuality: number;
+  policy: DecisionPolicy;
+  fetchImage: (url: string) => Promise<Buffer | null>;
+}
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  score?: number | null;
+  provider?: string | null;
+  details?: Record<string, unknown>;
+  reason?: string; // why the check was skipped or errored
+  flags?: string[];
+  warnings?: string[];
+}
+
+export interface CheckRun extends CheckOutcome {
+  name: string;
+  durationMs: number;
+}
+
+export interface VerificationCheckModule {
+  readonly name: string;
+  run(context: CheckContext): Promise<CheckOutcome>;
+}
@@ -0,0 +1,40 @@
+import { CheckStatus } from '../../types/verification.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Fields that disagree between the ID documents of a verification: front and
+ * back of the same card, or a passport and a licence of the same person.
+ * Details list every conflicting value and the document it was read from for reviewers.
+ */
+export class DataConsistencyCheck implements VerificationCheckModule {
+  readonly name = 'data_consistency';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const documentIds = new Set(Object.values(context.fieldSources).map(source => source.documentId));
+
+    if (documentIds.size < 2) {
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: 'Fewer than two ID documents to compare',
+        details: { sources: context.fieldSources }
+      };
+    }
+
+    const details = { sources: context.fieldSources, conflicts: context.fieldConflicts };
+
+    if (context.fieldConflicts.length > 0) {
+      const fields = [...new Set(context.fieldConflicts.map(conflict => conflict.field))];
+      console.log('[DataConsistencyCheck] Documents disagree on:', fields);
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        provider: 'field_merge',
+        details,
+        flags: ['DATA_INCONSISTENCY'],
+        warnings: [`Documents disagree on ${fields.join(', ')}`]
+      };
+    }
+
+    return { status: CheckStatus.PASSED, score: 1, provider: 'field_merge', details };
+  }
+}
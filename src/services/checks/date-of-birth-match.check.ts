@@ -0,0 +1,91 @@
+import { CheckStatus } from '../../types/verification.types';
+import { toIsoDate } from '../../utils/date';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+import { describeLowConfidenceRead, lowConfidenceRead } from './field-confidence';
+
+/**
+ * Partner-supplied date of birth against the date of birth read from the document.
+ * A mismatch against a low-confidence read is reported as LOW_CONFIDENCE_FIELD
+ * rather than DOB_MISMATCH, as it is more likely a misread than a different person.
+ */
+export class DateOfBirthMatchCheck implements VerificationCheckModule {
+  readonly name = 'date_of_birth_match';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const expected = context.expectedDateOfBirth;
+
+    if (!expected) {
+      return { status: CheckStatus.SKIPPED, reason: 'No expected date of birth provided' };
+    }
+
+    const extracted = toIsoDate(context.extractedData.dateOfBirth);
+    const details = { expectedDateOfBirth: expected, extractedDateOfBirth: extracted || null, swapped: false };
+
+    // The partner asked for a DOB match, so an unreadable DOB can't pass
+    if (!extracted) {
+      console.log('[DateOfBirthMatchCheck] No date of birth read from document');
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        details,
+        flags: ['DOB_MISMATCH'],
+        warnings: ['Date of birth could not be read from the document']
+      };
+    }
+
+    const lowConfidence = lowConfidenceRead(context, 'dateOfBirth');
+    // Agreeing with the partner's value corroborates a low-confidence read, so a match still passes
+    const matchWarnings = lowConfidence
+      ? [`Date of birth matched but was ${describeLowConfidenceRead(lowConfidence)}`]
+      : [];
+
+    if (extracted === expected) {
+      return {
+        status: CheckStatus.PASSED,
+        score: 1,
+        provider: 'exact',
+        details: { ...details, lowConfidence },
+        warnings: matchWarnings
+      };
+    }
+
+    // Numeric dates like 03/04/1990 are ambiguous, so OCR may read day and month the wrong way round
+    if (this.swapDayAndMonth(extracted) === expected) {
+      console.log('[DateOfBirthMatchCheck] Date of birth matches with day and month swapped');
+      return {
+        status: CheckStatus.PASSED,
+        score: 0.9,
+        provider: 'day_month_swap',
+        details: { ...details, swapped: true, lowConfidence },
+        warnings: ['Date of birth matched with day and month swapped', ...matchWarnings]
+      };
+    }
+
+    if (lowConfidence) {
+      console.log('[DateOfBirthMatchCheck] Date of birth mismatch on a low-confidence read:', lowConfidence);
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        details: { ...details, lowConfidence },
+        flags: ['LOW_CONFIDENCE_FIELD'],
+        warnings: [`Date of birth could not be confirmed - ${describeLowConfidenceRead(lowConfidence)}`]
+      };
+    }
+
+    console.log('[DateOfBirthMatchCheck] Date of birth mismatch:', details);
+    return {
+      status: CheckStatus.FAILED,
+      score: 0,
+      details,
+      flags: ['DOB_MISMATCH']
+    };
+  }
+
+  private swapDayAndMonth(isoDate: string): string | null {
+    const [year, month, day] = isoDate.split('-');
+    if (parseInt(day, 10) > 12) {
+      return null;
+    }
+    return `${year}-${day}-${month}`;
+  }
+}
@@ -0,0 +1,59 @@
+import { CheckStatus } from '../../types/verification.types';
+import { parseDocumentDate } from '../../utils/date';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+import { describeLowConfidenceRead, lowConfidenceRead } from './field-confidence';
+
+export class DocumentExpiryCheck implements VerificationCheckModule {
+  readonly name = 'document_expiry';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const rawExpiry = context.extractedData.expiryDate;
+    const expiry = parseDocumentDate(rawExpiry);
+
+    if (!expiry) {
+      console.log('[DocumentExpiryCheck] No expiry date found on document');
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: rawExpiry ? `Could not parse expiry date "${rawExpiry}"` : 'No expiry date found on document',
+        warnings: ['Could not verify document expiry - no expiry date found']
+      };
+    }
+
+    const today = new Date();
+    // Set time to start of day for accurate date comparison
+    today.setHours(0, 0, 0, 0);
+    expiry.setHours(0, 0, 0, 0);
+
+    const expired = expiry < today;
+    const lowConfidence = lowConfidenceRead(context, 'expiryDate');
+    const details = { expiryDate: expiry.toISOString().split('T')[0], lowConfidence };
+
+    if (expired && lowConfidence) {
+      console.log('[DocumentExpiryCheck] Document looks expired on a low-confidence read:', lowConfidence);
+      return {
+        status: CheckStatus.FAILED,
+        details,
+        flags: ['LOW_CONFIDENCE_FIELD'],
+        warnings: [`Document expiry could not be confirmed - ${describeLowConfidenceRead(lowConfidence)}`]
+      };
+    }
+
+    if (expired) {
+      const expiryDate = new Date(rawExpiry!).toLocaleDateString();
+      console.log('[DocumentExpiryCheck] Document is EXPIRED - expiry date:', expiryDate);
+      return {
+        status: CheckStatus.FAILED,
+        details,
+        flags: ['DOCUMENT_EXPIRED'],
+        warnings: [`Document expired on ${expiryDate}`]
+      };
+    }
+
+    console.log('[DocumentExpiryCheck] Document is valid - expiry date:', rawExpiry);
+    return {
+      status: CheckStatus.PASSED,
+      details,
+      warnings: lowConfidence ? [`Document expiry date was only ${describeLowConfidenceRead(lowConfidence)}`] : []
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { CheckStatus, DocumentLayoutResult } from '../../types/verification.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Fails when an ID document does not look like the document type it was
+ * uploaded as: the wrong card or page proportions, no portrait, or a passport
+ * page without its machine readable zone. The layout is validated at upload time.
+ */
+export class DocumentLayoutCheck implements VerificationCheckModule {
+  readonly name = 'document_layout';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const documents = context.documents.filter(doc => doc.type !== 'SELFIE' && doc.layout);
+
+    if (documents.length === 0) {
+      return { status: CheckStatus.SKIPPED, reason: 'No validated ID document layout' };
+    }
+
+    const inspected: Array<Record<string, unknown>> = [];
+    let invalid = false;
+
+    for (const doc of documents) {
+      const layout = doc.layout as DocumentLayoutResult;
+      if (!layout.valid) {
+        console.log('[DocumentLayoutCheck] Document flagged:', { id: doc.id, type: doc.type, issues: layout.issues });
+        invalid = true;
+      }
+
+      inspected.push({
+        documentId: doc.id,
+        type: doc.type,
+        side: doc.side ?? null,
+        format: layout.format,
+        aspectRatio: layout.aspectRatio,
+        expectedAspectRatio: layout.expectedAspectRatio,
+        portraitFound: layout.portraitFound ?? null,
+        mrzFound: layout.mrzFound ?? null,
+        issues: layout.issues
+      });
+    }
+
+    return {
+      status: invalid ? CheckStatus.FAILED : CheckStatus.PASSED,
+      provider: 'image_analysis',
+      details: { documents: inspected },
+      flags: invalid ? ['INVALID_DOCUMENT_LAYOUT'] : []
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { CheckStatus, DocumentOriginalityResult } from '../../types/verification.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Fails when an ID document image was taken of a screen, a photocopy or a
+ * printout instead of the physical document. The analysis itself runs at
+ * upload time; this check reads the stored per-signal scores.
+ */
+export class DocumentOriginalityCheck implements VerificationCheckModule {
+  readonly name = 'document_originality';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const documents = context.documents.filter(doc => doc.type !== 'SELFIE' && doc.originality);
+
+    if (documents.length === 0) {
+      return { status: CheckStatus.SKIPPED, reason: 'No analysed ID document image' };
+    }
+
+    const inspected: Array<Record<string, unknown>> = [];
+    let notOriginal = false;
+    let lowestScore = 1;
+
+    for (const doc of documents) {
+      const originality = doc.originality as DocumentOriginalityResult;
+      if (!originality.isOriginal) {
+        console.log('[DocumentOriginalityCheck] Document flagged:', { id: doc.id, reasons: originality.reasons, score: originality.score });
+        notOriginal = true;
+      }
+
+      lowestScore = Math.min(lowestScore, originality.score);
+      inspected.push({
+        documentId: doc.id,
+        type: doc.type,
+        side: doc.side ?? null,
+        score: originality.score,
+        reasons: originality.reasons,
+        signals: originality.signals
+      });
+    }
+
+    return {
+      status: notOriginal ? CheckStatus.FAILED : CheckStatus.PASSED,
+      score: lowestScore,
+      provider: 'image_analysis',
+      details: { documents: inspected },
+      flags: notOriginal ? ['DOCUMENT_NOT_ORIGINAL'] : []
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { CheckStatus } from '../../types/verification.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Average quality score of all uploaded documents against the policy minimum
+ */
+export class DocumentQualityCheck implements VerificationCheckModule {
+  readonly name = 'document_quality';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const minQualityScore = context.policy.thresholds.minQualityScore;
+
+    return {
+      status: context.averageQuality >= minQualityScore ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: context.averageQuality,
+      provider: 'document_scanner',
+      details: {
+        documentCount: context.documents.length,
+        minQualityScore
+      }
+    };
+  }
+}
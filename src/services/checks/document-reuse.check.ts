@@ -0,0 +1,58 @@
+import { CheckStatus } from '../../types/verification.types';
+import { toIsoDate } from '../../utils/date';
+import { DocumentReuseService, documentKey } from '../document-reuse.service';
+import { fullNamesMatch } from './field-compare';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * The same document number verified earlier under a different name or date of
+ * birth. Users are keyed by email + full name, so a new User record is no proof
+ * of a new person. Details only say whether other partners saw the document,
+ * never which verifications, since check runs are returned to the partner.
+ */
+export class DocumentReuseCheck implements VerificationCheckModule {
+  readonly name = 'document_reuse';
+
+  constructor(private documentReuseService: DocumentReuseService) {}
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const { extractedData } = context;
+    const key = documentKey(extractedData.documentNumber, extractedData.issuingCountry);
+
+    if (!key) {
+      return { status: CheckStatus.SKIPPED, reason: 'No document number read from the document' };
+    }
+
+    const priorUses = await this.documentReuseService.findPriorUses(key, context.verificationId);
+    const dateOfBirth = toIsoDate(extractedData.dateOfBirth);
+
+    const reuses = priorUses.filter(use => {
+      const differentName = !!use.extractedName && !!extractedData.fullName &&
+        !fullNamesMatch(use.extractedName, extractedData.fullName);
+      const differentDob = !!use.extractedDob && !!dateOfBirth &&
+        use.extractedDob.toISOString().split('T')[0] !== dateOfBirth;
+      return differentName || differentDob;
+    });
+
+    const samePartner = (partnerId: string | null) => partnerId === (context.partnerId ?? null);
+    const details = {
+      priorUses: priorUses.filter(use => samePartner(use.partnerId)).length,
+      reusedVerificationIds: reuses.filter(use => samePartner(use.partnerId)).map(use => use.verificationId),
+      reusedByOtherPartners: reuses.some(use => !samePartner(use.partnerId))
+    };
+
+    if (reuses.length > 0) {
+      console.log(`[DocumentReuseCheck] Document previously verified under a different identity (${reuses.length} verification(s))`);
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        provider: 'verification_history',
+        details,
+        flags: ['DOCUMENT_REUSED'],
+        warnings: ['This document was previously verified under a different name or date of birth']
+      };
+    }
+
+    return { status: CheckStatus.PASSED, score: 1, provider: 'verification_history', details };
+  }
+}
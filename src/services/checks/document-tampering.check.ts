@@ -0,0 +1,73 @@
+import { CheckStatus } from '../../types/verification.types';
+import { ImageForensicsReport } from '../forensics/forensics.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Tampering detection should only flag obvious manipulation.
+ * Low quality or OCR confidence alone doesn't indicate tampering
+ * (could be lighting, camera quality, document wear, etc.)
+ * The image forensics run at upload time are the main signal.
+ */
+export class DocumentTamperingCheck implements VerificationCheckModule {
+  readonly name = 'document_tampering';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    // Skip selfie documents - they don't need tampering checks
+    const documents = context.documents.filter(doc => doc.type !== 'SELFIE');
+
+    if (documents.length === 0) {
+      return { status: CheckStatus.SKIPPED, reason: 'No ID document to inspect' };
+    }
+
+    const inspected: Array<Record<string, unknown>> = [];
+    let tampered = false;
+    let lowestScore = 1;
+
+    for (const doc of documents) {
+      const qualityScore = doc.qualityScore || 1;
+      const confidence = doc.extractedData?.confidence || 1;
+      const findings: string[] = [];
+
+      // Only flag as tampered if quality is EXTREMELY low (< 0.15)
+      // This indicates potential digital manipulation or fake document
+      if (qualityScore < 0.15) {
+        findings.push('very_low_quality');
+      }
+
+      // Only flag if OCR confidence is EXTREMELY low (< 0.2)
+      // This could indicate text has been digitally altered
+      if (confidence < 0.2) {
+        findings.push('very_low_ocr_confidence');
+      }
+
+      // Error level, copy-move, compression grid and metadata analysis of the uploaded image
+      const forensics = doc.forensics as ImageForensicsReport | null;
+      if (forensics?.tampered) {
+        findings.push(...forensics.findings.filter(f => f.suspicious).map(f => `forensics_${f.analyzer}`));
+      }
+
+      if (findings.length > 0) {
+        console.log('[DocumentTamperingCheck] Document flagged:', { id: doc.id, qualityScore, confidence, forensicsScore: forensics?.score, findings });
+        tampered = true;
+      }
+
+      lowestScore = Math.min(lowestScore, qualityScore, confidence, 1 - (forensics?.score ?? 0));
+      inspected.push({
+        documentId: doc.id,
+        type: doc.type,
+        qualityScore,
+        confidence,
+        forensicsScore: forensics?.score ?? null,
+        findings
+      });
+    }
+
+    return {
+      status: tampered ? CheckStatus.FAILED : CheckStatus.PASSED,
+      score: lowestScore,
+      provider: 'image_forensics',
+      details: { documents: inspected },
+      flags: tampered ? ['POSSIBLE_TAMPERING'] : []
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { CheckStatus } from '../../types/verification.types';
+import { FaceIndexService } from '../face-index.service';
+import { documentKey, sameDocumentKey } from '../document-reuse.service';
+import { fullNamesMatch } from './field-compare';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * 1:N search of the selfie against every earlier verification. The same face
+ * under a different name or document number suggests one person holding
+ * several identities. As with document reuse, matches made for other partners
+ * are only reported as a yes/no.
+ */
+export class DuplicateFaceCheck implements VerificationCheckModule {
+  readonly name = 'duplicate_face';
+
+  constructor(private faceIndexService: FaceIndexService) {}
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    if (!context.selfieDocument) {
+      return { status: CheckStatus.SKIPPED, reason: 'No selfie uploaded' };
+    }
+
+    const threshold = context.policy.thresholds.duplicateFace;
+    const matches = await this.faceIndexService.searchByVerification(context.verificationId, threshold);
+
+    if (!matches) {
+      return { status: CheckStatus.SKIPPED, reason: 'No face template enrolled for the selfie' };
+    }
+
+    const { extractedData } = context;
+    const key = documentKey(extractedData.documentNumber, extractedData.issuingCountry);
+
+    const duplicates = matches.filter(match => {
+      const differentName = !!match.extractedName && !!extractedData.fullName &&
+        !fullNamesMatch(match.extractedName, extractedData.fullName);
+      const differentDocument = !!match.documentKey && !!key && !sameDocumentKey(match.documentKey, key);
+      return differentName || differentDocument;
+    });
+
+    const samePartner = (partnerId: string | null) => partnerId === (context.partnerId ?? null);
+    const details = {
+      threshold,
+      matches: matches.filter(match => samePartner(match.partnerId)).length,
+      duplicates: duplicates
+        .filter(match => samePartner(match.partnerId))
+        .map(match => ({ verificationId: match.verificationId, similarity: match.similarity })),
+      duplicatedByOtherPartners: duplicates.some(match => !samePartner(match.partnerId))
+    };
+
+    if (duplicates.length > 0) {
+      console.log(`[DuplicateFaceCheck] Face matches ${duplicates.length} verification(s) under a different identity`);
+      return {
+        status: CheckStatus.FAILED,
+        score: duplicates[0].similarity,
+        provider: 'local_lbp',
+        details,
+        flags: ['DUPLICATE_FACE'],
+        warnings: ['This face was previously verified under a different name or document']
+      };
+    }
+
+    return { status: CheckStatus.PASSED, score: 1, provider: 'local_lbp', details };
+  }
+}
@@ -0,0 +1,92 @@
+import { CheckStatus } from '../../types/verification.types';
+import { BiometricService } from '../biometric.service';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Compares the face on the ID document with the selfie
+ */
+export class FaceMatchCheck implements VerificationCheckModule {
+  readonly name = 'face_match';
+
+  constructor(private biometricService: BiometricService) {}
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const { idDocument, selfieDocument } = context;
+
+    if (!idDocument || !selfieDocument) {
+      const warnings: string[] = [];
+      if (!idDocument) {
+        warnings.push('No ID document found for face comparison');
+      }
+      if (!selfieDocument) {
+        warnings.push('No selfie found for face comparison');
+      }
+      return {
+        status: CheckStatus.SKIPPED,
+        score: 0,
+        reason: !idDocument ? 'No ID document uploaded' : 'No selfie uploaded',
+        warnings
+      };
+    }
+
+    // The corrected document image has the portrait upright and undistorted
+    const idImageUrl = idDocument.processedUrl || idDocument.originalUrl;
+
+    console.log('[FaceMatchCheck] Performing face comparison...');
+    console.log('  - ID Document URL:', idImageUrl);
+    console.log('  - Selfie URL:', selfieDocument.originalUrl);
+
+    try {
+      // Fetch the images from URLs
+      const idImageBuffer = await context.fetchImage(idImageUrl);
+      const selfieImageBuffer = await context.fetchImage(selfieDocument.originalUrl);
+
+      if (!idImageBuffer || !selfieImageBuffer) {
+        const missing = !idImageBuffer ? 'ID document' : 'selfie';
+        console.error(`[FaceMatchCheck] Failed to fetch ${missing} image`);
+        return {
+          status: CheckStatus.ERROR,
+          score: 0,
+          reason: `Could not fetch ${missing} image`,
+          flags: ['IMAGE_FETCH_FAILED'],
+          warnings: [`Could not fetch ${missing} image for face comparison`]
+        };
+      }
+
+      const comparison = await this.biometricService.compareFaceImages(
+        idImageBuffer,
+        selfieImageBuffer
+      );
+
+      const threshold = context.policy.thresholds.faceMatch;
+      const match = comparison.match && comparison.confidence >= threshold;
+
+      console.log('[FaceMatchCheck] Face comparison result:');
+      console.log('  - Match:', match);
+      console.log('  - Score:', comparison.confidence);
+      console.log('  - Details:', JSON.stringify(comparison.details));
+
+      return {
+        status: match ? CheckStatus.PASSED : CheckStatus.FAILED,
+        score: comparison.confidence,
+        provider: comparison.details?.method || null,
+        details: {
+          providerMatch: comparison.match,
+          threshold,
+          ...(comparison.details || {})
+        },
+        flags: match ? [] : ['FACE_MISMATCH']
+      };
+    } catch (faceError) {
+      console.error('[FaceMatchCheck] Face comparison error:', faceError);
+      const message = faceError instanceof Error ? faceError.message : 'Unknown error';
+      return {
+        status: CheckStatus.ERROR,
+        score: 0,
+        reason: message,
+        flags: ['FACE_COMPARISON_ERROR'],
+        warnings: ['Face comparison failed: ' + message]
+      };
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { ExtractedDocumentData } from '../../types/verification.types';
+import { toIsoDate } from '../../utils/date';
+
+export interface FieldMismatch {
+  field: string;
+  source: string;  // value from the machine readable source (MRZ, barcode)
+  visual: string;  // value read from the printed front
+}
+
+export interface FieldComparison {
+  compared: number;
+  matched: number;
+  mismatches: FieldMismatch[];
+}
+
+/**
+ * Compare the identity fields decoded from a machine readable source with
+ * the fields read from the printed document. Fields missing or unparseable
+ * on either side are left out.
+ */
+export function compareDocumentFields(source: ExtractedDocumentData, visual: ExtractedDocumentData): FieldComparison {
+  const comparison: FieldComparison = { compared: 0, matched: 0, mismatches: [] };
+
+  const compare = (field: string, a: string | undefined, b: string | undefined, equal: (a: string, b: string) => boolean) => {
+    if (!a || !b) return;
+    comparison.compared++;
+    if (equal(a, b)) {
+      comparison.matched++;
+    } else {
+      comparison.mismatches.push({ field, source: a, visual: b });
+    }
+  };
+
+  compare('documentNumber', source.documentNumber, visual.documentNumber,
+    (a, b) => normalizeDocumentNumber(a) === normalizeDocumentNumber(b));
+  compare('dateOfBirth', toIsoDate(source.dateOfBirth), toIsoDate(visual.dateOfBirth), (a, b) => a === b);
+  compare('expiryDate', toIsoDate(source.expiryDate), toIsoDate(visual.expiryDate), (a, b) => a === b);
+  compare('lastName', source.lastName, visual.lastName, namesMatch);
+  compare('firstName', source.firstName, visual.firstName, namesMatch);
+
+  return comparison;
+}
+
+export function normalizeDocumentNumber(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Machine readable sources transliterate and may truncate long names, so a prefix match is accepted
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const normalize = (name: string) => name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '');
+
+  const first = normalize(a);
+  const second = normalize(b);
+
+  if (!first || !second) return true;
+  return first === second || first.startsWith(second) || second.startsWith(first);
+}
+
+/**
+ * Full names in any order; every part of the shorter name must appear in the longer one
+ */
+export function fullNamesMatch(a: string, b: string): boolean {
+  const parts = (name: string) => name.split(/[\s,]+/).filter(Boolean);
+  const [shorter, longer] = [parts(a), parts(b)].sort((x, y) => x.length - y.length);
+  return shorter.every(part => longer.some(other => namesMatch(part, other)));
+}
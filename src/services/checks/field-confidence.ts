@@ -0,0 +1,26 @@
+import { CheckContext } from './check.types';
+
+export interface LowConfidenceRead {
+  field: string;
+  confidence: number;
+  source: string;
+}
+
+/**
+ * The merged field when it was read with less confidence than the policy
+ * trusts to decide a check on, otherwise null
+ */
+export function lowConfidenceRead(context: CheckContext, field: string): LowConfidenceRead | null {
+  const source = context.fieldSources[field];
+  if (!source || source.confidence >= context.policy.thresholds.fieldConfidence) {
+    return null;
+  }
+  return { field, confidence: source.confidence, source: source.provider };
+}
+
+/**
+ * Reviewer-facing description, e.g. "read with 40% confidence by tesseract"
+ */
+export function describeLowConfidenceRead(read: LowConfidenceRead): string {
+  return `read with ${Math.round(read.confidence * 100)}% confidence by ${read.source}`;
+}
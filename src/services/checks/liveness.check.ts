@@ -0,0 +1,145 @@
+import { CheckStatus, LivenessChallengeResult } from '../../types/verification.types';
+import { config } from '../../config';
+import { BiometricService } from '../biometric.service';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Decides liveness from the attempt's completed liveness challenge when there
+ * is one, otherwise from the selfie result processSelfie recorded in verification metadata.
+ * A passed challenge only counts for the selfie when the selfie shows the same face
+ * and did not fail its own liveness check.
+ */
+export class LivenessCheck implements VerificationCheckModule {
+  readonly name = 'liveness';
+
+  constructor(private biometricService: BiometricService) {}
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const { livenessChallenge } = context;
+    const selfieOutcome = this.selfieOutcome(context);
+
+    if (livenessChallenge) {
+      if (!livenessChallenge.passed) {
+        return this.challengeOutcome(livenessChallenge, {
+          status: CheckStatus.FAILED,
+          flags: ['LIVENESS_CHECK_FAILED'],
+          warnings: ['Liveness challenge actions were not performed - possible photo, screen or replayed video']
+        });
+      }
+      // Performing the actions live says nothing about a selfie that looks like a photo or screen
+      if (selfieOutcome?.status === CheckStatus.FAILED) {
+        return selfieOutcome;
+      }
+      return this.matchChallengeToSelfie(context, livenessChallenge);
+    }
+
+    if (config.liveness.requireChallenge && context.verificationType !== 'DOCUMENT_ONLY') {
+      return {
+        status: CheckStatus.FAILED,
+        score: 0,
+        reason: 'No completed liveness challenge',
+        flags: ['LIVENESS_CHECK_FAILED'],
+        warnings: ['No liveness challenge was completed for this attempt']
+      };
+    }
+
+    // Older verifications have no liveness data; these are not failed (backwards compatibility)
+    return selfieOutcome ?? {
+      status: CheckStatus.SKIPPED,
+      score: 1,
+      reason: context.selfieDocument ? 'No liveness result recorded for selfie' : 'No selfie uploaded'
+    };
+  }
+
+  /**
+   * Liveness of the selfie itself; null when none was recorded
+   */
+  private selfieOutcome(context: CheckContext): CheckOutcome | null {
+    const { metadata } = context;
+    if (metadata.livenessCheck === undefined || metadata.livenessCheck === null) {
+      return null;
+    }
+
+    const livenessScore: number = metadata.livenessScore ?? 1;
+    const threshold = context.policy.thresholds.liveness;
+    const isLive = metadata.livenessCheck === true && livenessScore >= threshold;
+
+    return {
+      status: isLive ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: livenessScore,
+      provider: metadata.livenessDetails?.method || null,
+      details: {
+        threshold,
+        checks: metadata.livenessDetails || {}
+      },
+      flags: isLive ? [] : ['LIVENESS_CHECK_FAILED'],
+      warnings: isLive ? [] : ['Selfie may not be a live person - possible photo or screen detected']
+    };
+  }
+
+  /**
+   * A passed challenge, failed when the selfie shows someone other than the
+   * person who performed it, e.g. a printed photo of someone else
+   */
+  private async matchChallengeToSelfie(context: CheckContext, challenge: LivenessChallengeResult): Promise<CheckOutcome> {
+    const { selfieDocument } = context;
+    // Sandbox frames may be any picture; their outcome is scripted
+    if (!selfieDocument || challenge.method === 'sandbox') {
+      return this.challengeOutcome(challenge, { status: CheckStatus.PASSED });
+    }
+
+    if (!challenge.frameUrl) {
+      return this.challengeOutcome(challenge, {
+        status: CheckStatus.FAILED,
+        score: 0,
+        reason: 'No challenge frame to compare with the selfie',
+        flags: ['LIVENESS_CHECK_FAILED'],
+        warnings: ['The liveness challenge cannot be tied to the selfie']
+      });
+    }
+
+    const frameBuffer = await context.fetchImage(challenge.frameUrl);
+    const selfieBuffer = await context.fetchImage(selfieDocument.originalUrl);
+    if (!frameBuffer || !selfieBuffer) {
+      const missing = !frameBuffer ? 'liveness challenge frame' : 'selfie';
+      return {
+        status: CheckStatus.ERROR,
+        score: 0,
+        reason: `Could not fetch ${missing} image`,
+        flags: ['IMAGE_FETCH_FAILED'],
+        warnings: [`Could not fetch ${missing} image for the liveness check`]
+      };
+    }
+
+    const comparison = await this.biometricService.compareFaceImages(frameBuffer, selfieBuffer);
+    const threshold = context.policy.thresholds.faceMatch;
+    const samePerson = comparison.match && comparison.confidence >= threshold;
+
+    return this.challengeOutcome(challenge, samePerson
+      ? { status: CheckStatus.PASSED, details: { selfieMatchScore: comparison.confidence } }
+      : {
+          status: CheckStatus.FAILED,
+          score: comparison.confidence,
+          details: { selfieMatchScore: comparison.confidence, selfieMatchThreshold: threshold },
+          flags: ['LIVENESS_CHECK_FAILED'],
+          warnings: ['The selfie does not show the person who performed the liveness challenge']
+        });
+  }
+
+  private challengeOutcome(challenge: LivenessChallengeResult, outcome: CheckOutcome): CheckOutcome {
+    return {
+      score: challenge.score,
+      provider: challenge.method,
+      ...outcome,
+      details: {
+        actions: challenge.actions,
+        framesAnalyzed: challenge.framesAnalyzed,
+        framesWithFace: challenge.framesWithFace,
+        reason: challenge.reason ?? null,
+        ...outcome.details
+      },
+      flags: outcome.flags ?? [],
+      warnings: outcome.warnings ?? []
+    };
+  }
+}
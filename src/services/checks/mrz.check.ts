@@ -0,0 +1,88 @@
+import { CheckStatus } from '../../types/verification.types';
+import { mrzParser } from '../mrz-parser.service';
+import { compareDocumentFields } from './field-compare';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Parses the ICAO 9303 MRZ of every ID document that has one, verifies its
+ * check digits and compares the MRZ fields with the visually read fields
+ */
+export class MrzCheck implements VerificationCheckModule {
+  readonly name = 'mrz';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    const documents = context.documents.filter(doc => doc.type !== 'SELFIE' && doc.extractedData?.mrz);
+
+    if (documents.length === 0) {
+      return { status: CheckStatus.SKIPPED, reason: 'No MRZ found on any document' };
+    }
+
+    const inspected: Array<Record<string, unknown>> = [];
+    const flags = new Set<string>();
+    const warnings: string[] = [];
+    let compared = 0;
+    let matched = 0;
+
+    for (const doc of documents) {
+      const parsed = mrzParser.parse(doc.extractedData.mrz);
+
+      if (!parsed) {
+        warnings.push('Could not read the machine readable zone');
+        inspected.push({ documentId: doc.id, type: doc.type, parsed: false });
+        continue;
+      }
+
+      if (!parsed.valid) {
+        console.log('[MrzCheck] MRZ check digits failed:', { id: doc.id, errors: parsed.errors });
+        flags.add('MRZ_CHECKSUM_FAILED');
+        warnings.push(`MRZ validation failed: ${parsed.errors.join(', ')}`);
+      }
+
+      const { compared: fieldsCompared, matched: fieldsMatched, mismatches } = compareDocumentFields({
+        documentNumber: parsed.documentNumber,
+        dateOfBirth: parsed.dateOfBirth || undefined,
+        expiryDate: parsed.expiryDate || undefined,
+        lastName: parsed.lastName,
+        firstName: parsed.firstName
+      }, doc.extractedData);
+      compared += fieldsCompared;
+      matched += fieldsMatched;
+
+      if (mismatches.length > 0) {
+        console.log('[MrzCheck] MRZ does not match visual zone:', { id: doc.id, mismatches });
+        flags.add('MRZ_VISUAL_MISMATCH');
+        warnings.push(`MRZ does not match printed ${mismatches.map(m => m.field).join(', ')}`);
+      }
+
+      inspected.push({
+        documentId: doc.id,
+        type: doc.type,
+        parsed: true,
+        format: parsed.format,
+        valid: parsed.valid,
+        checkDigits: parsed.checkDigits,
+        errors: parsed.errors,
+        mismatches
+      });
+    }
+
+    const parsedCount = inspected.filter(d => d.parsed).length;
+    if (parsedCount === 0) {
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: 'MRZ could not be parsed',
+        details: { documents: inspected },
+        warnings
+      };
+    }
+
+    return {
+      status: flags.size > 0 ? CheckStatus.FAILED : CheckStatus.PASSED,
+      score: compared > 0 ? matched / compared : null,
+      provider: 'icao9303',
+      details: { documents: inspected },
+      flags: Array.from(flags),
+      warnings
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { CheckStatus } from '../../types/verification.types';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+import { describeLowConfidenceRead, lowConfidenceRead } from './field-confidence';
+
+/**
+ * Requester name supplied by the partner against the name read from the document.
+ * A mismatch against a low-confidence read is reported as LOW_CONFIDENCE_FIELD.
+ */
+export class NameMatchCheck implements VerificationCheckModule {
+  readonly name = 'name_match';
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    if (!context.requesterName) {
+      console.log('[NameMatchCheck] No requester name provided, skipping name validation');
+      return {
+        status: CheckStatus.SKIPPED,
+        reason: 'No requester name provided',
+        warnings: ['Name validation skipped - no requester name provided']
+      };
+    }
+
+    console.log('[NameMatchCheck] Performing name validation...');
+    console.log('  - Requester name:', context.requesterName);
+    console.log('  - Extracted name:', context.extractedData.fullName);
+
+    const comparison = this.compareNames(context.requesterName, context.extractedData.fullName);
+    const threshold = context.policy.thresholds.nameMatch;
+    const match = comparison.match && comparison.score >= threshold;
+
+    console.log('[NameMatchCheck] Name comparison result:', comparison);
+
+    const lowConfidence = context.extractedData.fullName ? lowConfidenceRead(context, 'fullName') : null;
+    const warnings = lowConfidence
+      ? [match
+        ? `Name matched but was ${describeLowConfidenceRead(lowConfidence)}`
+        : `Name could not be confirmed - ${describeLowConfidenceRead(lowConfidence)}`]
+      : [];
+
+    return {
+      status: match ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: comparison.score,
+      provider: 'levenshtein',
+      details: {
+        expectedName: context.requesterName,
+        extractedName: context.extractedData.fullName || null,
+        comparison: comparison.details,
+        threshold,
+        lowConfidence
+      },
+      // Name mismatch is a critical error that fails verification - not a warning
+      flags: match ? [] : [lowConfidence ? 'LOW_CONFIDENCE_FIELD' : 'NAME_MISMATCH'],
+      warnings
+    };
+  }
+
+  /**
+   * Compare two names with fuzzy matching
+   * Returns a score between 0 and 1 (1 = exact match)
+   */
+  private compareNames(expectedName: string | null | undefined, extractedName: string | null | undefined): { match: boolean; score: number; details: string } {
+    if (!expectedName || !extractedName) {
+      return { match: false, score: 0, details: 'One or both names are missing' };
+    }
+
+    // Normalize names: lowercase, remove extra spaces, remove special characters
+    const normalize = (name: string): string => {
+      return name
+        .toLowerCase()
+        .trim()
+        .replace(/[^a-z\s]/g, '') // Remove non-alpha characters except spaces
+        .replace(/\s+/g, ' ');    // Normalize multiple spaces to single space
+    };
+
+    const expected = normalize(expectedName);
+    const extracted = normalize(extractedName);
+
+    // Exact match after normalization
+    if (expected === extracted) {
+      return { match: true, score: 1.0, details: 'Exact match' };
+    }
+
+    // Split into parts and check if all parts of one exist in the other
+    const expectedParts = expected.split(' ').filter(p => p.length > 0);
+    const extractedParts = extracted.split(' ').filter(p => p.length > 0);
+
+    // Check if all expected name parts exist in extracted (handles name order differences)
+    const allExpectedInExtracted = expectedParts.every(part =>
+      extractedParts.some(ep => ep === part || this.levenshteinDistance(part, ep) <= 1)
+    );
+
+    const allExtractedInExpected = extractedParts.every(part =>
+      expectedParts.some(ep => ep === part || this.levenshteinDistance(part, ep) <= 1)
+    );
+
+    if (allExpectedInExtracted && allExtractedInExpected) {
+      return { match: true, score: 0.95, details: 'Name parts match (different order or minor typos)' };
+    }
+
+    if (allExpectedInExtracted || allExtractedInExpected) {
+      return { match: true, score: 0.85, details: 'Partial name match (one contains all parts of the other)' };
+    }
+
+    // Calculate similarity score using Levenshtein distance
+    const distance = this.levenshteinDistance(expected, extracted);
+    const maxLength = Math.max(expected.length, extracted.length);
+    const similarity = 1 - (distance / maxLength);
+
+    // Consider it a match if similarity is above 0.8 (allows for minor OCR errors)
+    const isMatch = similarity >= 0.8;
+
+    return {
+      match: isMatch,
+      score: similarity,
+      details: isMatch ? `Similar names (${(similarity * 100).toFixed(1)}% match)` : `Names differ significantly (${(similarity * 100).toFixed(1)}% similarity)`
+    };
+  }
+
+  /**
+   * Calculate Levenshtein distance between two strings
+   */
+  private levenshteinDistance(str1: string, str2: string): number {
+    const m = str1.length;
+    const n = str2.length;
+
+    // Create a 2D array to store distances
+    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+    // Initialize base cases
+    for (let i = 0; i <= m; i++) dp[i][0] = i;
+    for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+    // Fill in the rest of the matrix
+    for (let i = 1; i <= m; i++) {
+      for (let j = 1; j <= n; j++) {
+        if (str1[i - 1] === str2[j - 1]) {
+          dp[i][j] = dp[i - 1][j - 1];
+        } else {
+          dp[i][j] = 1 + Math.min(
+            dp[i - 1][j],     // deletion
+            dp[i][j - 1],     // insertion
+            dp[i - 1][j - 1]  // substitution
+          );
+        }
+      }
+    }
+
+    return dp[m][n];
+  }
+}
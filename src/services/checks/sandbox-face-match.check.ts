@@ -0,0 +1,36 @@
+import { CheckStatus } from '../../types/verification.types';
+import { SandboxService } from '../sandbox.service';
+import { CheckContext, CheckOutcome, VerificationCheckModule } from './check.types';
+
+/**
+ * Face match of sandbox verifications: the outcome comes from the sandbox
+ * scenario instead of a biometric provider
+ */
+export class SandboxFaceMatchCheck implements VerificationCheckModule {
+  readonly name = 'face_match';
+
+  constructor(private sandboxService: SandboxService) {}
+
+  async run(context: CheckContext): Promise<CheckOutcome> {
+    if (!context.idDocument || !context.selfieDocument) {
+      return {
+        status: CheckStatus.SKIPPED,
+        score: 0,
+        reason: !context.idDocument ? 'No ID document uploaded' : 'No selfie uploaded'
+      };
+    }
+
+    const scenario = this.sandboxService.scenarioFor(context);
+    const comparison = this.sandboxService.compareFaces(scenario);
+    const threshold = context.policy.thresholds.faceMatch;
+    const match = comparison.match && comparison.confidence >= threshold;
+
+    return {
+      status: match ? CheckStatus.PASSED : CheckStatus.FAILED,
+      score: comparison.confidence,
+      provider: 'sandbox',
+      details: { providerMatch: comparison.match, threshold, ...comparison.details },
+      flags: match ? [] : ['FACE_MISMATCH']
+    };
+  }
+}
@@ -0,0 +1,339 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  RiskLevel,
+  DecisionPolicy,
+  DecisionPolicyRules
+} from '../types/verification.types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+/**
+ * Built-in policy used when a partner has not stored one (version 0).
+ * Mirrors the original hard-coded behaviour: every flag blocks, scores are
+ * weighted 20/35/25/20 and the provider's own match decisions are trusted
+ * (per-check thresholds of 0).
+ */
+export const DEFAULT_DECISION_POLICY: DecisionPolicyRules = {
+  weights: {
+    documentQuality: 0.20,
+    faceMatch: 0.35,
+    nameMatch: 0.25,
+    liveness: 0.20
+  },
+  thresholds: {
+    minQualityScore: config.verification.minQualityScore,
+    minScore: 0,
+    faceMatch: 0,
+    nameMatch: 0,
+    liveness: 0,
+    addressMatch: 0,
+    duplicateFace: 0.9,
+    fieldConfidence: 0.5
+  },
+  blockingFlags: [
+    'NAME_MISMATCH',
+    'DOCUMENT_EXPIRED',
+    'POSSIBLE_TAMPERING',
+    'DOCUMENT_NOT_ORIGINAL',
+    'INVALID_DOCUMENT_LAYOUT',
+    'FACE_MISMATCH',
+    'IMAGE_FETCH_FAILED',
+    'FACE_COMPARISON_ERROR',
+    'LIVENESS_CHECK_FAILED',
+    'MRZ_CHECKSUM_FAILED',
+    'MRZ_VISUAL_MISMATCH',
+    'BARCODE_MISMATCH',
+    'DATA_INCONSISTENCY',
+    'DOCUMENT_REUSED',
+    'DOB_MISMATCH',
+    'AGE_BELOW_MINIMUM',
+    'AGE_UNVERIFIED',
+    'LOW_CONFIDENCE_FIELD'
+  ],
+  // People move, so a stale address on the document shouldn't fail identity verification.
+  // The local face index's false-match rate is unmeasured, so a duplicate face is for review only.
+  advisoryFlags: ['ADDRESS_MISMATCH', 'DUPLICATE_FACE'],
+  riskRules: {
+    flags: [
+      { flag: 'POSSIBLE_TAMPERING', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'FACE_MISMATCH', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'NAME_MISMATCH', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'DOB_MISMATCH', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'LIVENESS_CHECK_FAILED', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'MRZ_VISUAL_MISMATCH', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'BARCODE_MISMATCH', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'DOCUMENT_REUSED', riskLevel: RiskLevel.CRITICAL },
+      { flag: 'DATA_INCONSISTENCY', riskLevel: RiskLevel.HIGH },
+      { flag: 'IMAGE_FETCH_FAILED', riskLevel: RiskLevel.HIGH },
+      { flag: 'FACE_COMPARISON_ERROR', riskLevel: RiskLevel.HIGH },
+      { flag: 'DOCUMENT_EXPIRED', riskLevel: RiskLevel.HIGH },
+      { flag: 'DOCUMENT_NOT_ORIGINAL', riskLevel: RiskLevel.HIGH },
+      { flag: 'INVALID_DOCUMENT_LAYOUT', riskLevel: RiskLevel.HIGH },
+      { flag: 'MRZ_CHECKSUM_FAILED', riskLevel: RiskLevel.HIGH },
+      { flag: 'AGE_BELOW_MINIMUM', riskLevel: RiskLevel.HIGH },
+      { flag: 'AGE_UNVERIFIED', riskLevel: RiskLevel.HIGH },
+      // Likely a misread rather than fraud, so below the CRITICAL mismatch flags it stands in for
+      { flag: 'LOW_CONFIDENCE_FIELD', riskLevel: RiskLevel.HIGH },
+      { flag: 'DUPLICATE_FACE', riskLevel: RiskLevel.MEDIUM },
+      { flag: 'ADDRESS_MISMATCH', riskLevel: RiskLevel.MEDIUM }
+    ],
+    quality: [
+      { below: 0.5, riskLevel: RiskLevel.HIGH },
+      { below: 0.7, riskLevel: RiskLevel.MEDIUM }
+    ]
+  }
+};
+
+const RISK_ORDER: RiskLevel[] = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+
+export interface DecisionInputs {
+  flags: string[];
+  averageQuality: number;
+  faceMatch: boolean;
+  faceMatchScore: number;
+  nameMatch: boolean;
+  nameMatchScore: number;
+  livenessCheck: boolean;
+  livenessScore: number;
+}
+
+export interface DecisionOutcome {
+  passed: boolean;
+  score: number;
+  riskLevel: RiskLevel;
+  blockingFlags: string[];
+  advisoryFlags: string[];
+  scoreBreakdown: {
+    documentQuality: number;
+    faceMatch: number;
+    nameMatch: number;
+    liveness: number;
+  };
+}
+
+export class DecisionPolicyService {
+  /**
+   * Get the policy a partner's verifications are currently decided under.
+   * Falls back to the built-in default when none is stored.
+   */
+  async getActivePolicy(partnerId?: string | null): Promise<DecisionPolicy> {
+    if (partnerId) {
+      const stored = await prisma.decisionPolicy.findFirst({
+        where: { partnerId, isActive: true },
+        orderBy: { version: 'desc' }
+      });
+
+      if (stored) {
+        return this.toPolicy(stored);
+      }
+    }
+
+    return { id: null, version: 0, ...DEFAULT_DECISION_POLICY };
+  }
+
+  /**
+   * List every stored version for a partner, newest first
+   */
+  async getPolicyHistory(partnerId: string): Promise<Array<DecisionPolicy & { isActive: boolean; createdBy: string | null; createdAt: Date }>> {
+    const policies = await prisma.decisionPolicy.findMany({
+      where: { partnerId },
+      orderBy: { version: 'desc' }
+    });
+
+    return policies.map((p: any) => ({
+      ...this.toPolicy(p),
+      isActive: p.isActive,
+      createdBy: p.createdBy,
+      createdAt: p.createdAt
+    }));
+  }
+
+  /**
+   * Store a new policy version for a partner. Omitted sections are carried
+   * over from the currently active policy.
+   */
+  async updatePolicy(partnerId: string, changes: Partial<DecisionPolicyRules>, createdBy?: string): Promise<DecisionPolicy> {
+    const current = await this.getActivePolicy(partnerId);
+
+    const rules: DecisionPolicyRules = {
+      weights: { ...current.weights, ...(changes.weights || {}) },
+      thresholds: { ...current.thresholds, ...(changes.thresholds || {}) },
+      blockingFlags: changes.blockingFlags ?? current.blockingFlags,
+      advisoryFlags: changes.advisoryFlags ?? current.advisoryFlags,
+      riskRules: {
+        flags: changes.riskRules?.flags ?? current.riskRules.flags,
+        quality: changes.riskRules?.quality ?? current.riskRules.quality
+      }
+    };
+
+    this.validateRules(rules);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const latest = await tx.decisionPolicy.findFirst({
+        where: { partnerId },
+        orderBy: { version: 'desc' }
+      });
+
+      await tx.decisionPolicy.updateMany({
+        where: { partnerId, isActive: true },
+        data: { isActive: false }
+      });
+
+      return tx.decisionPolicy.create({
+        data: {
+          partnerId,
+          version: (latest?.version || 0) + 1,
+          isActive: true,
+          weights: { ...rules.weights },
+          thresholds: { ...rules.thresholds },
+          blockingFlags: rules.blockingFlags,
+          advisoryFlags: rules.advisoryFlags,
+          riskRules: { ...rules.riskRules },
+          createdBy
+        }
+      });
+    });
+
+    logger.info(`[DecisionPolicyService] Partner ${partnerId} decision policy updated to version ${created.version}`);
+
+    return this.toPolicy(created);
+  }
+
+  /**
+   * Decide pass/fail, weighted score and risk level for a set of check outcomes
+   */
+  evaluate(policy: DecisionPolicyRules, inputs: DecisionInputs): DecisionOutcome {
+    const { weights, thresholds } = policy;
+
+    // Flags not listed as advisory block the verification, so new flags fail closed
+    const advisoryFlags = inputs.flags.filter(f => this.isAdvisory(policy, f));
+    const blockingFlags = inputs.flags.filter(f => !advisoryFlags.includes(f));
+
+    const scoreBreakdown = {
+      documentQuality: (inputs.averageQuality || 0) * weights.documentQuality,
+      faceMatch: (inputs.faceMatch ? inputs.faceMatchScore : 0) * weights.faceMatch,
+      nameMatch: (inputs.nameMatch ? inputs.nameMatchScore : 0) * weights.nameMatch,
+      liveness: (inputs.livenessCheck ? inputs.livenessScore : 0) * weights.liveness
+    };
+    const score = scoreBreakdown.documentQuality + scoreBreakdown.faceMatch +
+                  scoreBreakdown.nameMatch + scoreBreakdown.liveness;
+
+    // Face match and liveness are required unless the partner made their flags advisory
+    const faceRequired = !this.isAdvisory(policy, 'FACE_MISMATCH');
+    const livenessRequired = !this.isAdvisory(policy, 'LIVENESS_CHECK_FAILED');
+
+    const passed = blockingFlags.length === 0 &&
+                   inputs.averageQuality >= thresholds.minQualityScore &&
+                   score >= thresholds.minScore &&
+                   (inputs.faceMatch || !faceRequired) &&
+                   (inputs.livenessCheck || !livenessRequired);
+
+    return {
+      passed,
+      score,
+      riskLevel: this.calculateRiskLevel(policy, inputs.flags, inputs.averageQuality),
+      blockingFlags,
+      advisoryFlags,
+      scoreBreakdown
+    };
+  }
+
+  private isAdvisory(policy: DecisionPolicyRules, flag: string): boolean {
+    return policy.advisoryFlags.includes(flag) && !policy.blockingFlags.includes(flag);
+  }
+
+  /**
+   * Highest risk level matched by any flag or quality rule, LOW when nothing matches
+   */
+  private calculateRiskLevel(policy: DecisionPolicyRules, flags: string[], averageQuality: number): RiskLevel {
+    let riskLevel: RiskLevel = RiskLevel.LOW;
+
+    const raise = (level: RiskLevel) => {
+      if (RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(riskLevel)) {
+        riskLevel = level;
+      }
+    };
+
+    for (const rule of policy.riskRules.flags) {
+      if (flags.includes(rule.flag)) {
+        raise(rule.riskLevel);
+      }
+    }
+
+    for (const rule of policy.riskRules.quality) {
+      if (averageQuality < rule.below) {
+        raise(rule.riskLevel);
+      }
+    }
+
+    return riskLevel;
+  }
+
+  private validateRules(rules: DecisionPolicyRules): void {
+    const errors: string[] = [];
+
+    const weightValues = Object.values(rules.weights);
+    if (weightValues.some(w => typeof w !== 'number' || w < 0)) {
+      errors.push('weights must be non-negative numbers');
+    } else {
+      const total = weightValues.reduce((sum, w) => sum + w, 0);
+      if (Math.abs(total - 1) > 0.001) {
+        errors.push(`weights must sum to 1 (got ${total.toFixed(3)})`);
+      }
+    }
+
+    for (const [key, value] of Object.entries(rules.thresholds)) {
+      if (typeof value !== 'number' || value < 0 || value > 1) {
+        errors.push(`thresholds.${key} must be a number between 0 and 1`);
+      }
+    }
+
+    if (!Array.isArray(rules.blockingFlags) || !Array.isArray(rules.advisoryFlags)) {
+      errors.push('blockingFlags and advisoryFlags must be arrays of flag names');
+    }
+
+    // Rules come from request bodies, so their shape is checked before they are read
+    const riskLevels = Object.values(RiskLevel) as string[];
+    const isRule = (rule: unknown): rule is Record<string, unknown> =>
+      !!rule && typeof rule === 'object' && !Array.isArray(rule) && riskLevels.includes((rule as Record<string, unknown>).riskLevel as string);
+    const { flags, quality } = rules.riskRules as { flags: unknown; quality: unknown };
+
+    if (!Array.isArray(flags)) {
+      errors.push('riskRules.flags must be an array of { flag, riskLevel } rules');
+    } else {
+      for (const rule of flags) {
+        if (!isRule(rule) || typeof rule.flag !== 'string' || !rule.flag) {
+          errors.push(`Invalid flag risk rule: ${JSON.stringify(rule)}`);
+        }
+      }
+    }
+    if (!Array.isArray(quality)) {
+      errors.push('riskRules.quality must be an array of { below, riskLevel } rules');
+    } else {
+      for (const rule of quality) {
+        if (!isRule(rule) || typeof rule.below !== 'number') {
+          errors.push(`Invalid quality risk rule: ${JSON.stringify(rule)}`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid decision policy: ${errors.join('; ')}`);
+    }
+  }
+
+  private toPolicy(row: any): DecisionPolicy {
+    return {
+      id: row.id,
+      version: row.version,
+      weights: row.weights,
+      // Thresholds added after a policy was stored fall back to the default
+      thresholds: { ...DEFAULT_DECISION_POLICY.thresholds, ...row.thresholds },
+      blockingFlags: row.blockingFlags || [],
+      advisoryFlags: row.advisoryFlags || [],
+      riskRules: row.riskRules
+    };
+  }
+}
@@ -696,8 +696,8 @@ export class DocumentIdValidatorService {
   }
 
   /**
-   * Validate full MRZ line (for future expansion)
-   * Can validate entire MRZ lines from passport scans
+   * Basic shape check for a single TD3 MRZ line.
+   * Use mrzParser (mrz-parser.service) to parse and verify check digits of a full MRZ.
    */
   validateMRZLine(mrzLine: string): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -0,0 +1,102 @@
+import sharp from 'sharp';
+import { DocumentFormat, DocumentLayoutResult, DocumentType, ExtractedDocumentData } from '../types/verification.types';
+import { DocumentScannerService } from './document-scanner.service';
+import { BiometricService } from './biometric.service';
+
+// ISO/IEC 7810 sizes, long side over short side: ID-1 is 85.60 x 53.98 mm, ID-3 is 125 x 88 mm
+const ASPECT_RATIOS: Record<DocumentFormat, number> = {
+  'ID-1': 85.6 / 53.98,
+  'ID-3': 125 / 88
+};
+
+const DOCUMENT_FORMATS: Partial<Record<DocumentType, DocumentFormat>> = {
+  [DocumentType.DRIVERS_LICENSE]: 'ID-1',
+  [DocumentType.NATIONAL_ID]: 'ID-1',
+  [DocumentType.RESIDENCE_PERMIT]: 'ID-1',
+  [DocumentType.PERMANENT_RESIDENT_CARD]: 'ID-1',
+  [DocumentType.PASSPORT]: 'ID-3'
+};
+
+// Relative deviation from the expected aspect ratio still accepted. A flattened
+// outline measures the document itself; without one the photo includes background.
+const ASPECT_TOLERANCE = 0.08;
+const UNCROPPED_ASPECT_TOLERANCE = 0.25;
+
+export interface DocumentLayoutOptions {
+  outlineFound: boolean;
+  extractedData?: ExtractedDocumentData | null;
+}
+
+/**
+ * Checks that a cropped document image has the layout of the document type it
+ * was uploaded as: the card or passport page proportions, a portrait where the
+ * holder's photo belongs, and the machine readable zone of a passport.
+ */
+export class DocumentLayoutService {
+  constructor(
+    private documentScanner: DocumentScannerService,
+    private biometricService: BiometricService
+  ) {}
+
+  async validate(
+    image: Buffer,
+    documentType: DocumentType,
+    side: 'FRONT' | 'BACK' | undefined,
+    options: DocumentLayoutOptions
+  ): Promise<DocumentLayoutResult> {
+    const format = DOCUMENT_FORMATS[documentType] ?? null;
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const aspectRatio = Number((Math.max(width, height) / Math.max(1, Math.min(width, height))).toFixed(3));
+    const issues: string[] = [];
+
+    const expectedAspectRatio = format ? Number(ASPECT_RATIOS[format].toFixed(3)) : null;
+    if (format && expectedAspectRatio) {
+      const tolerance = options.outlineFound ? ASPECT_TOLERANCE : UNCROPPED_ASPECT_TOLERANCE;
+      if (Math.abs(aspectRatio / expectedAspectRatio - 1) > tolerance) {
+        issues.push(`Document proportions (${aspectRatio}:1) do not match an ${format} ${format === 'ID-3' ? 'passport page' : 'card'} (${expectedAspectRatio}:1)`);
+      }
+    }
+
+    // The holder's photo is on the front of ID cards and on the passport data page
+    const portraitRequired = !!format && (format === 'ID-3' || side !== 'BACK');
+    let portraitFound: boolean | undefined;
+    if (portraitRequired) {
+      try {
+        portraitFound = (await this.biometricService.extractFaceData(image)).faceDetected;
+      } catch (error) {
+        // No face detector answered: the portrait cannot be checked, which is not a layout failure
+        console.error('[DocumentLayoutService] Face detection failed, skipping the portrait check:', error);
+      }
+      if (portraitFound === false) {
+        issues.push('No portrait photo found on the document');
+      }
+    }
+
+    const mrzRequired = documentType === DocumentType.PASSPORT;
+    let mrzFound: boolean | undefined;
+    if (mrzRequired) {
+      mrzFound = !!options.extractedData?.mrz || await this.documentScanner.detectMrzZone(image);
+      if (!mrzFound) {
+        issues.push('Machine readable zone not found on the passport page');
+      }
+    }
+
+    const result: DocumentLayoutResult = {
+      valid: issues.length === 0,
+      format,
+      aspectRatio,
+      expectedAspectRatio,
+      outlineFound: options.outlineFound,
+      portraitRequired,
+      portraitFound,
+      mrzRequired,
+      mrzFound,
+      issues
+    };
+
+    if (!result.valid) {
+      console.log('[DocumentLayoutService] Layout does not match the document type:', { documentType, side, issues });
+    }
+    return result;
+  }
+}
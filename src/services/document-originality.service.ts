@@ -0,0 +1,256 @@
+import sharp from 'sharp';
+import { DocumentOriginalityResult } from '../types/verification.types';
+
+// Moiré is measured on the whole document, reduced to this longest side
+const MOIRE_ANALYSIS_SIZE = 1024;
+const MOIRE_LAGS: [number, number] = [3, 16];
+// Halftone dots are a few pixels apart, so they are measured at full resolution on a centre crop
+const HALFTONE_CROP_SIZE = 768;
+const HALFTONE_LAGS: [number, number] = [2, 5];
+// Periodicity (autocorrelation peak of the high-pass residual) that starts lowering the score, and its range
+const PERIODICITY_FLOOR = 0.15;
+const PERIODICITY_RANGE = 0.3;
+// Chroma (after removing the lighting cast) that counts as a coloured pixel, and the share of those for a full score
+const COLOR_CHROMA = 20;
+const FULL_COLOR_FRACTION = 0.1;
+// Darkest percentile grey level a screen's backlight typically lifts above
+const BLACK_LEVEL = 40;
+
+const PASS_THRESHOLD = 0.5;
+const WEIGHTS = { moire: 0.35, halftone: 0.25, color: 0.25, dynamicRange: 0.15 };
+
+/**
+ * Presentation-attack detection for ID document uploads, the document
+ * counterpart of the selfie moiré and print-artifact checks in BiometricService.
+ * Catches photos of a screen showing the ID (moiré, lifted black level),
+ * printouts (halftone dots) and photocopies (no colour).
+ */
+export class DocumentOriginalityService {
+  async analyzeDocument(imageBuffer: Buffer): Promise<DocumentOriginalityResult> {
+    const moireScore = await this.detectMoire(imageBuffer);
+    const halftoneScore = await this.detectHalftone(imageBuffer);
+    const colorScore = await this.analyzeColor(imageBuffer);
+    const dynamicRangeScore = await this.analyzeDynamicRange(imageBuffer);
+
+    const signals = {
+      moireScore: round(moireScore),
+      moirePass: moireScore > PASS_THRESHOLD,
+      halftoneScore: round(halftoneScore),
+      halftonePass: halftoneScore > PASS_THRESHOLD,
+      colorScore: round(colorScore),
+      colorPass: colorScore > PASS_THRESHOLD,
+      dynamicRangeScore: round(dynamicRangeScore),
+      dynamicRangePass: dynamicRangeScore > PASS_THRESHOLD
+    };
+
+    // A lifted black level alone is too common (dim lighting, matte cards) to reject on,
+    // but it backs up a weak moiré reading
+    const reasons: string[] = [];
+    if (!signals.moirePass || (!signals.dynamicRangePass && moireScore < 0.75)) {
+      reasons.push('screen_recapture');
+    }
+    if (!signals.halftonePass) {
+      reasons.push('printout');
+    }
+    if (!signals.colorPass) {
+      reasons.push('photocopy');
+    }
+
+    const score = moireScore * WEIGHTS.moire +
+                  halftoneScore * WEIGHTS.halftone +
+                  colorScore * WEIGHTS.color +
+                  dynamicRangeScore * WEIGHTS.dynamicRange;
+
+    console.log(`[DocumentOriginalityService] Score ${score.toFixed(3)}`, { ...signals, reasons });
+
+    return {
+      isOriginal: reasons.length === 0,
+      score: round(score),
+      reasons,
+      signals,
+      analyzedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * A screen photographed by a camera shows a regular interference pattern
+   * across the whole image. Returns high when no such pattern is found.
+   */
+  private async detectMoire(imageBuffer: Buffer): Promise<number> {
+    const { data, info } = await sharp(imageBuffer)
+      .grayscale()
+      .resize(MOIRE_ANALYSIS_SIZE, MOIRE_ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const periodicity = strongestPeriodicity(data, info.width, info.height, MOIRE_LAGS);
+    return periodicityScore(periodicity);
+  }
+
+  /**
+   * Printers render tones as a fine grid of dots, visible at full resolution
+   * as a short, regular repetition. Returns high when no dot pattern is found.
+   */
+  private async detectHalftone(imageBuffer: Buffer): Promise<number> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    const cropWidth = Math.min(width, HALFTONE_CROP_SIZE);
+    const cropHeight = Math.min(height, HALFTONE_CROP_SIZE);
+
+    const { data, info } = await sharp(imageBuffer)
+      .extract({
+        left: Math.floor((width - cropWidth) / 2),
+        top: Math.floor((height - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight
+      })
+      .grayscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const periodicity = strongestPeriodicity(data, info.width, info.height, HALFTONE_LAGS);
+    return periodicityScore(periodicity);
+  }
+
+  /**
+   * ID documents carry coloured backgrounds, seals and photos; a black-and-white
+   * photocopy has none. The overall colour cast of the lighting is removed first
+   * so a copy photographed under warm light still reads as grey.
+   */
+  private async analyzeColor(imageBuffer: Buffer): Promise<number> {
+    const { data, info } = await sharp(imageBuffer)
+      .resize(256, 256, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const channels = info.channels;
+    if (channels < 3) {
+      return 0; // stored as greyscale
+    }
+
+    const pixelCount = info.width * info.height;
+    const redOffsets = new Float64Array(pixelCount);
+    const blueOffsets = new Float64Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) {
+      const i = p * channels;
+      redOffsets[p] = data[i] - data[i + 1];
+      blueOffsets[p] = data[i + 2] - data[i + 1];
+    }
+
+    const redCast = median(redOffsets);
+    const blueCast = median(blueOffsets);
+    let colored = 0;
+    for (let p = 0; p < pixelCount; p++) {
+      if (Math.hypot(redOffsets[p] - redCast, blueOffsets[p] - blueCast) > COLOR_CHROMA) {
+        colored++;
+      }
+    }
+
+    return Math.min(1, colored / pixelCount / FULL_COLOR_FRACTION);
+  }
+
+  /**
+   * A backlit screen never gets as dark as ink on a card, so the darkest
+   * pixels of a screen recapture sit well above black and the range is compressed.
+   */
+  private async analyzeDynamicRange(imageBuffer: Buffer): Promise<number> {
+    const { data } = await sharp(imageBuffer)
+      .grayscale()
+      .resize(256, 256, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const histogram = new Array(256).fill(0);
+    for (const value of data) {
+      histogram[value]++;
+    }
+
+    const percentile = (fraction: number): number => {
+      let seen = 0;
+      for (let level = 0; level < 256; level++) {
+        seen += histogram[level];
+        if (seen >= data.length * fraction) return level;
+      }
+      return 255;
+    };
+
+    const blackLevel = percentile(0.01);
+    const range = percentile(0.99) - blackLevel;
+
+    const blackScore = clamp(1 - (blackLevel - BLACK_LEVEL) / 60);
+    const rangeScore = clamp((range - 60) / 80);
+    return Math.min(blackScore, rangeScore);
+  }
+}
+
+/**
+ * Highest autocorrelation peak of the high-pass residual along rows or
+ * columns within the lag range. Lags at
+ * multiples of 8 are skipped: the JPEG block grid repeats there.
+ */
+function strongestPeriodicity(gray: Buffer, width: number, height: number, [minLag, maxLag]: [number, number]): number {
+  if (width < maxLag * 4 || height < maxLag * 4) {
+    return 0;
+  }
+
+  // Residual after a 3x3 box blur: leaves fine structure, drops lighting and large shapes
+  const residual = new Float64Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          sum += gray[(y + dy) * width + x + dx];
+        }
+      }
+      residual[y * width + x] = gray[y * width + x] - sum / 9;
+    }
+  }
+
+  let strongest = 0;
+  for (const [along, length, lines, across] of [[1, width, height, width], [width, height, width, 1]]) {
+    const correlation = new Array(maxLag + 2).fill(0);
+    let energy = 0;
+    for (let line = 1; line < lines - 1; line++) {
+      for (let position = 1; position < length - 1; position++) {
+        const i = line * across + position * along;
+        energy += residual[i] * residual[i];
+        for (let lag = minLag - 1; lag <= maxLag + 1 && position + lag < length - 1; lag++) {
+          correlation[lag] += residual[i] * residual[i + lag * along];
+        }
+      }
+    }
+    if (energy === 0) continue;
+
+    // A peak counts as far as it rises above the trough before it: smooth content
+    // decays slowly with the lag, a periodic pattern swings back up
+    let trough = correlation[minLag - 1] / energy;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const value = correlation[lag] / energy;
+      trough = Math.min(trough, value);
+      if (lag % 8 === 0) continue;
+      if (value <= correlation[lag - 1] / energy || value < correlation[lag + 1] / energy) continue;
+      strongest = Math.max(strongest, Math.min(value, value - trough));
+    }
+  }
+
+  return strongest;
+}
+
+function periodicityScore(periodicity: number): number {
+  return clamp(1 - (periodicity - PERIODICITY_FLOOR) / PERIODICITY_RANGE);
+}
+
+function median(values: Float64Array): number {
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
@@ -0,0 +1,89 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { normalizeDocumentNumber } from './checks/field-compare';
+import { normalizeCountryCode } from '../utils/country';
+
+const prisma = new PrismaClient();
+
+export interface DocumentUse {
+  verificationId: string;
+  partnerId: string | null;
+  extractedName: string | null;
+  extractedDob: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Key under which a document is looked up across verifications, e.g. "CAN:P1234567",
+ * or ":P1234567" when no issuing country was read. Null when no document number was read.
+ */
+export function documentKey(documentNumber?: string | null, issuingCountry?: string | null): string | null {
+  const number = documentNumber ? normalizeDocumentNumber(documentNumber) : '';
+  if (!number) return null;
+
+  return `${normalizeCountryCode(issuingCountry)}:${number}`;
+}
+
+function splitKey(key: string): { country: string; number: string } {
+  const separator = key.indexOf(':');
+  return { country: key.slice(0, separator), number: key.slice(separator + 1) };
+}
+
+/**
+ * Whether two document keys name the same document. A key without a country
+ * matches the same number under any country.
+ */
+export function sameDocumentKey(a: string, b: string): boolean {
+  const first = splitKey(a);
+  const second = splitKey(b);
+  return first.number === second.number &&
+    (!first.country || !second.country || first.country === second.country);
+}
+
+/**
+ * documentKey filter for the results recorded for the same document, by the
+ * rules of sameDocumentKey
+ */
+export function documentKeyFilter(key: string): Prisma.StringNullableFilter {
+  const { country, number } = splitKey(key);
+  // Numbers never contain ':', so the suffix only matches whole numbers
+  return country ? { in: [key, `:${number}`] } : { endsWith: `:${number}` };
+}
+
+/**
+ * Finds earlier verifications of the same licence or passport, whichever user
+ * or partner they were made for
+ */
+export class DocumentReuseService {
+  /**
+   * Results recorded for the same document by other verifications. Retry rows
+   * created before verification attempts existed are left out, they are
+   * expected to show the same document. Sandbox and live verifications never
+   * see each other.
+   */
+  async findPriorUses(key: string, verificationId: string): Promise<DocumentUse[]> {
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId },
+      select: { id: true, parentVerificationId: true, isSandbox: true }
+    });
+    const rootId = verification?.parentVerificationId || verificationId;
+
+    const results = await prisma.verificationResult.findMany({
+      where: {
+        documentKey: documentKeyFilter(key),
+        verificationId: { not: verificationId },
+        verification: { isSandbox: !!verification?.isSandbox },
+        NOT: { verification: { OR: [{ id: rootId }, { parentVerificationId: rootId }] } }
+      },
+      include: { verification: { select: { partnerId: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return results.map((result: any) => ({
+      verificationId: result.verificationId,
+      partnerId: result.verification.partnerId,
+      extractedName: result.extractedName,
+      extractedDob: result.extractedDob,
+      createdAt: result.createdAt
+    }));
+  }
+}
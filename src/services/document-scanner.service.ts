@@ -1,8 +1,13 @@
 import sharp from 'sharp';
 import { ImageAnnotatorClient } from '@google-cloud/vision';
 import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
-import { DocumentQualityCheck, DocumentType } from '../types/verification.types';
+import { DocumentQualityCheck, DocumentType, ImageRegion, LightingAnalysis } from '../types/verification.types';
 import { config } from '../config';
+import { DocumentCorrection, Quadrilateral } from './scanner/geometry.types';
+import { findDocumentQuadrilateral } from './scanner/quadrilateral';
+import { flattenedSize, warpPerspective } from './scanner/perspective';
+import { detectTextRotation, estimateSkew, inkMap } from './scanner/orientation';
+import { hasMrzZone } from './scanner/mrz-zone';
 
 // Document AI entity interface for caching extracted data
 export interface DocumentAiEntity {
@@ -22,6 +27,21 @@ export interface DocumentDetectionResult {
   documentAiEntities?: DocumentAiEntity[];
 }
 
+// Longest side the image is reduced to when looking for the document outline, and for text orientation
+const BORDER_ANALYSIS_SIZE = 512;
+const ORIENTATION_ANALYSIS_SIZE = 1000;
+// Smaller tilts are left alone; rotating resamples the whole image
+const MIN_SKEW_CORRECTION = 0.5;
+// Lighting is judged on a reduced copy; a region with this share of blown-out pixels has glare
+const LIGHTING_ANALYSIS_SIZE = 300;
+const GLARE_LEVEL = 250;
+const GLARE_REGION_SHARE = 0.02;
+const IMAGE_REGIONS: ImageRegion[][] = [
+  ['top-left', 'top', 'top-right'],
+  ['left', 'center', 'right'],
+  ['bottom-left', 'bottom', 'bottom-right']
+];
+
 // Keywords and patterns for each document type
 const DOCUMENT_PATTERNS: Record<string, { keywords: string[]; patterns: RegExp[]; weight: number }> = {
   [DocumentType.DRIVERS_LICENSE]: {
@@ -330,42 +350,165 @@ export class DocumentScannerService {
     return Math.max(0, Math.min(1, score));
   }
 
-  async detectDocumentBorders(imageBuffer: Buffer): Promise<Buffer> {
+  /**
+   * Outline of the document in the upload, in pixels of the image after its
+   * EXIF orientation is applied; null when no outline stands out
+   */
+  async detectDocumentBorders(imageBuffer: Buffer): Promise<Quadrilateral | null> {
     try {
-      const edges = await sharp(imageBuffer)
-        .grayscale()
-        .normalize()
-        .toBuffer();
+      const { width, height } = await this.uprightSize(imageBuffer);
+      const { data, info } = await sharp(imageBuffer)
+        .rotate()
+        .removeAlpha()
+        .resize(BORDER_ANALYSIS_SIZE, BORDER_ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .blur(1.2)
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const corners = findDocumentQuadrilateral(data, info.width, info.height, info.channels);
+      if (!corners) {
+        return null;
+      }
 
-      return edges;
+      const scaleX = width / info.width;
+      const scaleY = height / info.height;
+      return corners.map(corner => ({
+        x: Math.min(width - 1, Math.max(0, corner.x * scaleX)),
+        y: Math.min(height - 1, Math.max(0, corner.y * scaleY))
+      })) as Quadrilateral;
     } catch (error) {
       throw new Error(`Border detection failed: ${error}`);
     }
   }
 
-  async cropToDocument(imageBuffer: Buffer): Promise<Buffer> {
-    try {
-      const image = sharp(imageBuffer);
-      const metadata = await image.metadata();
+  /**
+   * Flatten the document outline onto a rectangle, removing the background
+   * and the perspective of a handheld photo. Returns the upright upload
+   * unchanged when no outline is given or found.
+   */
+  async cropToDocument(imageBuffer: Buffer, corners?: Quadrilateral | null): Promise<Buffer> {
+    const outline = corners === undefined ? await this.detectDocumentBorders(imageBuffer) : corners;
+    if (!outline) {
+      return sharp(imageBuffer).rotate().jpeg({ quality: 95 }).toBuffer();
+    }
 
-      if (!metadata.width || !metadata.height) {
-        return imageBuffer;
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // Cap the output at the size OCR works on
+    const size = flattenedSize(outline);
+    const scale = Math.min(1, config.documentCorrection.maxDimension / Math.max(size.width, size.height));
+    const width = Math.max(1, Math.round(size.width * scale));
+    const height = Math.max(1, Math.round(size.height * scale));
+
+    const flattened = warpPerspective(data, info.width, info.height, info.channels, outline, width, height);
+    return sharp(flattened, { raw: { width, height, channels: info.channels } })
+      .jpeg({ quality: 95 })
+      .toBuffer();
+  }
+
+  /**
+   * Prepare a document photo for OCR and face extraction: apply the EXIF
+   * orientation, flatten the document outline, deskew the text when no outline
+   * was found, and turn the text upright.
+   */
+  async correctDocument(imageBuffer: Buffer): Promise<DocumentCorrection> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const corners = await this.detectDocumentBorders(imageBuffer);
+    let image = await this.cropToDocument(imageBuffer, corners);
+
+    // The perspective warp already squares the document; only loose text needs deskewing
+    let skewAngle = 0;
+    if (!corners) {
+      skewAngle = estimateSkew(await this.inkMapOf(image));
+      if (Math.abs(skewAngle) >= MIN_SKEW_CORRECTION) {
+        image = await sharp(image)
+          .rotate(-skewAngle, { background: { r: 255, g: 255, b: 255 } })
+          .jpeg({ quality: 95 })
+          .toBuffer();
+      } else {
+        skewAngle = 0;
       }
+    }
 
-      const cropMargin = 20;
-      const croppedImage = await image
-        .extract({
-          left: cropMargin,
-          top: cropMargin,
-          width: metadata.width - (2 * cropMargin),
-          height: metadata.height - (2 * cropMargin)
-        })
-        .toBuffer();
+    const rotation = detectTextRotation(await this.inkMapOf(image));
+    if (rotation !== 0) {
+      image = await sharp(image).rotate(rotation).jpeg({ quality: 95 }).toBuffer();
+    }
 
-      return croppedImage;
-    } catch (error) {
-      return imageBuffer;
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const corrected = !!corners || skewAngle !== 0 || rotation !== 0 || (metadata.orientation || 1) > 1;
+    console.log('[DocumentScannerService] Document correction:', {
+      outlineFound: !!corners,
+      skewAngle,
+      rotation,
+      exifOrientation: metadata.orientation || 1,
+      width,
+      height
+    });
+
+    return { image, corrected, corners, skewAngle, rotation, width, height };
+  }
+
+  /**
+   * Whether an upright passport page shows its machine readable zone, for
+   * when OCR could not read the MRZ text itself
+   */
+  async detectMrzZone(imageBuffer: Buffer): Promise<boolean> {
+    return hasMrzZone(await this.inkMapOf(imageBuffer));
+  }
+
+  /**
+   * Mean brightness of the upright image, and which of its nine regions have
+   * a patch of blown-out highlights from a lamp or the sun
+   */
+  async analyzeLighting(imageBuffer: Buffer): Promise<LightingAnalysis> {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .grayscale()
+      .resize(LIGHTING_ANALYSIS_SIZE, LIGHTING_ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    let total = 0;
+    const glare = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const pixels = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    for (let y = 0; y < info.height; y++) {
+      const row = Math.min(2, Math.floor(y * 3 / info.height));
+      for (let x = 0; x < info.width; x++) {
+        const cell = row * 3 + Math.min(2, Math.floor(x * 3 / info.width));
+        const value = data[y * info.width + x];
+        total += value;
+        pixels[cell]++;
+        if (value >= GLARE_LEVEL) glare[cell]++;
+      }
     }
+
+    return {
+      brightness: Math.round(total / Math.max(1, info.width * info.height)),
+      glareRegions: IMAGE_REGIONS.flat().filter((_region, cell) => pixels[cell] > 0 && glare[cell] / pixels[cell] >= GLARE_REGION_SHARE)
+    };
+  }
+
+  private async inkMapOf(imageBuffer: Buffer) {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .grayscale()
+      .resize(ORIENTATION_ANALYSIS_SIZE, ORIENTATION_ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return inkMap(data, info.width, info.height);
+  }
+
+  /**
+   * Width and height once the EXIF orientation is applied (orientations 5-8 swap them)
+   */
+  private async uprightSize(imageBuffer: Buffer): Promise<{ width: number; height: number }> {
+    const { width = 0, height = 0, orientation = 1 } = await sharp(imageBuffer).metadata();
+    return orientation >= 5 ? { width: height, height: width } : { width, height };
   }
 
   async generateThumbnail(imageBuffer: Buffer, width: number = 300): Promise<Buffer> {
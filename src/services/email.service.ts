@@ -243,6 +243,32 @@ ${flagsSection}
 
 You can view the full verification details in your partner dashboard.
 
+---
+This is an automated message from ID Verify - Identity Verification Platform
+    `.trim();
+
+    return this.sendEmail({
+      to: partnerEmail,
+      subject,
+      body
+    });
+  }
+
+  async sendVerificationExpiredEmail(
+    partnerEmail: string,
+    partnerName: string,
+    userName: string,
+    userEmail: string,
+    expiredAt: Date
+  ): Promise<boolean> {
+    const subject = `Verification Expired - ${userName}`;
+    const body = `
+Hello ${partnerName},
+
+The identity verification requested for ${userName} (${userEmail}) expired on ${expiredAt.toUTCString()} before it was completed.
+
+The verification link no longer accepts documents. Request a new verification from your partner dashboard if it is still needed.
+
 ---
 This is an automated message from ID Verify - Identity Verification Platform
     `.trim();
@@ -0,0 +1,293 @@
+import { PrismaClient } from '@prisma/client';
+import sharp from 'sharp';
+import { FaceLandmarks } from '../types/verification.types';
+import { config } from '../config';
+import { BiometricService } from './biometric.service';
+
+const prisma = new PrismaClient();
+
+// Templates of another algorithm are not comparable and are ignored by searches
+export const FACE_TEMPLATE_ALGORITHM = 'lbp-u2-4x4-aligned-v2';
+
+const FACE_SIZE = 64;
+const GRID = 4;
+const SCAN_BATCH_SIZE = 500;
+// Side of the aligned face crop, in eye distances, and the height of the eyes in it
+const ALIGNED_CROP_EYE_DISTANCES = 2.2;
+const ALIGNED_EYE_HEIGHT = 0.35;
+const PAD_GREY = { r: 128, g: 128, b: 128 };
+
+export interface FaceSearchMatch {
+  verificationId: string;
+  partnerId: string | null;
+  similarity: number;
+  extractedName: string | null;
+  documentKey: string | null;
+  createdAt: Date;
+}
+
+export interface FaceSearchOptions {
+  threshold: number;
+  excludeVerificationIds?: string[];
+  limit?: number;
+}
+
+// Maps each 8-bit LBP code to one of 58 uniform patterns (at most two 0/1
+// transitions around the circle) or to bin 58 for every non-uniform pattern
+const UNIFORM_BINS = 59;
+const UNIFORM_LOOKUP = (() => {
+  const lookup = new Uint8Array(256);
+  let next = 0;
+  for (let code = 0; code < 256; code++) {
+    let transitions = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      if (((code >> bit) & 1) !== ((code >> ((bit + 1) % 8)) & 1)) transitions++;
+    }
+    lookup[code] = transitions <= 2 ? next++ : UNIFORM_BINS - 1;
+  }
+  return lookup;
+})();
+
+/**
+ * 1:N face index over selfies. Templates are computed and searched in process
+ * and stored in Postgres, so no image or template leaves the deployment.
+ *
+ * The embeddings returned by BiometricService are landmark coordinates (Google
+ * Vision) or raw pixels (fallback), so the index uses its own descriptor:
+ * uniform local binary pattern histograms over a grid of the face, which
+ * tolerate lighting changes. The face is found and aligned on the face
+ * analysis providers' eye landmarks first, so the descriptor does not depend
+ * on how the photo was framed. Its false-match rate has not been measured,
+ * which is why DUPLICATE_FACE is advisory in the default policy.
+ *
+ * Searches are a linear scan, capped at faceIndex.maxScanTemplates newest
+ * templates so a submit's cost stays bounded. An index that outgrows the cap
+ * needs an approximate nearest-neighbour index (e.g. pgvector HNSW) over a
+ * provider face embedding in place of the scan.
+ */
+export class FaceIndexService {
+  constructor(private biometricService: BiometricService) {}
+
+  /**
+   * Face template of a photo; null when it cannot be decoded or does not show
+   * exactly one face with eye landmarks
+   */
+  async createTemplate(imageBuffer: Buffer): Promise<number[] | null> {
+    try {
+      // Landmarks are pixels of the upright image
+      const upright = await sharp(imageBuffer).rotate().toBuffer();
+      const face = await this.biometricService.analyzeFace(upright);
+      if (!face.faceDetected || face.faceCount !== 1 || !face.landmarks) {
+        console.log('[FaceIndexService] No single face with landmarks, no template');
+        return null;
+      }
+
+      const pixels = await this.alignFace(upright, face.landmarks);
+      return this.describe(pixels, FACE_SIZE + 2);
+    } catch (error) {
+      console.error('[FaceIndexService] Failed to create face template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store (or replace) the template of a verification's selfie
+   */
+  async enroll(verificationId: string, imageBuffer: Buffer, documentId?: string | null): Promise<boolean> {
+    const template = await this.createTemplate(imageBuffer);
+    if (!template) return false;
+
+    await prisma.faceTemplate.upsert({
+      where: { verificationId },
+      update: { template, documentId: documentId ?? null, algorithm: FACE_TEMPLATE_ALGORITHM },
+      create: { verificationId, template, documentId: documentId ?? null, algorithm: FACE_TEMPLATE_ALGORITHM }
+    });
+
+    console.log('[FaceIndexService] Enrolled face template for verification', verificationId);
+    return true;
+  }
+
+  async getTemplate(verificationId: string): Promise<number[] | null> {
+    const row = await prisma.faceTemplate.findUnique({ where: { verificationId } });
+    return row && row.algorithm === FACE_TEMPLATE_ALGORITHM ? row.template : null;
+  }
+
+  /**
+   * Search with the selfie template of a verification, leaving out the
+   * verification and its legacy retry rows. Null when it has no template.
+   */
+  async searchByVerification(verificationId: string, threshold: number): Promise<FaceSearchMatch[] | null> {
+    const template = await this.getTemplate(verificationId);
+    if (!template) return null;
+
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId },
+      select: { parentVerificationId: true }
+    });
+    const rootId = verification?.parentVerificationId || verificationId;
+    const retries = await prisma.verification.findMany({
+      where: { parentVerificationId: rootId },
+      select: { id: true }
+    });
+
+    return this.search(template, {
+      threshold,
+      excludeVerificationIds: [rootId, verificationId, ...retries.map(retry => retry.id)]
+    });
+  }
+
+  /**
+   * Enrolled faces at or above the similarity threshold, best match first.
+   * Only the newest faceIndex.maxScanTemplates templates are compared.
+   */
+  async search(template: number[], options: FaceSearchOptions): Promise<FaceSearchMatch[]> {
+    const exclude = options.excludeVerificationIds || [];
+    const hits: Array<{ verificationId: string; similarity: number }> = [];
+    const maxScan = config.faceIndex.maxScanTemplates;
+    let scanned = 0;
+    let cursor: string | undefined;
+
+    // Linear scan in batches keeps memory flat; templates are 944 floats each
+    while (scanned < maxScan) {
+      const batch = await prisma.faceTemplate.findMany({
+        where: { algorithm: FACE_TEMPLATE_ALGORITHM, verificationId: { notIn: exclude } },
+        select: { id: true, verificationId: true, template: true },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: Math.min(SCAN_BATCH_SIZE, maxScan - scanned),
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+
+      for (const row of batch) {
+        const similarity = this.similarity(template, row.template);
+        if (similarity >= options.threshold) {
+          hits.push({ verificationId: row.verificationId, similarity });
+        }
+      }
+
+      scanned += batch.length;
+      if (batch.length < SCAN_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+    if (scanned >= maxScan) {
+      console.warn(`[FaceIndexService] Search stopped at ${maxScan} templates; older faces were not compared`);
+    }
+
+    hits.sort((a, b) => b.similarity - a.similarity);
+    const top = hits.slice(0, options.limit ?? 50);
+    if (top.length === 0) return [];
+
+    const verifications = await prisma.verification.findMany({
+      where: { id: { in: top.map(hit => hit.verificationId) } },
+      select: { id: true, partnerId: true, createdAt: true, results: { select: { extractedName: true, documentKey: true } } }
+    });
+    const byId = new Map(verifications.map(v => [v.id, v]));
+
+    const matches: FaceSearchMatch[] = [];
+    for (const hit of top) {
+      const verification = byId.get(hit.verificationId);
+      // Deleted since the scan
+      if (!verification) continue;
+      matches.push({
+        verificationId: hit.verificationId,
+        partnerId: verification.partnerId,
+        similarity: Math.round(hit.similarity * 1000) / 1000,
+        extractedName: verification.results?.extractedName ?? null,
+        documentKey: verification.results?.documentKey ?? null,
+        createdAt: verification.createdAt
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Greyscale face crop of FACE_SIZE + 2 pixels a side with the eyes level,
+   * centred across it and at ALIGNED_EYE_HEIGHT from its top. The crop spans
+   * ALIGNED_CROP_EYE_DISTANCES eye distances; parts outside the photo are grey.
+   */
+  private async alignFace(upright: Buffer, landmarks: FaceLandmarks): Promise<Buffer> {
+    // Image left to right, whichever side the provider calls left
+    const [first, second] = landmarks.leftEye.x <= landmarks.rightEye.x
+      ? [landmarks.leftEye, landmarks.rightEye]
+      : [landmarks.rightEye, landmarks.leftEye];
+    const eyeDistance = Math.hypot(second.x - first.x, second.y - first.y);
+    if (eyeDistance < 4) {
+      throw new Error('Eyes too close together to align the face');
+    }
+
+    // Rotating by minus the roll levels the eyes; sharp turns about the centre and grows the canvas to fit
+    const roll = Math.atan2(second.y - first.y, second.x - first.x);
+    const { width = 0, height = 0 } = await sharp(upright).metadata();
+    const rotated = await sharp(upright)
+      .rotate(-roll * 180 / Math.PI, { background: PAD_GREY })
+      .grayscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const cos = Math.cos(-roll);
+    const sin = Math.sin(-roll);
+    const eyesX = (first.x + second.x) / 2 - width / 2;
+    const eyesY = (first.y + second.y) / 2 - height / 2;
+    const centreX = eyesX * cos - eyesY * sin + rotated.info.width / 2;
+    const centreY = eyesX * sin + eyesY * cos + rotated.info.height / 2;
+
+    const side = Math.round(eyeDistance * ALIGNED_CROP_EYE_DISTANCES);
+    const left = Math.round(centreX - side / 2);
+    const top = Math.round(centreY - side * ALIGNED_EYE_HEIGHT);
+
+    // Pad by a crop's side so a face near the edge keeps its alignment instead of being shifted inwards
+    const padded = await sharp(rotated.data, { raw: rotated.info })
+      .extend({ top: side, bottom: side, left: side, right: side, background: PAD_GREY })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return sharp(padded.data, { raw: padded.info })
+      .extract({ left: left + side, top: top + side, width: side, height: side })
+      .grayscale()
+      .resize(FACE_SIZE + 2, FACE_SIZE + 2, { fit: 'fill' })
+      .normalise()
+      .raw()
+      .toBuffer();
+  }
+
+  /**
+   * 1 minus the chi-square distance of two templates, clamped to [0, 1].
+   * Chi-square separates LBP histograms much better than cosine, where the
+   * flat and non-uniform bins every face shares dominate.
+   */
+  similarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      const sum = a[i] + b[i];
+      if (sum > 0) {
+        distance += (a[i] - b[i]) ** 2 / sum;
+      }
+    }
+    return Math.max(0, Math.min(1, 1 - distance));
+  }
+
+  /**
+   * Per-cell uniform LBP histograms; every cell weighs the same and the template sums to 1
+   */
+  private describe(pixels: Buffer, stride: number): number[] {
+    const cellSize = FACE_SIZE / GRID;
+    const histograms = new Float64Array(GRID * GRID * UNIFORM_BINS);
+    const offsets = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+
+    for (let y = 1; y <= FACE_SIZE; y++) {
+      for (let x = 1; x <= FACE_SIZE; x++) {
+        const center = pixels[y * stride + x];
+        let code = 0;
+        for (let i = 0; i < 8; i++) {
+          const [dx, dy] = offsets[i];
+          if (pixels[(y + dy) * stride + (x + dx)] >= center) code |= 1 << i;
+        }
+        const cell = Math.floor((y - 1) / cellSize) * GRID + Math.floor((x - 1) / cellSize);
+        histograms[cell * UNIFORM_BINS + UNIFORM_LOOKUP[code]]++;
+      }
+    }
+
+    const total = FACE_SIZE * FACE_SIZE;
+    return Array.from(histograms, count => count / total);
+  }
+}
@@ -0,0 +1,188 @@
+import { ExtractedDocumentData, ExtractedFieldConfidence } from '../types/verification.types';
+import { toIsoDate } from '../utils/date';
+import { mrzParser } from './mrz-parser.service';
+import { namesMatch, normalizeDocumentNumber } from './checks/field-compare';
+
+export type FieldSourceKind = 'barcode' | 'mrz' | 'ocr';
+
+export interface FieldSource {
+  documentId: string;
+  documentType: string;
+  side: string | null;
+  source: FieldSourceKind;
+  provider: string; // what read the field: OCR provider, 'aamva_barcode' or 'mrz'
+  confidence: number;
+}
+
+export interface FieldConflict {
+  field: string;
+  values: Array<FieldSource & { value: unknown }>;
+}
+
+export interface MergedExtractedData {
+  data: ExtractedDocumentData;
+  sources: Record<string, FieldSource>;
+  conflicts: FieldConflict[];
+}
+
+const ID_DOCUMENT_TYPES = ['DRIVERS_LICENSE', 'PASSPORT', 'NATIONAL_ID', 'RESIDENCE_PERMIT', 'PERMANENT_RESIDENT_CARD'];
+
+// Detection metadata written by the OCR service, not document data
+const IGNORED_KEYS = ['autoDetected', 'detectionConfidence', 'detectionMethod', 'detectedKeywords', 'confidence', 'fieldConfidence'];
+
+// Fields describing the person must agree across every document
+const PERSON_FIELDS = ['dateOfBirth', 'firstName', 'lastName', 'gender'];
+// Fields describing a document only have to agree between sides of the same document type
+const DOCUMENT_FIELDS = ['documentNumber', 'expiryDate', 'issuingCountry'];
+
+// Fields an ICAO 9303 MRZ encodes, keyed by ExtractedDocumentData field
+const MRZ_FIELDS: Record<string, 'documentNumber' | 'dateOfBirth' | 'expiryDate' | 'lastName' | 'firstName' | 'nationality' | 'sex'> = {
+  documentNumber: 'documentNumber',
+  dateOfBirth: 'dateOfBirth',
+  expiryDate: 'expiryDate',
+  lastName: 'lastName',
+  firstName: 'firstName',
+  nationality: 'nationality',
+  gender: 'sex'
+};
+
+const MRZ_CONFIDENCE = 0.95;
+const DEFAULT_OCR_CONFIDENCE = 0.5;
+
+/**
+ * Merges the data extracted from every ID document of a verification (front,
+ * back, additional IDs), keeping track of where each field came from and
+ * reporting fields the documents disagree on
+ */
+export class FieldMergeService {
+  merge(documents: any[]): MergedExtractedData {
+    // Newest first so that, at equal confidence, the latest upload wins as before
+    const idDocs = documents
+      .filter(doc => ID_DOCUMENT_TYPES.includes(doc.type) && doc.extractedData)
+      .sort((a, b) => new Date(b.updatedAt || b.createdAt || 0).getTime() - new Date(a.updatedAt || a.createdAt || 0).getTime());
+
+    console.log('[FieldMergeService] Merging extracted data from', idDocs.length, 'ID documents');
+
+    const candidates: Record<string, Array<FieldSource & { value: unknown }>> = {};
+
+    for (const doc of idDocs) {
+      const data = typeof doc.extractedData === 'string' ? JSON.parse(doc.extractedData) : doc.extractedData;
+      const confidence = this.documentConfidence(doc, data);
+      const mrz = data.mrz ? mrzParser.parse(data.mrz) : null;
+
+      for (const [field, value] of Object.entries(data)) {
+        if (value === null || value === undefined || value === '' || IGNORED_KEYS.includes(field)) {
+          continue;
+        }
+
+        let source: FieldSourceKind = data.barcode ? 'barcode' : 'ocr';
+        const read: ExtractedFieldConfidence | undefined = data.fieldConfidence?.[field];
+        let provider = read?.source || doc.ocrProvider || source;
+        let fieldConfidence = read?.confidence ?? confidence;
+
+        // A field confirmed by a valid MRZ is as reliable as the MRZ check digits
+        const mrzField = MRZ_FIELDS[field];
+        if (source === 'ocr' && mrz?.valid && mrzField && this.sameValue(field, mrz[mrzField], value)) {
+          source = 'mrz';
+          provider = 'mrz';
+          fieldConfidence = Math.max(fieldConfidence, MRZ_CONFIDENCE);
+        }
+
+        (candidates[field] = candidates[field] || []).push({
+          documentId: doc.id,
+          documentType: doc.type,
+          side: doc.side || null,
+          source,
+          provider,
+          confidence: fieldConfidence,
+          value
+        });
+      }
+    }
+
+    const data: ExtractedDocumentData = {};
+    const sources: Record<string, FieldSource> = {};
+    const fieldConfidence: Record<string, ExtractedFieldConfidence> = {};
+
+    for (const [field, values] of Object.entries(candidates)) {
+      // Stable sort keeps newest-first order among equal confidences
+      const best = [...values].sort((a, b) => b.confidence - a.confidence)[0];
+      const { value, ...source } = best;
+      (data as any)[field] = value;
+      sources[field] = source;
+      fieldConfidence[field] = { confidence: source.confidence, source: source.provider };
+    }
+
+    if (Object.keys(fieldConfidence).length > 0) {
+      data.fieldConfidence = fieldConfidence;
+    }
+
+    if (idDocs.length > 0) {
+      data.confidence = Math.max(...idDocs.map(doc => this.documentConfidence(doc, doc.extractedData)));
+    }
+
+    const conflicts = this.findConflicts(candidates);
+    if (conflicts.length > 0) {
+      console.log('[FieldMergeService] Conflicting fields:', conflicts.map(c => c.field));
+    }
+
+    return { data, sources, conflicts };
+  }
+
+  private findConflicts(candidates: Record<string, Array<FieldSource & { value: unknown }>>): FieldConflict[] {
+    const conflicts: FieldConflict[] = [];
+
+    for (const field of [...PERSON_FIELDS, ...DOCUMENT_FIELDS]) {
+      const values = candidates[field] || [];
+      if (values.length < 2) continue;
+
+      const groups = PERSON_FIELDS.includes(field)
+        ? [values]
+        : Object.values(this.groupBy(values, v => v.documentType));
+
+      for (const group of groups) {
+        const disagreeing = group.some(a => group.some(b => !this.sameValue(field, a.value, b.value)));
+        if (disagreeing) {
+          conflicts.push({ field, values: group });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  private sameValue(field: string, a: unknown, b: unknown): boolean {
+    if (typeof a !== 'string' || typeof b !== 'string') {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+
+    switch (field) {
+      case 'documentNumber':
+        return normalizeDocumentNumber(a) === normalizeDocumentNumber(b);
+      case 'dateOfBirth':
+      case 'expiryDate':
+        return (toIsoDate(a) ?? a) === (toIsoDate(b) ?? b);
+      case 'firstName':
+      case 'lastName':
+        return namesMatch(a, b);
+      case 'gender':
+        return a.trim().charAt(0).toUpperCase() === b.trim().charAt(0).toUpperCase();
+      default:
+        return a.trim().toUpperCase() === b.trim().toUpperCase();
+    }
+  }
+
+  private documentConfidence(doc: any, data: any): number {
+    // Barcode payloads are error corrected
+    if (data?.barcode) return 1;
+    return data?.confidence ?? doc.ocrConfidence ?? DEFAULT_OCR_CONFIDENCE;
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Record<string, T[]> {
+    const groups: Record<string, T[]> = {};
+    for (const item of items) {
+      (groups[key(item)] = groups[key(item)] || []).push(item);
+    }
+    return groups;
+  }
+}
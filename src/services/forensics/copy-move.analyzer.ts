@@ -0,0 +1,146 @@
+import sharp from 'sharp';
+import { ForensicAnalysis, ForensicAnalyzer, ForensicImage } from './forensics.types';
+import { dimmedBackground, paintRegion, renderHeatmap } from './heatmap';
+
+const ANALYSIS_SIZE = 512; // longest side the image is reduced to
+const BLOCK_SIZE = 16;
+const STEP = 4; // overlapping blocks
+const CELLS = 4; // a block is described by the mean of 4x4 cells
+const QUANTIZATION = 8;
+const MIN_BLOCK_STDEV = 8; // flat background matches everywhere
+const MAX_BUCKET = 16; // larger buckets are repeating patterns (guilloche, borders)
+// Copies closer than this overlap themselves
+const MIN_SHIFT = BLOCK_SIZE * 2;
+// Blocks moved by one offset before the region counts as cloned, and for a full score
+const MIN_MATCHES = 12;
+const FULL_SCORE_MATCHES = 40;
+// Share of the block positions around the matches that must match; periodic
+// backgrounds match sparsely all over the image, a cloned patch densely in one place
+const MIN_DENSITY = 0.25;
+
+/**
+ * Copy-move detection: finds a region duplicated elsewhere in the same image,
+ * as when a digit or a photo patch is cloned over the original. Overlapping
+ * blocks are described by coarse, quantised cell means; identical
+ * descriptors that share the same displacement vote for a cloned region.
+ */
+export class CopyMoveAnalyzer implements ForensicAnalyzer {
+  readonly name = 'copy_move';
+
+  async analyze(image: ForensicImage): Promise<ForensicAnalysis> {
+    const { data: gray, info } = await sharp(image.buffer)
+      .grayscale()
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height } = info;
+
+    const buckets = new Map<string, Array<{ x: number; y: number }>>();
+    const cellSize = BLOCK_SIZE / CELLS;
+
+    for (let y = 0; y + BLOCK_SIZE <= height; y += STEP) {
+      for (let x = 0; x + BLOCK_SIZE <= width; x += STEP) {
+        const cells: number[] = [];
+        let sum = 0;
+        let squares = 0;
+
+        for (let cy = 0; cy < CELLS; cy++) {
+          for (let cx = 0; cx < CELLS; cx++) {
+            let cellSum = 0;
+            for (let py = 0; py < cellSize; py++) {
+              for (let px = 0; px < cellSize; px++) {
+                const value = gray[(y + cy * cellSize + py) * width + x + cx * cellSize + px];
+                cellSum += value;
+                sum += value;
+                squares += value * value;
+              }
+            }
+            cells.push(Math.round(cellSum / (cellSize * cellSize) / QUANTIZATION));
+          }
+        }
+
+        const pixels = BLOCK_SIZE * BLOCK_SIZE;
+        const mean = sum / pixels;
+        if (Math.sqrt(Math.max(0, squares / pixels - mean * mean)) < MIN_BLOCK_STDEV) continue;
+
+        const key = cells.join(',');
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push({ x, y });
+        } else {
+          buckets.set(key, [{ x, y }]);
+        }
+      }
+    }
+
+    // Vote for displacement vectors between identical blocks
+    const votes = new Map<string, Array<[{ x: number; y: number }, { x: number; y: number }]>>();
+    for (const bucket of buckets.values()) {
+      if (bucket.length < 2 || bucket.length > MAX_BUCKET) continue;
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          let dx = bucket[j].x - bucket[i].x;
+          let dy = bucket[j].y - bucket[i].y;
+          if (Math.hypot(dx, dy) < MIN_SHIFT) continue;
+          // The same shift seen from either end
+          const flip = dx < 0 || (dx === 0 && dy < 0);
+          if (flip) {
+            dx = -dx;
+            dy = -dy;
+          }
+          const key = `${dx},${dy}`;
+          const pair: [{ x: number; y: number }, { x: number; y: number }] = flip ? [bucket[j], bucket[i]] : [bucket[i], bucket[j]];
+          const pairs = votes.get(key);
+          if (pairs) {
+            pairs.push(pair);
+          } else {
+            votes.set(key, [pair]);
+          }
+        }
+      }
+    }
+
+    const clones = [...votes.entries()]
+      .filter(([, pairs]) => pairs.length >= MIN_MATCHES && density(pairs.map(([source]) => source)) >= MIN_DENSITY)
+      .sort((a, b) => b[1].length - a[1].length);
+    const topMatches = clones[0]?.[1].length || 0;
+    const score = topMatches >= MIN_MATCHES ? Math.min(1, topMatches / FULL_SCORE_MATCHES) : 0;
+
+    const heatmap = dimmedBackground(gray, width, height);
+    for (const [, pairs] of clones) {
+      for (const [source, target] of pairs) {
+        paintRegion(heatmap, width, source.x, source.y, BLOCK_SIZE, BLOCK_SIZE);
+        paintRegion(heatmap, width, target.x, target.y, BLOCK_SIZE, BLOCK_SIZE);
+      }
+    }
+
+    // Shifts are reported in original image pixels
+    const scale = (image.metadata.width || width) / width;
+    return {
+      score,
+      summary: clones.length > 0
+        ? `${clones.length} region(s) appear duplicated within the image`
+        : 'No duplicated regions found',
+      details: {
+        clonedRegions: clones.slice(0, 5).map(([shift, pairs]) => {
+          const [dx, dy] = shift.split(',').map(Number);
+          return { shiftX: Math.round(dx * scale), shiftY: Math.round(dy * scale), matchedBlocks: pairs.length };
+        }),
+        analysedWidth: width,
+        analysedHeight: height
+      },
+      heatmap: await renderHeatmap(heatmap, width, height, image.metadata.orientation)
+    };
+  }
+}
+
+/**
+ * Matched block positions over the block positions of their bounding box
+ */
+function density(positions: Array<{ x: number; y: number }>): number {
+  const xs = positions.map(p => p.x);
+  const ys = positions.map(p => p.y);
+  const columns = (Math.max(...xs) - Math.min(...xs)) / STEP + 1;
+  const rows = (Math.max(...ys) - Math.min(...ys)) / STEP + 1;
+  return positions.length / (columns * rows);
+}
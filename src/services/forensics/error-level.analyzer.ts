@@ -0,0 +1,121 @@
+import sharp from 'sharp';
+import { ForensicAnalysis, ForensicAnalyzer, ForensicImage } from './forensics.types';
+import { renderHeatmap } from './heatmap';
+
+const RESAVE_QUALITY = 90;
+const BLOCK_SIZE = 8; // JPEG block
+const DISPLAY_GAIN = 15; // error levels are a few units; amplify them to be visible
+const OUTLIER_MADS = 6;
+const MIN_OUTLIER_ERROR = 3;
+// Share of the image covered by clustered outlier blocks that scores 1
+const FULL_SCORE_FRACTION = 0.03;
+
+/**
+ * Error level analysis: re-save the JPEG and measure how much each block
+ * changes. Regions pasted in from another image, or edited and saved once
+ * more than the rest, settle at a different error level than their
+ * surroundings. Errors are normalised by block texture since text and
+ * edges always change more than flat background.
+ */
+export class ErrorLevelAnalyzer implements ForensicAnalyzer {
+  readonly name = 'error_level';
+
+  async analyze(image: ForensicImage): Promise<ForensicAnalysis> {
+    if (!image.isJpeg) {
+      return { score: 0, summary: 'Skipped: error level analysis needs a JPEG original', details: { skipped: true } };
+    }
+
+    const { data: original, info } = await sharp(image.buffer)
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const resavedJpeg = await sharp(image.buffer).jpeg({ quality: RESAVE_QUALITY }).toBuffer();
+    const resaved = await sharp(resavedJpeg).removeAlpha().toColourspace('srgb').raw().toBuffer();
+
+    const { width, height, channels } = info;
+    const blocksX = Math.floor(width / BLOCK_SIZE);
+    const blocksY = Math.floor(height / BLOCK_SIZE);
+    const blockCount = blocksX * blocksY;
+    const errorSum = new Float64Array(blockCount);
+    const lumaSum = new Float64Array(blockCount);
+    const lumaSquares = new Float64Array(blockCount);
+    const heatmap = Buffer.alloc(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+      const blockRow = Math.floor(y / BLOCK_SIZE);
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * channels;
+        let error = 0;
+        let luma = 0;
+        for (let c = 0; c < 3; c++) {
+          const diff = Math.abs(original[i + c] - resaved[i + c]);
+          heatmap[(y * width + x) * 3 + c] = Math.min(255, diff * DISPLAY_GAIN);
+          error += diff;
+          luma += original[i + c];
+        }
+
+        const blockColumn = Math.floor(x / BLOCK_SIZE);
+        if (blockRow < blocksY && blockColumn < blocksX) {
+          const block = blockRow * blocksX + blockColumn;
+          errorSum[block] += error / 3;
+          lumaSum[block] += luma / 3;
+          lumaSquares[block] += (luma / 3) ** 2;
+        }
+      }
+    }
+
+    const pixels = BLOCK_SIZE * BLOCK_SIZE;
+    const errors = new Float64Array(blockCount);
+    const normalized = new Float64Array(blockCount);
+    for (let b = 0; b < blockCount; b++) {
+      const mean = lumaSum[b] / pixels;
+      const stdev = Math.sqrt(Math.max(0, lumaSquares[b] / pixels - mean * mean));
+      errors[b] = errorSum[b] / pixels;
+      normalized[b] = errors[b] / (1 + stdev / 16);
+    }
+
+    const median = medianOf(normalized);
+    const mad = Math.max(medianOf(normalized.map(value => Math.abs(value - median))), 0.5);
+    const outliers = new Uint8Array(blockCount);
+    for (let b = 0; b < blockCount; b++) {
+      outliers[b] = normalized[b] > median + OUTLIER_MADS * mad && errors[b] > MIN_OUTLIER_ERROR ? 1 : 0;
+    }
+
+    // Isolated outliers are noise; edited regions span neighbouring blocks
+    let clustered = 0;
+    for (let by = 0; by < blocksY; by++) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        const b = by * blocksX + bx;
+        if (!outliers[b]) continue;
+        const neighbours = (bx > 0 ? outliers[b - 1] : 0) + (bx < blocksX - 1 ? outliers[b + 1] : 0) +
+          (by > 0 ? outliers[b - blocksX] : 0) + (by < blocksY - 1 ? outliers[b + blocksX] : 0);
+        if (neighbours >= 2) clustered++;
+      }
+    }
+
+    const clusteredFraction = blockCount > 0 ? clustered / blockCount : 0;
+    const score = Math.min(1, clusteredFraction / FULL_SCORE_FRACTION);
+
+    return {
+      score,
+      summary: clustered > 0
+        ? `${(clusteredFraction * 100).toFixed(1)}% of the image re-compresses at an unusual error level`
+        : 'Uniform error level',
+      details: {
+        resaveQuality: RESAVE_QUALITY,
+        medianError: Number(median.toFixed(3)),
+        outlierBlocks: outliers.reduce((sum, value) => sum + value, 0),
+        clusteredBlocks: clustered,
+        totalBlocks: blockCount
+      },
+      heatmap: await renderHeatmap(heatmap, width, height, image.metadata.orientation)
+    };
+  }
+}
+
+function medianOf(values: Float64Array): number {
+  if (values.length === 0) return 0;
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,58 @@
+import { ForensicAnalysis, ForensicAnalyzer, ForensicImage } from './forensics.types';
+
+// Image editors that leave their name in EXIF Software or XMP CreatorTool / history
+const EDITING_SOFTWARE: Array<[string, RegExp]> = [
+  ['Adobe Photoshop', /photoshop/i],
+  ['Adobe Lightroom', /lightroom/i],
+  ['GIMP', /\bgimp\b/i],
+  ['Affinity Photo', /affinity/i],
+  ['Pixelmator', /pixelmator/i],
+  ['Paint.NET', /paint\.net/i],
+  ['Canva', /\bcanva\b/i],
+  ['Snapseed', /snapseed/i],
+  ['PicsArt', /picsart/i],
+  ['Photopea', /photopea/i],
+  ['Fotor', /\bfotor\b/i],
+  ['Corel PaintShop', /paintshop|corel/i]
+];
+
+/**
+ * Metadata traces of editing: the name of an image editor in EXIF or XMP,
+ * and an XMP history of save actions. Missing metadata on its own is only
+ * reported; messaging apps and screenshots strip it as well.
+ */
+export class ExifAnalyzer implements ForensicAnalyzer {
+  readonly name = 'exif';
+
+  async analyze(image: ForensicImage): Promise<ForensicAnalysis> {
+    const { exif, xmp } = image.metadata;
+    // Tag values are ASCII, so a latin1 view of the raw blocks is enough to search
+    const exifText = exif ? exif.toString('latin1') : '';
+    const xmpText = xmp ? xmp.toString('utf8') : '';
+
+    const software = EDITING_SOFTWARE
+      .filter(([, pattern]) => pattern.test(exifText) || pattern.test(xmpText))
+      .map(([name]) => name);
+    const savedInHistory = /stEvt:action\s*=\s*"(saved|derived|converted)"|<stEvt:action>(saved|derived|converted)</i.test(xmpText);
+
+    const details = {
+      hasExif: !!exif,
+      hasXmp: !!xmp,
+      editingSoftware: software,
+      xmpEditHistory: savedInHistory
+    };
+
+    if (software.length > 0) {
+      return { score: 0.8, summary: `Saved by image editing software: ${software.join(', ')}`, details };
+    }
+    if (savedInHistory) {
+      return { score: 0.6, summary: 'XMP history records the image being edited and saved', details };
+    }
+
+    return {
+      score: 0,
+      summary: exif || xmp ? 'No editing software traces in metadata' : 'No EXIF or XMP metadata',
+      details
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import sharp from 'sharp';
+
+/**
+ * A decoded upload handed to every analyzer. Pixel data is left to the
+ * analyzers because each needs it at a different size and colour space.
+ */
+export interface ForensicImage {
+  buffer: Buffer; // the file as uploaded
+  metadata: sharp.Metadata;
+  isJpeg: boolean;
+}
+
+export interface ForensicAnalysis {
+  score: number; // 0 = no sign of editing, 1 = certainly edited
+  summary: string;
+  details: Record<string, unknown>;
+  heatmap?: Buffer; // PNG highlighting the suspicious regions
+}
+
+export interface ForensicAnalyzer {
+  readonly name: string;
+  analyze(image: ForensicImage): Promise<ForensicAnalysis>;
+}
+
+/**
+ * Persisted per analyzer in Document.forensics, with the stored heatmap in place of its pixels
+ */
+export interface ForensicFinding {
+  analyzer: string;
+  score: number;
+  suspicious: boolean; // score reached config.forensics.tamperThreshold
+  summary: string;
+  details: Record<string, unknown>;
+  heatmapUrl?: string | null;
+}
+
+export interface ImageForensicsReport {
+  score: number; // highest analyzer score
+  tampered: boolean;
+  findings: ForensicFinding[];
+  analyzedAt: string;
+}
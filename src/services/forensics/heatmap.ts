@@ -0,0 +1,55 @@
+import sharp from 'sharp';
+import { config } from '../../config';
+
+// EXIF orientation as a clockwise rotation followed by an optional horizontal mirror
+const ORIENTATION_ROTATION: Record<number, number> = { 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 };
+const ORIENTATION_MIRRORED = [2, 4, 5, 7];
+
+/**
+ * PNG of an RGB raster computed on the stored pixels, turned the way viewers
+ * display the original (EXIF orientation) and scaled down for storage
+ */
+export async function renderHeatmap(rgb: Buffer, width: number, height: number, orientation?: number): Promise<Buffer> {
+  let image = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .rotate(ORIENTATION_ROTATION[orientation || 1] || 0)
+    .png()
+    .toBuffer();
+
+  if (ORIENTATION_MIRRORED.includes(orientation || 1)) {
+    image = await sharp(image).flop().png().toBuffer();
+  }
+
+  const maxDimension = config.forensics.heatmapMaxDimension;
+  return sharp(image)
+    .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Dimmed grayscale copy of an image to paint suspicious regions on
+ */
+export function dimmedBackground(gray: Buffer, width: number, height: number): Buffer {
+  const rgb = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.round(gray[i] * 0.5);
+    rgb[i * 3] = value;
+    rgb[i * 3 + 1] = value;
+    rgb[i * 3 + 2] = value;
+  }
+  return rgb;
+}
+
+/**
+ * Tint a rectangle of an RGB raster red, keeping the underlying detail visible
+ */
+export function paintRegion(rgb: Buffer, width: number, x: number, y: number, w: number, h: number): void {
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) {
+      const i = (row * width + col) * 3;
+      rgb[i] = Math.min(255, 140 + rgb[i]);
+      rgb[i + 1] = Math.round(rgb[i + 1] * 0.4);
+      rgb[i + 2] = Math.round(rgb[i + 2] * 0.4);
+    }
+  }
+}
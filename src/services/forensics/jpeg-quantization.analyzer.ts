@@ -0,0 +1,176 @@
+import sharp from 'sharp';
+import { ForensicAnalysis, ForensicAnalyzer, ForensicImage } from './forensics.types';
+
+// IJG (libjpeg) base luminance table, natural order; software encoders scale it by quality
+const IJG_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99
+];
+
+// Zigzag scan position of each natural-order coefficient
+const ZIGZAG = [
+  0, 1, 5, 6, 14, 15, 27, 28, 2, 4, 7, 13, 16, 26, 29, 42,
+  3, 8, 12, 17, 25, 30, 41, 43, 9, 11, 18, 24, 31, 40, 44, 53,
+  10, 19, 23, 32, 39, 45, 52, 54, 20, 22, 33, 38, 46, 51, 55, 60,
+  21, 34, 37, 47, 50, 56, 59, 61, 35, 36, 48, 49, 57, 58, 62, 63
+];
+
+// Step across a phase, relative to the median phase, that marks a compression grid
+const GRID_STRENGTH = 1.5;
+// Half an MCU: 4:2:0 chroma subsampling leaves a weaker echo of the real grid here
+const CHROMA_ECHO_PHASE = 4;
+// Flat-area samples needed per phase; busy images carry no measurable grid
+const MIN_GRID_SAMPLES = 1000;
+// Neighbouring steps at most this large (grey levels) count as a flat area
+const FLAT_STEP = 2;
+
+/**
+ * JPEG quantization and compression grid analysis. The quantization tables
+ * tell which encoder wrote the file last (an exact libjpeg table is typical of
+ * software re-saving rather than camera firmware, so it only adds a little). The 8x8
+ * blocking grid of the last compression should start at the top-left pixel;
+ * a grid at another offset, or a second grid next to it, means the image
+ * was cropped or pasted into and compressed again.
+ */
+export class JpegQuantizationAnalyzer implements ForensicAnalyzer {
+  readonly name = 'jpeg_quantization';
+
+  async analyze(image: ForensicImage): Promise<ForensicAnalysis> {
+    if (!image.isJpeg) {
+      return { score: 0, summary: 'Skipped: not a JPEG', details: { skipped: true } };
+    }
+
+    const tables = readQuantizationTables(image.buffer);
+    const luminance = tables.get(0);
+    const estimate = luminance ? estimateIjgQuality(luminance) : null;
+
+    const { data: gray, info } = await sharp(image.buffer).grayscale().raw().toBuffer({ resolveWithObject: true });
+    const columns = gridStrength(gray, info.width, info.height, 'x');
+    const rows = gridStrength(gray, info.width, info.height, 'y');
+
+    const findings: string[] = [];
+    let score = 0;
+
+    for (const [axis, strengths] of [['horizontal', columns], ['vertical', rows]] as const) {
+      if (!strengths) continue;
+      const strongest = strengths.indexOf(Math.max(...strengths));
+      if (strongest !== 0 && strengths[strongest] >= GRID_STRENGTH) {
+        findings.push(`${axis} compression grid offset by ${strongest} pixel(s)`);
+        score = Math.max(score, 0.8);
+        continue;
+      }
+      const secondary = strengths.findIndex((strength, phase) =>
+        phase !== 0 && phase !== CHROMA_ECHO_PHASE && strength >= GRID_STRENGTH);
+      if (secondary > 0) {
+        findings.push(`second ${axis} compression grid at offset ${secondary}`);
+        score = Math.max(score, 0.6);
+      }
+    }
+
+    if (estimate?.exact) {
+      findings.push(`libjpeg quantization tables at quality ${estimate.quality}`);
+      score = Math.max(score, 0.3);
+    }
+
+    return {
+      score,
+      summary: findings.length > 0 ? findings.join('; ') : 'Single compression aligned with the image',
+      details: {
+        quantizationTables: tables.size,
+        estimatedQuality: estimate?.quality ?? null,
+        libjpegTables: estimate?.exact ?? false,
+        // null where the image has too little flat area to measure
+        columnGridStrength: columns?.map(value => Number(value.toFixed(3))) ?? null,
+        rowGridStrength: rows?.map(value => Number(value.toFixed(3))) ?? null
+      }
+    };
+  }
+}
+
+/**
+ * Quantization tables of a JPEG by table id, in natural (row-major) order
+ */
+function readQuantizationTables(jpeg: Buffer): Map<number, number[]> {
+  const tables = new Map<number, number[]>();
+  let offset = 2; // after SOI
+
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xFF) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xDA || marker === 0xD9) break; // start of scan / end of image
+    const length = jpeg.readUInt16BE(offset + 2);
+
+    if (marker === 0xDB) {
+      let position = offset + 4;
+      const end = offset + 2 + length;
+      while (position < end) {
+        const precision = jpeg[position] >> 4;
+        const id = jpeg[position] & 0x0F;
+        position++;
+        const zigzag: number[] = [];
+        for (let i = 0; i < 64; i++) {
+          zigzag.push(precision ? jpeg.readUInt16BE(position + i * 2) : jpeg[position + i]);
+        }
+        position += precision ? 128 : 64;
+        tables.set(id, ZIGZAG.map(index => zigzag[index]));
+      }
+    }
+
+    offset += 2 + length;
+  }
+
+  return tables;
+}
+
+/**
+ * Closest libjpeg quality for a luminance table, and whether the table is exactly libjpeg's
+ */
+function estimateIjgQuality(table: number[]): { quality: number; exact: boolean } {
+  let best = { quality: 0, error: Infinity };
+
+  for (let quality = 1; quality <= 100; quality++) {
+    const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+    let error = 0;
+    for (let i = 0; i < 64; i++) {
+      const expected = Math.min(255, Math.max(1, Math.floor((IJG_LUMINANCE[i] * scale + 50) / 100)));
+      error += Math.abs(expected - table[i]);
+    }
+    if (error < best.error) {
+      best = { quality, error };
+    }
+  }
+
+  return { quality: best.quality, exact: best.error === 0 };
+}
+
+/**
+ * Step across each of the 8 pixel phases along an axis (index 0 = edge
+ * between pixel 7 and 8), relative to the median phase. Only steps between
+ * flat neighbours are counted: there compression block edges stand out,
+ * while in text and texture they drown in image content.
+ */
+function gridStrength(gray: Buffer, width: number, height: number, axis: 'x' | 'y'): number[] | null {
+  const sums = new Array(8).fill(0);
+  const counts = new Array(8).fill(0);
+  const [length, lines, along, across] = axis === 'x' ? [width, height, 1, width] : [height, width, width, 1];
+
+  for (let line = 0; line < lines; line++) {
+    for (let position = 2; position < length - 1; position++) {
+      const i = line * across + position * along;
+      if (Math.abs(gray[i - along] - gray[i - 2 * along]) > FLAT_STEP || Math.abs(gray[i + along] - gray[i]) > FLAT_STEP) {
+        continue;
+      }
+      sums[position % 8] += Math.abs(gray[i] - gray[i - along]);
+      counts[position % 8]++;
+    }
+  }
+
+  if (Math.min(...counts) < MIN_GRID_SAMPLES) {
+    return null;
+  }
+
+  const means = sums.map((sum, phase) => sum / counts[phase]);
+  const median = [...means].sort((a, b) => a - b)[4];
+  return median > 0 ? means.map(mean => mean / median) : null;
+}
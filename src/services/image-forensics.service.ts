@@ -0,0 +1,147 @@
+import sharp from 'sharp';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { s3Service } from './s3.service';
+import { CopyMoveAnalyzer } from './forensics/copy-move.analyzer';
+import { ErrorLevelAnalyzer } from './forensics/error-level.analyzer';
+import { ExifAnalyzer } from './forensics/exif.analyzer';
+import { JpegQuantizationAnalyzer } from './forensics/jpeg-quantization.analyzer';
+import { ForensicAnalyzer, ForensicFinding, ImageForensicsReport } from './forensics/forensics.types';
+
+/**
+ * Forensic analysis of uploaded ID document images. Each analyzer scores how
+ * likely the image was edited; heatmaps of suspicious regions are stored next
+ * to the document for reviewers.
+ */
+export class ImageForensicsService {
+  private analyzers: ForensicAnalyzer[];
+
+  constructor(analyzers?: ForensicAnalyzer[]) {
+    this.analyzers = analyzers || [
+      new ErrorLevelAnalyzer(),
+      new CopyMoveAnalyzer(),
+      new JpegQuantizationAnalyzer(),
+      new ExifAnalyzer()
+    ];
+  }
+
+  isEnabled(): boolean {
+    return config.forensics.enabled;
+  }
+
+  /**
+   * Run every analyzer on the image as uploaded (before preprocessing, which
+   * would erase compression traces). An analyzer that fails is reported with
+   * score 0 so the upload is not blocked.
+   */
+  async analyzeDocument(verificationId: string, documentType: string, imageBuffer: Buffer): Promise<ImageForensicsReport> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const image = { buffer: imageBuffer, metadata, isJpeg: metadata.format === 'jpeg' };
+    const timestamp = Date.now();
+    const findings: ForensicFinding[] = [];
+
+    // One at a time: analyzers hold full-resolution rasters
+    for (const analyzer of this.analyzers) {
+      const startedAt = Date.now();
+      try {
+        const analysis = await analyzer.analyze(image);
+        const heatmapUrl = analysis.heatmap
+          ? await this.storeHeatmap(verificationId, `${documentType}-${timestamp}-${analyzer.name}.png`, analysis.heatmap)
+          : null;
+
+        findings.push({
+          analyzer: analyzer.name,
+          score: Number(analysis.score.toFixed(3)),
+          suspicious: analysis.score >= config.forensics.tamperThreshold,
+          summary: analysis.summary,
+          details: analysis.details,
+          heatmapUrl
+        });
+        console.log(`[ImageForensicsService] ${analyzer.name}: score ${analysis.score.toFixed(2)} in ${Date.now() - startedAt}ms - ${analysis.summary}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[ImageForensicsService] ${analyzer.name} failed:`, message);
+        findings.push({
+          analyzer: analyzer.name,
+          score: 0,
+          suspicious: false,
+          summary: `Analysis failed: ${message}`,
+          details: { error: message }
+        });
+      }
+    }
+
+    const score = Math.max(0, ...findings.map(finding => finding.score));
+    return {
+      score,
+      tampered: score >= config.forensics.tamperThreshold,
+      findings,
+      analyzedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Report with heatmap URLs pre-signed for viewing, like the document images
+   */
+  async withSignedHeatmaps(report: ImageForensicsReport | null): Promise<ImageForensicsReport | null> {
+    if (!report || !s3Service.isEnabled()) {
+      return report;
+    }
+
+    const findings = await Promise.all(report.findings.map(async finding => {
+      const key = finding.heatmapUrl ? s3Service.extractKeyFromUrl(finding.heatmapUrl) : null;
+      if (!key) return finding;
+      try {
+        return { ...finding, heatmapUrl: await s3Service.getSignedUrl(key) };
+      } catch (error) {
+        console.error(`[ImageForensicsService] Failed to sign heatmap URL: ${key}`, error);
+        return finding;
+      }
+    }));
+
+    return { ...report, findings };
+  }
+
+  /**
+   * Remove the stored heatmaps of a report, when its document is replaced
+   */
+  async deleteHeatmaps(report: ImageForensicsReport | null): Promise<void> {
+    for (const finding of report?.findings || []) {
+      if (!finding.heatmapUrl) continue;
+      try {
+        if (s3Service.isEnabled()) {
+          const key = s3Service.extractKeyFromUrl(finding.heatmapUrl);
+          if (key) await s3Service.deleteFile(key);
+        } else {
+          const localPath = path.join(__dirname, '../..', finding.heatmapUrl.substring(finding.heatmapUrl.indexOf('/uploads/')));
+          if (fs.existsSync(localPath)) fs.unlinkSync(localPath);
+        }
+      } catch (error) {
+        console.error(`[ImageForensicsService] Failed to delete heatmap: ${finding.heatmapUrl}`, error);
+      }
+    }
+  }
+
+  /**
+   * Store a heatmap where the document itself is stored: S3, or the local uploads folder
+   */
+  private async storeHeatmap(verificationId: string, filename: string, png: Buffer): Promise<string | null> {
+    try {
+      if (s3Service.isEnabled()) {
+        const result = await s3Service.uploadForensicHeatmap(verificationId, png, filename);
+        return result.url;
+      }
+
+      const uploadDir = path.join(__dirname, '../../uploads/documents', verificationId);
+      if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(uploadDir, `forensics-${filename}`), png);
+      return `${process.env.API_URL || 'http://localhost:3002'}/uploads/documents/${verificationId}/forensics-${filename}`;
+    } catch (error) {
+      console.error(`[ImageForensicsService] Failed to store heatmap ${filename}:`, error);
+      return null;
+    }
+  }
+}
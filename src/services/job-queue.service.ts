@@ -0,0 +1,170 @@
+import { Job, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const JOB_TYPES = {
+  PROCESS_VERIFICATION: 'verification.process'
+} as const;
+
+const ABANDONED_ERROR = 'Worker stopped before the job finished and no attempts are left';
+
+export interface EnqueueOptions {
+  verificationId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Postgres-backed job queue. Jobs are rows in the Job table; workers claim them
+ * with FOR UPDATE SKIP LOCKED so any number of API servers and worker processes
+ * can poll the same table without handing a job out twice.
+ */
+export class JobQueueService {
+  async enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}) {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload: payload as Prisma.InputJsonValue,
+        verificationId: options.verificationId,
+        maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+        runAt: options.runAt ?? new Date()
+      }
+    });
+
+    logger.info(`[JobQueueService] Enqueued ${type} job ${job.id}`);
+    return job;
+  }
+
+  async getJob(jobId: string) {
+    return prisma.job.findUnique({ where: { id: jobId } });
+  }
+
+  /**
+   * Enqueue a job for a verification unless one of the type is already queued
+   * or running, which is returned instead, so a double submit does not process
+   * twice. The verification row is locked so concurrent calls cannot both enqueue.
+   */
+  async enqueueForVerification(
+    type: string,
+    verificationId: string,
+    payload: Record<string, unknown>,
+    options: Omit<EnqueueOptions, 'verificationId'> = {}
+  ) {
+    return prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM "Verification" WHERE id = ${verificationId} FOR UPDATE`;
+
+      const active = await tx.job.findFirst({
+        where: { type, verificationId, status: { in: ['QUEUED', 'RUNNING'] } },
+        orderBy: { createdAt: 'desc' }
+      });
+      if (active) return active;
+
+      const job = await tx.job.create({
+        data: {
+          type,
+          payload: payload as Prisma.InputJsonValue,
+          verificationId,
+          maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+          runAt: options.runAt ?? new Date()
+        }
+      });
+
+      logger.info(`[JobQueueService] Enqueued ${type} job ${job.id} for verification ${verificationId}`);
+      return job;
+    });
+  }
+
+  /**
+   * Claim the next due job. Jobs left RUNNING past the lock timeout belong to a
+   * crashed worker and are claimed again while they have attempts left.
+   */
+  async claimNext(workerId: string, types: string[]): Promise<Job | null> {
+    if (types.length === 0) return null;
+
+    const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMs);
+    const jobs = await prisma.$queryRaw<Job[]>`
+      UPDATE "Job"
+      SET status = 'RUNNING', "lockedAt" = now(), "lockedBy" = ${workerId}, attempts = attempts + 1, "updatedAt" = now()
+      WHERE id = (
+        SELECT id FROM "Job"
+        WHERE type = ANY(${types})
+          AND ((status = 'QUEUED' AND "runAt" <= now())
+            OR (status = 'RUNNING' AND "lockedAt" < ${staleBefore} AND attempts < "maxAttempts"))
+        ORDER BY "runAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *`;
+
+    return jobs[0] ?? null;
+  }
+
+  /**
+   * Fail the jobs left RUNNING past the lock timeout with no attempts left, so a
+   * job that keeps crashing its worker is not run forever. Returns them for their
+   * dead-letter handlers.
+   */
+  async failAbandoned(types: string[]): Promise<Job[]> {
+    if (types.length === 0) return [];
+
+    const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMs);
+    const jobs = await prisma.$queryRaw<Job[]>`
+      UPDATE "Job"
+      SET status = 'FAILED', "lastError" = ${ABANDONED_ERROR}, "lockedAt" = NULL, "lockedBy" = NULL,
+        "completedAt" = now(), "updatedAt" = now()
+      WHERE type = ANY(${types})
+        AND status = 'RUNNING' AND "lockedAt" < ${staleBefore} AND attempts >= "maxAttempts"
+      RETURNING *`;
+
+    for (const job of jobs) {
+      logger.warn(`[JobQueueService] Job ${job.id} failed: ${ABANDONED_ERROR}`);
+    }
+    return jobs;
+  }
+
+  async complete(jobId: string, result: unknown) {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status: 'SUCCEEDED',
+        result: (result ?? undefined) as Prisma.InputJsonValue | undefined,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Re-queue with exponential backoff, or fail for good once attempts are used up.
+   * Resolves true when the job will be retried.
+   */
+  async fail(job: { id: string; attempts: number; maxAttempts: number }, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retry = job.attempts < job.maxAttempts;
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: retry
+        ? {
+            status: 'QUEUED',
+            lastError: message,
+            lockedAt: null,
+            lockedBy: null,
+            runAt: new Date(Date.now() + config.jobs.retryBackoffMs * 2 ** (job.attempts - 1))
+          }
+        : {
+            status: 'FAILED',
+            lastError: message,
+            lockedAt: null,
+            lockedBy: null,
+            completedAt: new Date()
+          }
+    });
+
+    logger.warn(`[JobQueueService] Job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed: ${message}${retry ? ' (will retry)' : ''}`);
+    return retry;
+  }
+}
@@ -0,0 +1,137 @@
+import os from 'os';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { JobQueueService } from './job-queue.service';
+
+export type JobHandler = (payload: any, job: { id: string; attempts: number }) => Promise<unknown>;
+// Runs once a job has failed for good, to undo or report what it left half done
+export type DeadLetterHandler = (payload: any, error: string) => Promise<unknown>;
+
+interface PeriodicTask {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Polls the job queue and runs one job at a time, plus periodic maintenance
+ * tasks. Started inside the API server (JOB_WORKER=in-process) or on its own
+ * through src/worker.ts.
+ */
+export class JobWorker {
+  private handlers = new Map<string, JobHandler>();
+  private deadLetterHandlers = new Map<string, DeadLetterHandler>();
+  private tasks: PeriodicTask[] = [];
+  private taskTimers: NodeJS.Timeout[] = [];
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  constructor(private jobQueue: JobQueueService = new JobQueueService()) {}
+
+  register(type: string, handler: JobHandler, onDeadLetter?: DeadLetterHandler): this {
+    this.handlers.set(type, handler);
+    if (onDeadLetter) {
+      this.deadLetterHandlers.set(type, onDeadLetter);
+    }
+    return this;
+  }
+
+  /**
+   * Run a task every intervalMs while the worker runs. Tasks must be safe to run
+   * from several workers at the same time.
+   */
+  every(name: string, intervalMs: number, run: () => Promise<unknown>): this {
+    this.tasks.push({ name, intervalMs, run });
+    return this;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    logger.info(`[JobWorker] Worker ${this.workerId} started for ${[...this.handlers.keys()].join(', ')}`);
+    this.schedule(0);
+
+    for (const task of this.tasks) {
+      let busy = false;
+      const runTask = async () => {
+        if (busy) return;
+        busy = true;
+        try {
+          await task.run();
+        } catch (error) {
+          logger.error(`[JobWorker] Periodic task ${task.name} failed:`, error);
+        } finally {
+          busy = false;
+        }
+      };
+      this.taskTimers.push(setInterval(runTask, task.intervalMs));
+      runTask();
+    }
+  }
+
+  /**
+   * Stop polling and wait for the job in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.taskTimers.forEach(timer => clearInterval(timer));
+    this.taskTimers = [];
+    await this.current;
+    logger.info(`[JobWorker] Worker ${this.workerId} stopped`);
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.current = this.tick()
+        .catch(error => logger.error('[JobWorker] Poll failed:', error))
+        .then(found => this.schedule(found ? 0 : config.jobs.pollIntervalMs));
+    }, delayMs);
+  }
+
+  /**
+   * Run one due job; resolves true when a job was found so the next poll is immediate
+   */
+  private async tick(): Promise<boolean> {
+    const types = [...this.handlers.keys()];
+    for (const abandoned of await this.jobQueue.failAbandoned(types)) {
+      await this.deadLetter(abandoned, abandoned.lastError || 'Job abandoned');
+    }
+
+    const job = await this.jobQueue.claimNext(this.workerId, types);
+    if (!job) return false;
+
+    const handler = this.handlers.get(job.type)!;
+    logger.info(`[JobWorker] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      const result = await handler(job.payload, job);
+      await this.jobQueue.complete(job.id, result);
+      logger.info(`[JobWorker] Job ${job.id} succeeded`);
+    } catch (error) {
+      const retried = await this.jobQueue.fail(job, error);
+      if (!retried) {
+        await this.deadLetter(job, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return true;
+  }
+
+  private async deadLetter(job: { id: string; type: string; payload: unknown }, error: string): Promise<void> {
+    const onDeadLetter = this.deadLetterHandlers.get(job.type);
+    if (!onDeadLetter) return;
+
+    try {
+      await onDeadLetter(job.payload, error);
+    } catch (deadLetterError) {
+      logger.error(`[JobWorker] Dead-letter handler of job ${job.id} failed:`, deadLetterError);
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { PrismaClient } from '@prisma/client';
+import { randomInt } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { FaceFrameAnalysis, LivenessAction, LivenessChallengeResult } from '../types/verification.types';
+import { config } from '../config';
+import { BiometricService } from './biometric.service';
+import { VerificationAttemptService } from './verification-attempt.service';
+import { SandboxService } from './sandbox.service';
+import { s3Service } from './s3.service';
+import { eyeStates, findBlink, headTurn } from './biometrics/face-geometry';
+
+const prisma = new PrismaClient();
+
+export const LIVENESS_CHALLENGE_ERRORS = {
+  NOT_FOUND: 'Liveness challenge not found',
+  EXPIRED: 'Liveness challenge expired',
+  COMPLETED: 'Liveness challenge already completed',
+  LIMIT: 'Liveness challenge limit reached',
+  TOO_FEW_FRAMES: 'Not enough frames for the liveness challenge'
+} as const;
+
+const MIN_FRAMES = 3;
+// Share of the frames that must show exactly one face
+const MIN_FACE_FRAMES = 0.8;
+// Nose movement, in eye distances, that counts as turning the head (about 15 degrees)
+const TURN_THRESHOLD = 0.15;
+
+/**
+ * Whether a stored challenge result has the shape completeChallenge writes
+ */
+function isChallengeResult(value: unknown): value is LivenessChallengeResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.passed === 'boolean' &&
+    typeof result.score === 'number' &&
+    Array.isArray(result.actions) &&
+    typeof result.framesAnalyzed === 'number' &&
+    typeof result.framesWithFace === 'number' &&
+    typeof result.method === 'string';
+}
+
+/**
+ * Active liveness: the applicant is asked for a short random sequence of
+ * actions and uploads the frames captured while performing them. A photo or
+ * replayed video cannot know the sequence in advance, so confirming each
+ * action in order from the face in the frames proves a live person.
+ */
+export class LivenessChallengeService {
+  private attemptService = new VerificationAttemptService();
+  private sandboxService = new SandboxService();
+
+  constructor(private biometricService: BiometricService) {}
+
+  /**
+   * Issue a challenge for the open attempt; earlier unanswered challenges of the verification expire
+   */
+  async createChallenge(verificationId: string) {
+    const attempt = await this.attemptService.openForUpload(verificationId);
+
+    const issued = await prisma.livenessChallenge.count({ where: { attemptId: attempt.id } });
+    if (issued >= config.liveness.maxChallengesPerAttempt) {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.LIMIT);
+    }
+
+    await prisma.livenessChallenge.updateMany({
+      where: { verificationId, status: 'PENDING' },
+      data: { status: 'EXPIRED' }
+    });
+
+    const challenge = await prisma.livenessChallenge.create({
+      data: {
+        verificationId,
+        attemptId: attempt.id,
+        actions: this.randomActions(),
+        expiresAt: new Date(Date.now() + config.liveness.challengeTtlSeconds * 1000)
+      }
+    });
+
+    console.log(`[LivenessChallengeService] Challenge ${challenge.id} issued for verification ${verificationId}:`, challenge.actions);
+    return challenge;
+  }
+
+  /**
+   * Confirm the challenge's actions from the frames captured while the
+   * applicant performed them, in capture order. A challenge takes one upload.
+   * mirrored: the frames are the front camera's mirrored preview, so left and right are swapped.
+   */
+  async completeChallenge(verificationId: string, challengeId: string, frames: Buffer[], mirrored = false) {
+    const challenge = await prisma.livenessChallenge.findFirst({
+      where: { id: challengeId, verificationId },
+      include: { verification: { include: { user: true } } }
+    });
+
+    if (!challenge) {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.NOT_FOUND);
+    }
+    if (challenge.status === 'EXPIRED') {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.EXPIRED);
+    }
+    if (challenge.status !== 'PENDING' || challenge.submittedAt) {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.COMPLETED);
+    }
+    if (challenge.expiresAt < new Date()) {
+      await prisma.livenessChallenge.update({ where: { id: challengeId }, data: { status: 'EXPIRED' } });
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.EXPIRED);
+    }
+    if (frames.length < MIN_FRAMES) {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.TOO_FEW_FRAMES);
+    }
+
+    // Claim the challenge so concurrent uploads cannot both be evaluated
+    const claimed = await prisma.livenessChallenge.updateMany({
+      where: { id: challengeId, status: 'PENDING', submittedAt: null },
+      data: { submittedAt: new Date() }
+    });
+    if (claimed.count === 0) {
+      throw new Error(LIVENESS_CHALLENGE_ERRORS.COMPLETED);
+    }
+
+    const actions = challenge.actions as LivenessAction[];
+    let result: LivenessChallengeResult;
+    try {
+      if (challenge.verification.isSandbox) {
+        result = this.sandboxResult(actions, frames.length, challenge.verification);
+      } else {
+        const analyses: FaceFrameAnalysis[] = [];
+        for (const frame of frames) {
+          analyses.push(await this.biometricService.analyzeFace(frame));
+        }
+        result = this.evaluate(actions, analyses, mirrored);
+
+        // Kept so the liveness check can tell whether the selfie shows the face that performed the challenge
+        const faceFrame = analyses.findIndex(analysis => analysis.faceDetected && analysis.faceCount === 1);
+        if (result.passed && faceFrame >= 0) {
+          result.frameUrl = await this.storeFrame(verificationId, challengeId, frames[faceFrame]);
+        }
+      }
+    } catch (error) {
+      // No provider could analyse the frames: not the applicant's fault, so the challenge can be answered again
+      await prisma.livenessChallenge.update({ where: { id: challengeId }, data: { submittedAt: null } });
+      throw error;
+    }
+
+    console.log(`[LivenessChallengeService] Challenge ${challengeId} ${result.passed ? 'passed' : 'failed'}:`, {
+      actions: result.actions,
+      framesAnalyzed: result.framesAnalyzed,
+      framesWithFace: result.framesWithFace,
+      reason: result.reason
+    });
+
+    return prisma.livenessChallenge.update({
+      where: { id: challengeId },
+      data: {
+        status: result.passed ? 'PASSED' : 'FAILED',
+        // A plain copy: Prisma's JSON input type does not accept the interface itself
+        result: { ...result },
+        completedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Result of the most recently completed challenge of an attempt; null when none was completed
+   */
+  async getCompletedResult(attemptId: string): Promise<LivenessChallengeResult | null> {
+    const challenge = await prisma.livenessChallenge.findFirst({
+      where: { attemptId, status: { in: ['PASSED', 'FAILED'] } },
+      orderBy: { completedAt: 'desc' }
+    });
+    return challenge && isChallengeResult(challenge.result) ? challenge.result : null;
+  }
+
+  private async storeFrame(verificationId: string, challengeId: string, frame: Buffer): Promise<string> {
+    const image = await sharp(frame).rotate().jpeg({ quality: 95 }).toBuffer();
+    const filename = `liveness-${challengeId}.jpg`;
+    if (s3Service.isEnabled()) {
+      const result = await s3Service.uploadSelfie(verificationId, image, filename, 'image/jpeg');
+      return result.url;
+    }
+
+    const uploadDir = path.join(__dirname, '../../uploads/documents', verificationId);
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    fs.writeFileSync(path.join(uploadDir, filename), image);
+    return `${process.env.API_URL || 'http://localhost:3002'}/uploads/documents/${verificationId}/${filename}`;
+  }
+
+  private randomActions(): LivenessAction[] {
+    const pool = Object.values(LivenessAction);
+    const count = Math.max(1, Math.min(pool.length, config.liveness.challengeActions));
+    const actions: LivenessAction[] = [];
+    while (actions.length < count) {
+      actions.push(pool.splice(randomInt(pool.length), 1)[0]);
+    }
+    return actions;
+  }
+
+  /**
+   * Walk the frames once, confirming each action in a frame after the one that
+   * confirmed the previous action. Turns are measured against the first frame,
+   * eye closure against the eyes' usual opening, and a blink or smile needs
+   * the face to change into it, not to hold it throughout.
+   */
+  private evaluate(actions: LivenessAction[], frames: FaceFrameAnalysis[], mirrored: boolean): LivenessChallengeResult {
+    const framesWithFace = frames.filter(frame => frame.faceDetected && frame.faceCount === 1).length;
+    const unconfirmed = actions.map(action => ({ action, confirmed: false, frame: null }));
+    const failure = (reason: string): LivenessChallengeResult => ({
+      passed: false,
+      score: 0,
+      actions: unconfirmed,
+      framesAnalyzed: frames.length,
+      framesWithFace,
+      reason,
+      method: 'active_challenge'
+    });
+
+    if (frames.some(frame => frame.faceCount > 1)) {
+      return failure('More than one face in the frames');
+    }
+    if (framesWithFace < frames.length * MIN_FACE_FRAMES) {
+      return failure('Face not visible in enough frames');
+    }
+
+    const baseline = frames.findIndex(frame => frame.faceDetected && frame.landmarks);
+    if (baseline < 0) {
+      return failure('No facial landmarks in the frames');
+    }
+
+    // Applicant's own left is the right of an unmirrored camera frame
+    const baseTurn = headTurn(frames[baseline].landmarks!);
+    const leftTurn = (frame: FaceFrameAnalysis) => frame.landmarks
+      ? (headTurn(frame.landmarks) - baseTurn) * (mirrored ? -1 : 1)
+      : 0;
+
+    const eyes = eyeStates(frames);
+
+    const matches: Record<LivenessAction, (index: number, from: number) => boolean> = {
+      [LivenessAction.TURN_LEFT]: index => leftTurn(frames[index]) >= TURN_THRESHOLD,
+      [LivenessAction.TURN_RIGHT]: index => leftTurn(frames[index]) <= -TURN_THRESHOLD,
+      [LivenessAction.BLINK]: (index, from) => findBlink(eyes, from) === index,
+      [LivenessAction.SMILE]: (index, from) => frames[index].smiling === true &&
+        frames.slice(from, index).some(frame => frame.smiling === false)
+    };
+
+    const confirmed: LivenessChallengeResult['actions'] = [];
+    let cursor = baseline;
+    for (const action of actions) {
+      let frame: number | null = null;
+      if (confirmed.every(entry => entry.confirmed)) {
+        for (let index = cursor + 1; index < frames.length; index++) {
+          if (frames[index].faceDetected && matches[action](index, cursor)) {
+            frame = index;
+            break;
+          }
+        }
+      }
+      confirmed.push({ action, confirmed: frame !== null, frame });
+      if (frame !== null) cursor = frame;
+    }
+
+    const confirmedCount = confirmed.filter(entry => entry.confirmed).length;
+    return {
+      passed: confirmedCount === actions.length,
+      score: Number((confirmedCount / actions.length).toFixed(3)),
+      actions: confirmed,
+      framesAnalyzed: frames.length,
+      framesWithFace,
+      method: 'active_challenge'
+    };
+  }
+
+  /**
+   * Sandbox verifications pass the challenge unless their scenario fails liveness
+   */
+  private sandboxResult(
+    actions: LivenessAction[],
+    frameCount: number,
+    verification: { metadata?: any; user?: { fullName?: string | null } | null }
+  ): LivenessChallengeResult {
+    const scenario = this.sandboxService.scenarioFor({
+      metadata: verification.metadata,
+      requesterName: verification.user?.fullName
+    });
+    const { liveness } = this.sandboxService.analyzeSelfie(scenario);
+
+    return {
+      passed: liveness.isLive,
+      score: liveness.isLive ? 1 : 0,
+      actions: actions.map((action, index) => ({
+        action,
+        confirmed: liveness.isLive,
+        frame: liveness.isLive ? Math.min(frameCount - 1, index + 1) : null
+      })),
+      framesAnalyzed: frameCount,
+      framesWithFace: frameCount,
+      method: 'sandbox'
+    };
+  }
+}
@@ -0,0 +1,321 @@
+import { documentIdValidator } from './document-id-validator.service';
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export interface MrzCheckDigitResult {
+  documentNumber: boolean;
+  dateOfBirth: boolean;
+  expiryDate: boolean;
+  personalNumber?: boolean; // TD3 passports only
+  composite?: boolean;      // not present on visas (MRV-A / MRV-B)
+}
+
+export interface MrzParseResult {
+  format: MrzFormat;
+  lines: string[];
+  documentCode: string;
+  issuingCountry: string;
+  documentNumber: string;
+  nationality: string;
+  dateOfBirth: string | null; // YYYY-MM-DD
+  sex: string | null;         // M, F or X
+  expiryDate: string | null;  // YYYY-MM-DD
+  lastName: string;
+  firstName: string;
+  fullName: string;
+  optionalData: string;
+  checkDigits: MrzCheckDigitResult;
+  valid: boolean;
+  errors: string[];
+}
+
+// Line length and count per ICAO 9303 document size
+const FORMATS: Array<{ format: MrzFormat; lineCount: number; lineLength: number }> = [
+  { format: 'TD1', lineCount: 3, lineLength: 30 },
+  { format: 'TD2', lineCount: 2, lineLength: 36 },
+  { format: 'TD3', lineCount: 2, lineLength: 44 }
+];
+
+/**
+ * ICAO 9303 machine readable zone parser for passports (TD3),
+ * ID cards (TD1) and TD2-size documents including MRV-B visas
+ */
+export class MrzParserService {
+  /**
+   * Find MRZ lines inside free OCR text.
+   * Returns the candidate lines, or null when no MRZ-shaped block is found.
+   */
+  extractLines(text: string): string[] | null {
+    const candidates = text
+      .split(/\r?\n/)
+      .map(line => this.normalizeLine(line))
+      .filter(line => line.length >= 28 && line.length <= 46 && /^[A-Z0-9<]+$/.test(line) && line.includes('<'));
+
+    for (const { lineCount, lineLength } of FORMATS) {
+      for (let i = 0; i + lineCount <= candidates.length; i++) {
+        const block = candidates.slice(i, i + lineCount);
+        if (block.every(line => Math.abs(line.length - lineLength) <= 2)) {
+          return block;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse an MRZ given as newline-separated lines (or a single run-on string).
+   * Returns null when the input doesn't match any ICAO 9303 layout.
+   */
+  parse(mrz: string): MrzParseResult | null {
+    if (!mrz) return null;
+
+    let lines = mrz
+      .split(/\r?\n/)
+      .map(line => this.normalizeLine(line))
+      .filter(line => line.length > 0);
+
+    // Some OCR providers return the MRZ as one string without line breaks
+    if (lines.length === 1) {
+      const single = lines[0];
+      const layout = FORMATS.find(f => single.length === f.lineCount * f.lineLength);
+      if (layout) {
+        lines = [];
+        for (let i = 0; i < layout.lineCount; i++) {
+          lines.push(single.substring(i * layout.lineLength, (i + 1) * layout.lineLength));
+        }
+      }
+    }
+
+    const layout = FORMATS.find(f => f.lineCount === lines.length &&
+      lines.every(line => Math.abs(line.length - f.lineLength) <= 2));
+
+    if (!layout) {
+      return null;
+    }
+
+    // Pad or trim OCR'd lines to the nominal length so positions line up
+    const fixed = lines.map(line => line.padEnd(layout.lineLength, '<').substring(0, layout.lineLength));
+
+    switch (layout.format) {
+      case 'TD1':
+        return this.parseTD1(fixed);
+      case 'TD2':
+        return this.parseTwoLine(fixed, 'TD2');
+      case 'TD3':
+        return this.parseTwoLine(fixed, 'TD3');
+    }
+  }
+
+  /**
+   * TD1 (ID-1 cards): 3 lines of 30 characters
+   */
+  private parseTD1(lines: string[]): MrzParseResult {
+    const [line1, line2, line3] = lines;
+    let documentNumber = line1.substring(5, 14);
+    let documentNumberCheck = line1.charAt(14);
+    let optionalData = line1.substring(15, 30);
+
+    // Long document numbers overflow into the optional data field; the check digit
+    // position holds '<' and the real check digit follows the overflow
+    if (documentNumberCheck === '<') {
+      const overflowEnd = optionalData.indexOf('<');
+      const overflow = overflowEnd === -1 ? optionalData : optionalData.substring(0, overflowEnd);
+      if (overflow.length > 1) {
+        documentNumber = documentNumber + overflow.substring(0, overflow.length - 1);
+        documentNumberCheck = overflow.charAt(overflow.length - 1);
+        optionalData = optionalData.substring(overflow.length);
+      }
+    }
+
+    const checkDigits: MrzCheckDigitResult = {
+      documentNumber: this.verifyCheckDigit(documentNumber, documentNumberCheck),
+      dateOfBirth: this.verifyCheckDigit(line2.substring(0, 6), line2.charAt(6)),
+      expiryDate: this.verifyCheckDigit(line2.substring(8, 14), line2.charAt(14)),
+      composite: this.verifyCheckDigit(
+        line1.substring(5, 30) + line2.substring(0, 7) + line2.substring(8, 15) + line2.substring(18, 29),
+        line2.charAt(29)
+      )
+    };
+
+    const names = this.decodeName(line3);
+
+    return this.buildResult('TD1', lines, {
+      documentCode: this.decodeField(line1.substring(0, 2)),
+      issuingCountry: this.decodeField(line1.substring(2, 5)),
+      documentNumber: this.decodeField(documentNumber),
+      nationality: this.decodeField(line2.substring(15, 18)),
+      dateOfBirth: this.decodeDate(line2.substring(0, 6), 'birth'),
+      sex: this.decodeSex(line2.charAt(7)),
+      expiryDate: this.decodeDate(line2.substring(8, 14), 'expiry'),
+      ...names,
+      optionalData: this.decodeField(optionalData + line2.substring(18, 29))
+    }, checkDigits);
+  }
+
+  /**
+   * TD2 (2 x 36) and TD3 passports (2 x 44) share the same line 2 layout
+   * up to the optional data field
+   */
+  private parseTwoLine(lines: string[], format: 'TD2' | 'TD3'): MrzParseResult {
+    const [line1, line2] = lines;
+    const documentCode = this.decodeField(line1.substring(0, 2));
+    const isVisa = documentCode.startsWith('V');
+    const lastIndex = line2.length - 1;
+
+    const checkDigits: MrzCheckDigitResult = {
+      documentNumber: this.verifyCheckDigit(line2.substring(0, 9), line2.charAt(9)),
+      dateOfBirth: this.verifyCheckDigit(line2.substring(13, 19), line2.charAt(19)),
+      expiryDate: this.verifyCheckDigit(line2.substring(21, 27), line2.charAt(27))
+    };
+
+    let optionalData: string;
+
+    if (isVisa) {
+      // Machine readable visas have no personal number or composite check digits
+      optionalData = line2.substring(28);
+    } else if (format === 'TD3') {
+      optionalData = line2.substring(28, 42);
+      checkDigits.personalNumber = this.verifyCheckDigit(optionalData, line2.charAt(42), true);
+      checkDigits.composite = this.verifyCheckDigit(
+        line2.substring(0, 10) + line2.substring(13, 20) + line2.substring(21, 43),
+        line2.charAt(lastIndex)
+      );
+    } else {
+      optionalData = line2.substring(28, 35);
+      checkDigits.composite = this.verifyCheckDigit(
+        line2.substring(0, 10) + line2.substring(13, 20) + line2.substring(21, 35),
+        line2.charAt(lastIndex)
+      );
+    }
+
+    const names = this.decodeName(line1.substring(5));
+
+    return this.buildResult(format, lines, {
+      documentCode,
+      issuingCountry: this.decodeField(line1.substring(2, 5)),
+      documentNumber: this.decodeField(line2.substring(0, 9)),
+      nationality: this.decodeField(line2.substring(10, 13)),
+      dateOfBirth: this.decodeDate(line2.substring(13, 19), 'birth'),
+      sex: this.decodeSex(line2.charAt(20)),
+      expiryDate: this.decodeDate(line2.substring(21, 27), 'expiry'),
+      ...names,
+      optionalData: this.decodeField(optionalData)
+    }, checkDigits);
+  }
+
+  private buildResult(
+    format: MrzFormat,
+    lines: string[],
+    fields: Omit<MrzParseResult, 'format' | 'lines' | 'checkDigits' | 'valid' | 'errors'>,
+    checkDigits: MrzCheckDigitResult
+  ): MrzParseResult {
+    const errors: string[] = [];
+
+    for (const [field, passed] of Object.entries(checkDigits)) {
+      if (passed === false) {
+        errors.push(`Check digit mismatch for ${field}`);
+      }
+    }
+
+    if (!fields.dateOfBirth) {
+      errors.push('Invalid date of birth');
+    }
+    if (!fields.expiryDate) {
+      errors.push('Invalid expiry date');
+    }
+
+    return {
+      format,
+      lines,
+      ...fields,
+      checkDigits,
+      valid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Verify a check digit using the ICAO 9303 7-3-1 weighting.
+   * A '<' check digit is only accepted for an empty optional field.
+   */
+  private verifyCheckDigit(data: string, checkDigit: string, allowEmpty: boolean = false): boolean {
+    if (checkDigit === '<') {
+      return allowEmpty && /^<*$/.test(data);
+    }
+    if (!/^[0-9]$/.test(checkDigit)) {
+      return false;
+    }
+    return documentIdValidator.calculateMRZCheckDigit(data) === parseInt(checkDigit, 10);
+  }
+
+  /**
+   * Name field: PRIMARY<IDENTIFIER<<SECONDARY<IDENTIFIER<<<
+   */
+  private decodeName(field: string): { lastName: string; firstName: string; fullName: string } {
+    const [primary, ...rest] = field.replace(/<+$/, '').split('<<');
+    const lastName = (primary || '').replace(/</g, ' ').trim();
+    const firstName = rest.join(' ').replace(/</g, ' ').replace(/\s+/g, ' ').trim();
+
+    return {
+      lastName,
+      firstName,
+      fullName: [firstName, lastName].filter(Boolean).join(' ')
+    };
+  }
+
+  private decodeField(field: string): string {
+    return field.replace(/</g, ' ').trim().replace(/\s+/g, ' ');
+  }
+
+  private decodeSex(char: string): string | null {
+    if (char === 'M' || char === 'F') return char;
+    if (char === '<' || char === 'X') return 'X';
+    return null;
+  }
+
+  /**
+   * YYMMDD to YYYY-MM-DD. Birth dates are never in the future; expiry dates
+   * are assumed to fall within 50 years of today.
+   */
+  private decodeDate(yymmdd: string, kind: 'birth' | 'expiry'): string | null {
+    if (!/^[0-9]{6}$/.test(yymmdd)) {
+      return null;
+    }
+
+    const yy = parseInt(yymmdd.substring(0, 2), 10);
+    const month = parseInt(yymmdd.substring(2, 4), 10);
+    const day = parseInt(yymmdd.substring(4, 6), 10);
+
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return null;
+    }
+
+    const currentYear = new Date().getFullYear();
+    const century = Math.floor(currentYear / 100) * 100;
+
+    let year = century + yy;
+    if (kind === 'birth') {
+      if (year > currentYear) year -= 100;
+    } else if (year > currentYear + 50) {
+      year -= 100;
+    } else if (year < currentYear - 50) {
+      year += 100;
+    }
+
+    return `${year}-${yymmdd.substring(2, 4)}-${yymmdd.substring(4, 6)}`;
+  }
+
+  /**
+   * OCR output frequently contains spaces or guillemets instead of fillers
+   */
+  private normalizeLine(line: string): string {
+    return line
+      .toUpperCase()
+      .replace(/[«‹]/g, '<')
+      .replace(/\s+/g, '');
+  }
+}
+
+// Export singleton instance
+export const mrzParser = new MrzParserService();
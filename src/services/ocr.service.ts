@@ -4,7 +4,16 @@ import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
 import axios from 'axios';
 import { DocumentType, ExtractedDocumentData } from '../types/verification.types';
 import { DocumentAiEntity } from './document-scanner.service';
+import { mrzParser } from './mrz-parser.service';
 import { config } from '../config';
+import { withFieldConfidence } from '../utils/field-confidence';
+import { OcrProviderChain } from './ocr/ocr-provider-chain';
+import { OcrChainResult, OcrProvider, OcrRequest } from './ocr/ocr-provider.types';
+import { ExternalApiOcrProvider } from './ocr/external-api.provider';
+import { DocumentAiCacheOcrProvider } from './ocr/document-ai-cache.provider';
+import { DocumentAiOcrProvider } from './ocr/document-ai.provider';
+import { GoogleVisionOcrProvider } from './ocr/google-vision.provider';
+import { TesseractOcrProvider } from './ocr/tesseract.provider';
 
 // Response type from external document OCR API
 interface ExternalOcrResponse {
@@ -23,6 +32,22 @@ interface ExternalOcrResponse {
   error: string | null;
 }
 
+// External OCR API field names, as listed in missing_fields
+const EXTERNAL_FIELD_NAMES: Record<string, string> = {
+  first_name: 'firstName',
+  last_name: 'lastName',
+  full_name: 'fullName',
+  document_number: 'documentNumber',
+  date_of_birth: 'dateOfBirth',
+  issue_date: 'issueDate',
+  expiry_date: 'expiryDate',
+  gender: 'gender',
+  address: 'address'
+};
+
+// Confidence of a value the external API returned but also listed as missing (a partial read)
+const EXTERNAL_PARTIAL_FIELD_CONFIDENCE = 0.4;
+
 // Entity name mappings for different processor types
 // Custom extractors may use different field names than built-in processors
 const ENTITY_MAPPINGS: Record<string, keyof ExtractedDocumentData | 'skip'> = {
@@ -125,9 +150,31 @@ export class OCRService {
   private documentAiClient: DocumentProcessorServiceClient | null = null;
   private useGoogleVision: boolean = false;
   private useDocumentAi: boolean = false;
+  private providerChain = new OcrProviderChain();
 
-  constructor() {
+  /**
+   * providers replaces the built-in providers; which of them run, and in what
+   * order, comes from config.ocr
+   */
+  constructor(providers?: OcrProvider[]) {
     this.initializeGoogleServices();
+
+    const registered = providers || [
+      new ExternalApiOcrProvider(this),
+      new DocumentAiCacheOcrProvider(this),
+      new DocumentAiOcrProvider(this),
+      new GoogleVisionOcrProvider(this),
+      new TesseractOcrProvider(this)
+    ];
+    registered.forEach(provider => this.providerChain.register(provider));
+  }
+
+  hasGoogleVision(): boolean {
+    return this.useGoogleVision && !!this.visionClient;
+  }
+
+  hasDocumentAi(): boolean {
+    return this.useDocumentAi && !!this.documentAiClient;
   }
 
   private initializeGoogleServices(): void {
@@ -194,61 +241,69 @@ export class OCRService {
   }
 
   async extractText(imageBuffer: Buffer): Promise<{ text: string; confidence: number }> {
-    if (this.useGoogleVision && this.visionClient) {
-      return this.extractTextWithGoogleVision(imageBuffer);
+    if (this.hasGoogleVision()) {
+      try {
+        const result = await this.extractTextWithGoogleVision(imageBuffer);
+        if (result.text) return result;
+        console.log('[OCRService] Google Vision: No text detected, falling back to Tesseract');
+      } catch (error) {
+        console.error('[OCRService] Google Vision extraction failed, falling back to Tesseract:', error);
+      }
     }
     return this.extractTextWithTesseract(imageBuffer);
   }
 
-  private async extractTextWithGoogleVision(imageBuffer: Buffer): Promise<{ text: string; confidence: number }> {
-    try {
-      // Use documentTextDetection for better structured document OCR
-      const [result] = await this.visionClient!.documentTextDetection({
-        image: { content: imageBuffer.toString('base64') }
-      });
+  /**
+   * Text from Google Vision; empty when none was detected
+   */
+  async extractTextWithGoogleVision(imageBuffer: Buffer): Promise<{ text: string; confidence: number }> {
+    if (!this.visionClient) {
+      throw new Error('Google Vision is not configured');
+    }
 
-      const fullTextAnnotation = result.fullTextAnnotation;
+    // Use documentTextDetection for better structured document OCR
+    const [result] = await this.visionClient.documentTextDetection({
+      image: { content: imageBuffer.toString('base64') }
+    });
 
-      if (!fullTextAnnotation || !fullTextAnnotation.text) {
-        console.log('[OCRService] Google Vision: No text detected, falling back to Tesseract');
-        return this.extractTextWithTesseract(imageBuffer);
-      }
+    const fullTextAnnotation = result.fullTextAnnotation;
 
-      const fullText = fullTextAnnotation.text;
-
-      // Calculate average confidence from blocks
-      let confidence = 0.95;
-      if (fullTextAnnotation.pages) {
-        const confidences: number[] = [];
-        for (const page of fullTextAnnotation.pages) {
-          for (const block of page.blocks || []) {
-            if (block.confidence) {
-              confidences.push(block.confidence);
-            }
+    if (!fullTextAnnotation || !fullTextAnnotation.text) {
+      return { text: '', confidence: 0 };
+    }
+
+    const fullText = fullTextAnnotation.text;
+
+    // Calculate average confidence from blocks
+    let confidence = 0.95;
+    if (fullTextAnnotation.pages) {
+      const confidences: number[] = [];
+      for (const page of fullTextAnnotation.pages) {
+        for (const block of page.blocks || []) {
+          if (block.confidence) {
+            confidences.push(block.confidence);
           }
         }
-        if (confidences.length > 0) {
-          confidence = confidences.reduce((a, b) => a + b, 0) / confidences.length;
-        }
       }
+      if (confidences.length > 0) {
+        confidence = confidences.reduce((a, b) => a + b, 0) / confidences.length;
+      }
+    }
 
-      console.log('[OCRService] Google Vision extracted text length:', fullText.length);
-      console.log('[OCRService] Google Vision confidence:', confidence);
+    console.log('[OCRService] Google Vision extracted text length:', fullText.length);
+    console.log('[OCRService] Google Vision confidence:', confidence);
 
-      return { text: fullText, confidence };
-    } catch (error) {
-      console.error('[OCRService] Google Vision extraction failed, falling back to Tesseract:', error);
-      return this.extractTextWithTesseract(imageBuffer);
-    }
+    return { text: fullText, confidence };
   }
 
-  private async extractTextWithTesseract(imageBuffer: Buffer): Promise<{ text: string; confidence: number }> {
+  async extractTextWithTesseract(imageBuffer: Buffer): Promise<{ text: string; confidence: number }> {
     try {
+      // Also used as a fallback when Google services are configured, so initialize() may not have created it
       if (!this.worker) {
-        await this.initialize();
+        this.worker = await Tesseract.createWorker('eng');
       }
 
-      const result = await this.worker!.recognize(imageBuffer);
+      const result = await this.worker.recognize(imageBuffer);
 
       return {
         text: result.data.text,
@@ -264,67 +319,43 @@ export class OCRService {
     documentType: DocumentType,
     cachedDocumentAiEntities?: DocumentAiEntity[]
   ): Promise<ExtractedDocumentData> {
-    console.log('[OCRService] Extracting document data for type:', documentType);
-
-    // FIRST PREFERENCE: Try external Document OCR API
-    try {
-      console.log('[OCRService] Trying external Document OCR API first...');
-      const externalResult = await this.extractWithExternalOcr(imageBuffer);
-      console.log('[OCRService] External OCR API succeeded, using extracted data');
-      return externalResult;
-    } catch (error) {
-      console.log('[OCRService] External OCR API failed, falling back to other methods:', error instanceof Error ? error.message : error);
-    }
+    const { data } = await this.extractWithProviders(imageBuffer, { documentType, cachedDocumentAiEntities });
+    return data;
+  }
 
-    // SECOND: If we have cached Document AI entities from detection, use them directly
-    if (cachedDocumentAiEntities && cachedDocumentAiEntities.length > 0) {
-      console.log('[OCRService] Using cached Document AI entities (', cachedDocumentAiEntities.length, 'entities) - skipping redundant API call');
-      return this.extractFromCachedEntities(cachedDocumentAiEntities);
-    }
+  /**
+   * Run the OCR provider chain (config.ocr). The result names the provider that
+   * produced the data and lists every provider tried.
+   */
+  async extractWithProviders(imageBuffer: Buffer, request: OcrRequest): Promise<OcrChainResult> {
+    console.log('[OCRService] Extracting document data for type:', request.documentType,
+      request.country ? `(country ${request.country})` : '');
 
-    // THIRD: Try Google Document AI if configured
-    if (this.useDocumentAi && this.documentAiClient) {
-      const processorId = this.getProcessorIdForDocumentType(documentType);
+    const result = await this.providerChain.extract(imageBuffer, request);
+    console.log(`[OCRService] Extracted data from ${result.provider}:`, result.data);
 
-      if (processorId) {
-        try {
-          console.log('[OCRService] Using Document AI for extraction');
-          return await this.extractWithDocumentAi(imageBuffer, documentType, processorId);
-        } catch (error) {
-          console.error('[OCRService] Document AI extraction failed, falling back to Vision API:', error);
-        }
-      }
-    }
-
-    // FOURTH: Fallback to Vision API + regex parsing
-    console.log('[OCRService] Using Vision API + regex parsing for extraction');
-    const { text, confidence } = await this.extractText(imageBuffer);
+    return result;
+  }
 
+  /**
+   * Parse OCR text with the parser for the document type
+   */
+  parseDocumentText(text: string, confidence: number, documentType: DocumentType): ExtractedDocumentData {
     console.log('[OCRService] Extracted text:', text.substring(0, 500));
     console.log('[OCRService] Confidence:', confidence);
 
-    let extractedData: ExtractedDocumentData;
-
     switch (documentType) {
       case DocumentType.DRIVERS_LICENSE:
-        extractedData = this.parseDriversLicense(text, confidence);
-        break;
+        return this.parseDriversLicense(text, confidence);
       case DocumentType.PASSPORT:
-        extractedData = this.parsePassport(text, confidence);
-        break;
+        return this.parsePassport(text, confidence);
       case DocumentType.NATIONAL_ID:
-        extractedData = this.parseNationalId(text, confidence);
-        break;
+        return this.parseNationalId(text, confidence);
       case DocumentType.PERMANENT_RESIDENT_CARD:
-        extractedData = this.parsePermanentResidentCard(text, confidence);
-        break;
+        return this.parsePermanentResidentCard(text, confidence);
       default:
-        extractedData = this.parseGenericDocument(text, confidence);
+        return this.parseGenericDocument(text, confidence);
     }
-
-    console.log('[OCRService] Parsed extracted data:', extractedData);
-
-    return extractedData;
   }
 
   /**
@@ -430,14 +461,25 @@ export class OCRService {
         extractedData.address = this.parseExternalAddress(data.address);
       }
 
-      // Log any missing fields for debugging
+      // A field listed as missing but still returned was only partly read
+      const confidences: Record<string, number> = {};
       if (data.missing_fields && data.missing_fields.length > 0) {
         console.log('[OCRService] External OCR missing fields:', data.missing_fields);
+        for (const name of data.missing_fields) {
+          const field = EXTERNAL_FIELD_NAMES[name.toLowerCase()];
+          if (field) {
+            confidences[field] = EXTERNAL_PARTIAL_FIELD_CONFIDENCE;
+          }
+        }
+        // A full name built from a partly read first or last name is no better than its parts
+        if (!data.full_name && (confidences.firstName || confidences.lastName)) {
+          confidences.fullName = EXTERNAL_PARTIAL_FIELD_CONFIDENCE;
+        }
       }
 
       console.log('[OCRService] External OCR extracted data:', extractedData);
 
-      return extractedData;
+      return withFieldConfidence(extractedData, 'external_api', confidences);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         console.error('[OCRService] External OCR API request failed:', error.message);
@@ -557,7 +599,7 @@ export class OCRService {
    * Extract document data from cached Document AI entities
    * This avoids making a redundant Document AI API call when detection already extracted the data
    */
-  private extractFromCachedEntities(entities: DocumentAiEntity[]): ExtractedDocumentData {
+  extractFromCachedEntities(entities: DocumentAiEntity[]): ExtractedDocumentData {
     console.log('[OCRService] Processing', entities.length, 'cached Document AI entities');
 
     const extractedData: ExtractedDocumentData = {
@@ -571,6 +613,13 @@ export class OCRService {
       province?: string;
       postalCode?: string;
     } = {};
+    // Per-field entity confidences; address components share the lowest
+    const confidences: Record<string, number> = {};
+    const recordConfidence = (field: string, confidence: number | null | undefined) => {
+      if (confidence) {
+        confidences[field] = Math.min(confidences[field] ?? 1, confidence);
+      }
+    };
 
     for (const entity of entities) {
       const entityType = entity.type.toLowerCase().replace(/\s+/g, '_');
@@ -591,6 +640,7 @@ export class OCRService {
         } else if (entityType === 'postal_code' || entityType === 'postalcode' || entityType === 'zip') {
           addressComponents.postalCode = mentionText;
         }
+        recordConfidence('address', entity.confidence);
         continue;
       }
 
@@ -637,6 +687,7 @@ export class OCRService {
       if (entity.confidence) {
         extractedData.confidence = Math.min(extractedData.confidence || 1, entity.confidence);
       }
+      recordConfidence(mappedField, entity.confidence);
     }
 
     // Construct full name from first and last name
@@ -644,6 +695,8 @@ export class OCRService {
       extractedData.fullName = [extractedData.firstName, extractedData.lastName]
         .filter(Boolean)
         .join(' ');
+      recordConfidence('fullName', confidences.firstName);
+      recordConfidence('fullName', confidences.lastName);
     }
 
     // Construct address from components
@@ -659,26 +712,31 @@ export class OCRService {
 
     console.log('[OCRService] Extracted data from cached entities:', extractedData);
 
-    return extractedData;
+    return withFieldConfidence(extractedData, 'document_ai_cache', confidences);
   }
 
-  private getProcessorIdForDocumentType(documentType: DocumentType): string | null {
+  /**
+   * Document AI processor for a document type. A US issuing country prefers the
+   * US processors; otherwise the Canadian ones come first.
+   */
+  getProcessorIdForDocumentType(documentType: DocumentType, country?: string | null): string | null {
     const docAiConfig = config.googleCloud.documentAi;
+    const preferUs = country?.toUpperCase() === 'USA';
 
     switch (documentType) {
-      case DocumentType.DRIVERS_LICENSE:
-        // Prefer Canadian processor, fall back to US, then generic
-        return docAiConfig.caDriversLicenseProcessorId ||
-               docAiConfig.usDriversLicenseProcessorId ||
-               docAiConfig.genericIdProcessorId ||
-               null;
+      case DocumentType.DRIVERS_LICENSE: {
+        const [first, second] = preferUs
+          ? [docAiConfig.usDriversLicenseProcessorId, docAiConfig.caDriversLicenseProcessorId]
+          : [docAiConfig.caDriversLicenseProcessorId, docAiConfig.usDriversLicenseProcessorId];
+        return first || second || docAiConfig.genericIdProcessorId || null;
+      }
 
-      case DocumentType.PASSPORT:
-        // Prefer Canadian processor, fall back to US, then generic
-        return docAiConfig.caPassportProcessorId ||
-               docAiConfig.usPassportProcessorId ||
-               docAiConfig.genericIdProcessorId ||
-               null;
+      case DocumentType.PASSPORT: {
+        const [first, second] = preferUs
+          ? [docAiConfig.usPassportProcessorId, docAiConfig.caPassportProcessorId]
+          : [docAiConfig.caPassportProcessorId, docAiConfig.usPassportProcessorId];
+        return first || second || docAiConfig.genericIdProcessorId || null;
+      }
 
       case DocumentType.NATIONAL_ID:
       case DocumentType.RESIDENCE_PERMIT:
@@ -691,7 +749,7 @@ export class OCRService {
     }
   }
 
-  private async extractWithDocumentAi(
+  async extractWithDocumentAi(
     imageBuffer: Buffer,
     _documentType: DocumentType,
     processorId: string
@@ -732,6 +790,13 @@ export class OCRService {
       province?: string;
       postalCode?: string;
     } = {};
+    // Per-field entity confidences; address components share the lowest
+    const confidences: Record<string, number> = {};
+    const recordConfidence = (field: string, confidence: number | null | undefined) => {
+      if (confidence) {
+        confidences[field] = Math.min(confidences[field] ?? 1, confidence);
+      }
+    };
 
     for (const entity of document.entities) {
       const entityType = entity.type?.toLowerCase().replace(/\s+/g, '_') || '';
@@ -752,6 +817,7 @@ export class OCRService {
         } else if (entityType === 'postal_code' || entityType === 'postalcode' || entityType === 'zip') {
           addressComponents.postalCode = mentionText;
         }
+        recordConfidence('address', entity.confidence);
         continue;
       }
 
@@ -798,6 +864,7 @@ export class OCRService {
       if (entity.confidence) {
         extractedData.confidence = Math.min(extractedData.confidence || 1, entity.confidence);
       }
+      recordConfidence(mappedField, entity.confidence);
     }
 
     // Construct full name from first and last name
@@ -805,6 +872,8 @@ export class OCRService {
       extractedData.fullName = [extractedData.firstName, extractedData.lastName]
         .filter(Boolean)
         .join(' ');
+      recordConfidence('fullName', confidences.firstName);
+      recordConfidence('fullName', confidences.lastName);
     }
 
     // Construct address from components
@@ -820,7 +889,7 @@ export class OCRService {
 
     console.log('[OCRService] Document AI extracted data:', extractedData);
 
-    return extractedData;
+    return withFieldConfidence(extractedData, 'document_ai', confidences);
   }
 
   private extractDateValue(normalizedValue: any, mentionText: string): string {
@@ -944,24 +1013,19 @@ export class OCRService {
   private parsePassport(text: string, confidence: number): ExtractedDocumentData {
     const data: ExtractedDocumentData = { confidence };
 
-    const mrzMatch = text.match(/P<[A-Z]{3}([A-Z<]+)<<([A-Z<]+)<+\n([A-Z0-9<]+)/);
-    if (mrzMatch) {
-      data.mrz = mrzMatch[0];
-      data.lastName = mrzMatch[1].replace(/</g, ' ').trim();
-      data.firstName = mrzMatch[2].replace(/</g, ' ').trim();
-      data.fullName = `${data.firstName} ${data.lastName}`;
-
-      const mrzLine2 = mrzMatch[3];
-      data.documentNumber = mrzLine2.substring(0, 9).replace(/</g, '');
-      data.nationality = mrzLine2.substring(10, 13);
-
-      const dobStr = mrzLine2.substring(13, 19);
-      data.dateOfBirth = this.parseMRZDate(dobStr);
-
-      const expiryStr = mrzLine2.substring(21, 27);
-      data.expiryDate = this.parseMRZDate(expiryStr);
-
-      data.gender = mrzLine2.charAt(20);
+    const mrzLines = mrzParser.extractLines(text);
+    const mrz = mrzLines ? mrzParser.parse(mrzLines.join('\n')) : null;
+    if (mrz) {
+      data.mrz = mrz.lines.join('\n');
+      data.lastName = mrz.lastName;
+      data.firstName = mrz.firstName;
+      data.fullName = mrz.fullName;
+      data.documentNumber = mrz.documentNumber;
+      data.nationality = mrz.nationality;
+      data.issuingCountry = mrz.issuingCountry;
+      data.dateOfBirth = mrz.dateOfBirth || undefined;
+      data.expiryDate = mrz.expiryDate || undefined;
+      data.gender = mrz.sex || undefined;
     } else {
       const nameMatch = text.match(/(?:Surname|Given Names)[:\s]+([A-Z\s]+)/gi);
       if (nameMatch && nameMatch.length >= 2) {
@@ -1221,27 +1285,10 @@ export class OCRService {
     return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
   }
 
-  private parseMRZDate(mrzDate: string): string {
-    const year = mrzDate.substring(0, 2);
-    const month = mrzDate.substring(2, 4);
-    const day = mrzDate.substring(4, 6);
-
-    const currentYear = new Date().getFullYear();
-    const century = parseInt(year, 10) > (currentYear % 100) ? '19' : '20';
-
-    return `${century}${year}-${month}-${day}`;
-  }
-
+  /**
+   * Validate a full MRZ, including every ICAO 9303 check digit
+   */
   async validateMRZ(mrz: string): Promise<boolean> {
-    const lines = mrz.split('\n');
-    if (lines.length < 2) return false;
-
-    for (const line of lines) {
-      if (!/^[A-Z0-9<]+$/.test(line)) {
-        return false;
-      }
-    }
-
-    return true;
+    return mrzParser.parse(mrz)?.valid ?? false;
   }
 }
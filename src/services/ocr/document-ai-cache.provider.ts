@@ -0,0 +1,20 @@
+import { ExtractedDocumentData } from '../../types/verification.types';
+import type { OCRService } from '../ocr.service';
+import { OcrProvider, OcrRequest } from './ocr-provider.types';
+
+/**
+ * Document AI entities already returned by document detection, which saves a second API call
+ */
+export class DocumentAiCacheOcrProvider implements OcrProvider {
+  readonly name = 'document_ai_cache';
+
+  constructor(private ocrService: OCRService) {}
+
+  isAvailable(request: OcrRequest): boolean {
+    return !!request.cachedDocumentAiEntities?.length;
+  }
+
+  async extract(_imageBuffer: Buffer, request: OcrRequest): Promise<ExtractedDocumentData> {
+    return this.ocrService.extractFromCachedEntities(request.cachedDocumentAiEntities!);
+  }
+}
@@ -0,0 +1,22 @@
+import { ExtractedDocumentData } from '../../types/verification.types';
+import type { OCRService } from '../ocr.service';
+import { OcrProvider, OcrRequest } from './ocr-provider.types';
+
+/**
+ * Google Document AI, using the processor configured for the document type and country
+ */
+export class DocumentAiOcrProvider implements OcrProvider {
+  readonly name = 'document_ai';
+
+  constructor(private ocrService: OCRService) {}
+
+  isAvailable(request: OcrRequest): boolean {
+    return this.ocrService.hasDocumentAi() &&
+      !!this.ocrService.getProcessorIdForDocumentType(request.documentType, request.country);
+  }
+
+  extract(imageBuffer: Buffer, request: OcrRequest): Promise<ExtractedDocumentData> {
+    const processorId = this.ocrService.getProcessorIdForDocumentType(request.documentType, request.country)!;
+    return this.ocrService.extractWithDocumentAi(imageBuffer, request.documentType, processorId);
+  }
+}
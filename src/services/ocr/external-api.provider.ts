@@ -0,0 +1,21 @@
+import { config } from '../../config';
+import { ExtractedDocumentData } from '../../types/verification.types';
+import type { OCRService } from '../ocr.service';
+import { OcrProvider, OcrRequest } from './ocr-provider.types';
+
+/**
+ * The external Document OCR API (config.documentOcr)
+ */
+export class ExternalApiOcrProvider implements OcrProvider {
+  readonly name = 'external_api';
+
+  constructor(private ocrService: OCRService) {}
+
+  isAvailable(_request: OcrRequest): boolean {
+    return !!(config.documentOcr.apiUrl && config.documentOcr.apiKey);
+  }
+
+  extract(imageBuffer: Buffer, _request: OcrRequest): Promise<ExtractedDocumentData> {
+    return this.ocrService.extractWithExternalOcr(imageBuffer);
+  }
+}
@@ -0,0 +1,21 @@
+import { ExtractedDocumentData } from '../../types/verification.types';
+import type { OCRService } from '../ocr.service';
+import { OcrProvider, OcrRequest } from './ocr-provider.types';
+
+/**
+ * Google Cloud Vision text detection, parsed with the per-type regex parsers
+ */
+export class GoogleVisionOcrProvider implements OcrProvider {
+  readonly name = 'google_vision';
+
+  constructor(private ocrService: OCRService) {}
+
+  isAvailable(_request: OcrRequest): boolean {
+    return this.ocrService.hasGoogleVision();
+  }
+
+  async extract(imageBuffer: Buffer, request: OcrRequest): Promise<ExtractedDocumentData> {
+    const { text, confidence } = await this.ocrService.extractTextWithGoogleVision(imageBuffer);
+    return this.ocrService.parseDocumentText(text, confidence, request.documentType);
+  }
+}
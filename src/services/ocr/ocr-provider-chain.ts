@@ -0,0 +1,156 @@
+import { config } from '../../config';
+import { ExtractedDocumentData } from '../../types/verification.types';
+import { withFieldConfidence } from '../../utils/field-confidence';
+import { OcrChainResult, OcrProvider, OcrProviderAttempt, OcrRequest } from './ocr-provider.types';
+
+interface CircuitState {
+  failures: number; // consecutive failures and timeouts
+  openUntil: number;
+}
+
+class OcrTimeoutError extends Error {}
+
+/**
+ * Whether extracted data is worth keeping: a name or a document number
+ */
+function isUsable(data: ExtractedDocumentData | null | undefined): data is ExtractedDocumentData {
+  return !!data && !!(data.fullName || (data.firstName && data.lastName) || data.documentNumber);
+}
+
+/**
+ * Runs OCR providers in the order configured for the document type and
+ * country until one returns usable data. Each provider gets its own timeout,
+ * and a provider that keeps failing is skipped until its cooldown ends.
+ */
+export class OcrProviderChain {
+  private providers = new Map<string, OcrProvider>();
+  private circuits = new Map<string, CircuitState>();
+
+  register(provider: OcrProvider): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`OCR provider "${provider.name}" is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  getRegisteredProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Provider names to try, most specific override first:
+   * "TYPE:COUNTRY", "TYPE", "*:COUNTRY", then the default order
+   */
+  resolveOrder(request: OcrRequest): string[] {
+    const overrides = config.ocr.providerOrderOverrides;
+    const country = request.country?.toUpperCase();
+    const keys = [
+      country ? `${request.documentType}:${country}` : null,
+      request.documentType,
+      country ? `*:${country}` : null
+    ];
+
+    for (const key of keys) {
+      if (key && Array.isArray(overrides[key])) return overrides[key];
+    }
+    return config.ocr.providerOrder;
+  }
+
+  async extract(imageBuffer: Buffer, request: OcrRequest): Promise<OcrChainResult> {
+    const attempts: OcrProviderAttempt[] = [];
+    // Data from a provider that answered without a name or document number, kept in case nothing does better
+    let fallback: { data: ExtractedDocumentData; provider: string } | null = null;
+
+    for (const name of this.resolveOrder(request)) {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        console.warn(`[OcrProviderChain] Unknown OCR provider "${name}" in configured order`);
+        continue;
+      }
+      if (!provider.isAvailable(request)) continue;
+
+      if (this.isOpen(name)) {
+        attempts.push({ provider: name, status: 'circuit_open', durationMs: 0 });
+        console.log(`[OcrProviderChain] ${name}: skipped, circuit open`);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const extracted = await this.withTimeout(provider.extract(imageBuffer, request), this.timeoutFor(provider));
+        const durationMs = Date.now() - startedAt;
+        // Fields the provider gave no confidence of their own get its overall confidence
+        const data = extracted && withFieldConfidence(extracted, name);
+        this.recordSuccess(name);
+
+        if (isUsable(data)) {
+          attempts.push({ provider: name, status: 'succeeded', durationMs });
+          console.log(`[OcrProviderChain] ${name}: succeeded in ${durationMs}ms`);
+          return { data, provider: name, attempts };
+        }
+
+        // The provider works but could not read this document; try the next one without tripping the circuit
+        attempts.push({ provider: name, status: 'unusable', durationMs });
+        console.log(`[OcrProviderChain] ${name}: no name or document number found in ${durationMs}ms`);
+        if (data && !fallback) fallback = { data, provider: name };
+      } catch (error) {
+        const timedOut = error instanceof OcrTimeoutError;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        attempts.push({
+          provider: name,
+          status: timedOut ? 'timeout' : 'failed',
+          durationMs: Date.now() - startedAt,
+          error: message
+        });
+        console.error(`[OcrProviderChain] ${name}: ${timedOut ? 'timed out' : 'failed'} - ${message}`);
+        this.recordFailure(name);
+      }
+    }
+
+    if (fallback) {
+      return { ...fallback, attempts };
+    }
+
+    const summary = attempts.map(a => `${a.provider}: ${a.error || a.status}`).join('; ');
+    throw new Error(`No OCR provider could read the document${summary ? ` (${summary})` : ''}`);
+  }
+
+  private timeoutFor(provider: OcrProvider): number {
+    return config.ocr.providerTimeouts[provider.name] ?? provider.timeoutMs ?? config.ocr.providerTimeoutMs;
+  }
+
+  /**
+   * The provider call keeps running after a timeout; its result is ignored
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new OcrTimeoutError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Open while the cooldown runs; afterwards one call is let through and
+   * another failure opens the circuit again
+   */
+  private isOpen(name: string): boolean {
+    const circuit = this.circuits.get(name);
+    return !!circuit && circuit.openUntil > Date.now();
+  }
+
+  private recordSuccess(name: string): void {
+    this.circuits.delete(name);
+  }
+
+  private recordFailure(name: string): void {
+    const circuit = this.circuits.get(name) || { failures: 0, openUntil: 0 };
+    circuit.failures++;
+    if (circuit.failures >= config.ocr.circuitFailureThreshold) {
+      circuit.openUntil = Date.now() + config.ocr.circuitCooldownMs;
+      console.warn(`[OcrProviderChain] ${name} failed ${circuit.failures} times in a row, skipping it for ${config.ocr.circuitCooldownMs}ms`);
+    }
+    this.circuits.set(name, circuit);
+  }
+}
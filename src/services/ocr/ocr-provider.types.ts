@@ -0,0 +1,34 @@
+import { DocumentType, ExtractedDocumentData } from '../../types/verification.types';
+import { DocumentAiEntity } from '../document-scanner.service';
+
+export interface OcrRequest {
+  documentType: DocumentType;
+  country?: string | null; // ISO 3166-1 alpha-3 issuing country hint, when the applicant gave one
+  cachedDocumentAiEntities?: DocumentAiEntity[];
+}
+
+export interface OcrProvider {
+  readonly name: string;
+  readonly timeoutMs?: number; // default when config.ocr.providerTimeouts has no entry
+  /**
+   * Whether the provider can handle this request at all (configured, has a
+   * processor for the type, ...). Unavailable providers are passed over silently.
+   */
+  isAvailable(request: OcrRequest): boolean;
+  extract(imageBuffer: Buffer, request: OcrRequest): Promise<ExtractedDocumentData>;
+}
+
+export type OcrAttemptStatus = 'succeeded' | 'unusable' | 'failed' | 'timeout' | 'circuit_open';
+
+export interface OcrProviderAttempt {
+  provider: string;
+  status: OcrAttemptStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface OcrChainResult {
+  data: ExtractedDocumentData;
+  provider: string; // the provider that produced data
+  attempts: OcrProviderAttempt[];
+}
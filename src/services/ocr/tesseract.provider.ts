@@ -0,0 +1,22 @@
+import { ExtractedDocumentData } from '../../types/verification.types';
+import type { OCRService } from '../ocr.service';
+import { OcrProvider, OcrRequest } from './ocr-provider.types';
+
+/**
+ * Local Tesseract.js OCR. Always available, so it belongs last in the order.
+ */
+export class TesseractOcrProvider implements OcrProvider {
+  readonly name = 'tesseract';
+  readonly timeoutMs = 60000; // runs on the API server's CPU
+
+  constructor(private ocrService: OCRService) {}
+
+  isAvailable(_request: OcrRequest): boolean {
+    return true;
+  }
+
+  async extract(imageBuffer: Buffer, request: OcrRequest): Promise<ExtractedDocumentData> {
+    const { text, confidence } = await this.ocrService.extractTextWithTesseract(imageBuffer);
+    return this.ocrService.parseDocumentText(text, confidence, request.documentType);
+  }
+}
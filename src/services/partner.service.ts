@@ -5,11 +5,19 @@ import crypto from 'crypto';
 import { config } from '../config';
 import { EmailService } from './email.service';
 import { s3Service } from './s3.service';
+import { formatCheckRuns } from './checks/check-pipeline';
+import { formatAttempts, latestAttemptChecks } from './verification-attempt.service';
+import { VerificationStateService, initialStatusChange } from './verification-state.service';
+import { VerificationOptions } from '../types/verification.types';
 import { logger } from '../utils/logger';
 import { generateVerificationLink } from '../utils/crypto';
+import { verificationOptionsData, verificationOptionsFrom } from '../utils/verification-options';
+import { withholdDateOfBirth } from '../utils/redact';
+import { SANDBOX_KEY_PREFIX } from './sandbox.service';
 
 const prisma = new PrismaClient();
 const emailService = new EmailService();
+const verificationStateService = new VerificationStateService();
 
 interface RegisterPartnerData {
   email: string;
@@ -209,6 +217,7 @@ export class PartnerService {
       tier: partner.tier,
       apiKey: partner.apiKey,
       apiSecret: partner.apiSecret,
+      sandboxApiKey: partner.sandboxApiKey,
       verificationsUsed: partner.verificationsUsed,
       isActive: partner.isActive,
       createdAt: partner.createdAt,
@@ -270,6 +279,7 @@ export class PartnerService {
       tier: updatedPartner.tier,
       apiKey: updatedPartner.apiKey,
       apiSecret: updatedPartner.apiSecret,
+      sandboxApiKey: updatedPartner.sandboxApiKey,
       verificationsUsed: updatedPartner.verificationsUsed,
       isActive: updatedPartner.isActive,
       createdAt: updatedPartner.createdAt,
@@ -332,6 +342,20 @@ export class PartnerService {
     };
   }
 
+  /**
+   * Issue a new sandbox API key; the previous one stops working
+   */
+  async rotateSandboxApiKey(partnerId: string) {
+    const partner = await prisma.partner.update({
+      where: { id: partnerId },
+      data: { sandboxApiKey: `${SANDBOX_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}` }
+    });
+
+    logger.info(`[PartnerService] Sandbox API key issued for partner: ${partnerId}`);
+
+    return { sandboxApiKey: partner.sandboxApiKey };
+  }
+
   async getUsageStats(partnerId: string) {
     const partner = await prisma.partner.findUnique({
       where: { id: partnerId },
@@ -339,6 +363,7 @@ export class PartnerService {
         tier: true,
         verifications: {
           where: {
+            isSandbox: false,
             createdAt: {
               gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1)
             }
@@ -470,9 +495,12 @@ export class PartnerService {
     return freeTier;
   }
 
-  async getPartnerVerifications(partnerId: string) {
+  /**
+   * Live verifications of a partner, or its sandbox ones when options.sandbox is set
+   */
+  async getPartnerVerifications(partnerId: string, options: { sandbox?: boolean } = {}) {
     const verifications = await prisma.verification.findMany({
-      where: { partnerId },
+      where: { partnerId, isSandbox: !!options.sandbox },
       include: {
         results: true,
         documents: true,
@@ -485,7 +513,7 @@ export class PartnerService {
 
     // Map to include user info in response format
     return verifications.map(v => ({
-      ...v,
+      ...(v.withholdDob ? withholdDateOfBirth(v) : v),
       userName: v.user?.fullName,
       userEmail: v.user?.email,
       userPhone: v.user?.phone
@@ -498,6 +526,8 @@ export class PartnerService {
       include: {
         documents: true,
         results: true,
+        checks: true,
+        attempts: { include: { documents: true, checks: true } },
         user: true
       }
     });
@@ -562,7 +592,9 @@ export class PartnerService {
           hasGlare: doc.hasGlare,
           isComplete: doc.isComplete,
           ocrConfidence: doc.ocrConfidence,
+          ocrProvider: doc.ocrProvider,
           extractedData: doc.extractedData,
+          attemptId: doc.attemptId,
           createdAt: doc.createdAt
         };
       })
@@ -579,9 +611,13 @@ export class PartnerService {
       createdAt: verification.createdAt,
       updatedAt: verification.updatedAt,
       completedAt: verification.completedAt,
+      expiresAt: verification.expiresAt,
       retryCount: verification.retryCount,
       maxRetries: verification.maxRetries,
+      options: verificationOptionsFrom(verification),
       documents: documentsWithSignedUrls,
+      attempts: formatAttempts(verification.attempts, { includeChecks: true }),
+      checkRuns: formatCheckRuns(latestAttemptChecks(verification)),
       results: null
     };
 
@@ -603,7 +639,10 @@ export class PartnerService {
           livenessScore: r.livenessScore,
           nameMatch: r.nameMatch,
           dateOfBirthMatch: r.dateOfBirthMatch,
-          addressMatch: r.addressMatch
+          addressMatch: r.addressMatch,
+          addressMatchScore: r.addressMatchScore,
+          ageOverThreshold: r.ageOverThreshold,
+          age: r.age
         },
         extractedData: r.extractedData || {
           fullName: r.extractedName,
@@ -615,11 +654,35 @@ export class PartnerService {
         },
         flags: r.flags || [],
         warnings: r.warnings || [],
+        policyVersion: r.policyVersion,
         createdAt: r.createdAt
       };
     }
 
-    return response;
+    return verification.withholdDob ? withholdDateOfBirth(response) : response;
+  }
+
+  /**
+   * Status history of one of the partner's verifications
+   */
+  async getVerificationTimeline(partnerId: string, verificationId: string) {
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId }
+    });
+
+    if (!verification) {
+      throw new Error('Verification not found');
+    }
+
+    if (verification.partnerId !== partnerId) {
+      throw new Error('Unauthorized: Verification does not belong to this partner');
+    }
+
+    return {
+      verificationId,
+      status: verification.status,
+      timeline: await verificationStateService.getTimeline(verificationId, { hideAdminIds: true })
+    };
   }
 
   async requestVerification(partnerId: string, data: {
@@ -628,7 +691,7 @@ export class PartnerService {
     userPhone?: string;
     type: string;
     webhookUrl?: string;
-  }) {
+  } & VerificationOptions) {
     try {
       logger.info(`[PartnerService] Requesting verification for partner: ${partnerId}`);
 
@@ -687,7 +750,10 @@ export class PartnerService {
           userId: user.id,
           type: data.type as any,
           webhookUrl: data.webhookUrl,
-          status: 'PENDING'
+          status: 'PENDING',
+          ...verificationOptionsData(data),
+          attempts: { create: { number: 1 } },
+          statusChanges: initialStatusChange({ type: 'partner', id: partnerId })
         },
         include: {
           results: true,
@@ -1015,17 +1081,16 @@ export class PartnerService {
         throw new Error(`Retry count cannot exceed max retries (${verification.maxRetries})`);
       }
 
-      const updated = await prisma.verification.update({
-        where: { id: verificationId },
-        data: {
-          retryCount,
-          // If retry count is reset to less than max, and status is FAILED, set back to PENDING
-          status: retryCount < verification.maxRetries && verification.status === 'FAILED'
-            ? 'PENDING'
-            : verification.status,
-          updatedAt: new Date()
-        }
-      });
+      // If retry count is reset to less than max, and status is FAILED, set back to PENDING
+      const updated = retryCount < verification.maxRetries && verification.status === 'FAILED'
+        ? await verificationStateService.transition(verificationId, 'PENDING', { type: 'partner', id: partnerId }, {
+          reason: `Retry count set to ${retryCount}`,
+          data: { retryCount }
+        }) ?? await prisma.verification.findUniqueOrThrow({ where: { id: verificationId } })
+        : await prisma.verification.update({
+          where: { id: verificationId },
+          data: { retryCount }
+        });
 
       logger.info(`[PartnerService] Retry count updated successfully for verification ${verificationId}`);
 
@@ -138,6 +138,32 @@ export class S3Service {
     return this.uploadFile(buffer, key, contentType);
   }
 
+  /**
+   * Upload the corrected (flattened, deskewed, upright) image of a document to S3
+   */
+  async uploadProcessedDocument(
+    verificationId: string,
+    buffer: Buffer,
+    filename: string
+  ): Promise<UploadResult> {
+    const key = `verifications/${verificationId}/documents/processed/${filename}`;
+
+    return this.uploadFile(buffer, key, 'image/jpeg');
+  }
+
+  /**
+   * Upload an image forensics heatmap of a document to S3
+   */
+  async uploadForensicHeatmap(
+    verificationId: string,
+    buffer: Buffer,
+    filename: string
+  ): Promise<UploadResult> {
+    const key = `verifications/${verificationId}/forensics/${filename}`;
+
+    return this.uploadFile(buffer, key, 'image/png');
+  }
+
   /**
    * Get a pre-signed URL for temporary access to a private file
    * Default expiration increased to 8 hours to prevent URLs expiring during dashboard sessions
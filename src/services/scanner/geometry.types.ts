@@ -0,0 +1,22 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Document corners, clockwise from the top-left
+ */
+export type Quadrilateral = [Point, Point, Point, Point];
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface DocumentCorrection {
+  image: Buffer; // JPEG of the flattened, deskewed, upright document
+  corrected: boolean; // false when the upload was already flat and upright
+  // Outline found in the upload (after its EXIF orientation), in pixels; null when none was found
+  corners: Quadrilateral | null;
+  skewAngle: number; // degrees clockwise the text was tilted; only measured without an outline
+  rotation: Rotation; // clockwise turn applied to bring the text upright
+  width: number;
+  height: number;
+}
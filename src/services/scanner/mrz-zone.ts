@@ -0,0 +1,61 @@
+import { InkMap } from './orientation';
+
+// ICAO 9303 puts the machine readable zone in the bottom quarter of the data page
+const ZONE_FRACTION = 0.35;
+const MIN_LINE_SPAN = 0.7; // share of the page width an MRZ line runs across
+const MIN_LINE_FILL = 0.35; // share of the columns along the line that carry ink
+const MIN_MRZ_LINES = 2;
+
+/**
+ * Whether the bottom of an upright passport page carries a machine readable
+ * zone: two or more text lines running almost edge to edge in evenly spaced
+ * characters, which no other part of the page has
+ */
+export function hasMrzZone({ ink, width, height }: InkMap): boolean {
+  const top = Math.floor(height * (1 - ZONE_FRACTION));
+  const profile = new Float64Array(height - top);
+  for (let y = top; y < height; y++) {
+    for (let x = 0; x < width; x++) profile[y - top] += ink[y * width + x];
+  }
+  const maxProfile = Math.max(...profile);
+  if (maxProfile === 0) {
+    return false;
+  }
+
+  let lines = 0;
+  const lineThreshold = maxProfile * 0.25;
+  let y = 0;
+  while (y < profile.length) {
+    if (profile[y] < lineThreshold) {
+      y++;
+      continue;
+    }
+    const start = y;
+    while (y < profile.length && profile[y] >= lineThreshold) y++;
+
+    if (lineLooksLikeMrz(ink, width, top + start, top + y)) {
+      lines++;
+    }
+  }
+
+  return lines >= MIN_MRZ_LINES;
+}
+
+function lineLooksLikeMrz(ink: Uint8Array, width: number, from: number, to: number): boolean {
+  const columns = new Uint8Array(width);
+  for (let y = from; y < to; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ink[y * width + x]) columns[x] = 1;
+    }
+  }
+
+  const first = columns.indexOf(1);
+  const last = columns.lastIndexOf(1);
+  if (first < 0 || (last - first + 1) / width < MIN_LINE_SPAN) {
+    return false;
+  }
+
+  let filled = 0;
+  for (let x = first; x <= last; x++) filled += columns[x];
+  return filled / (last - first + 1) >= MIN_LINE_FILL;
+}
@@ -0,0 +1,226 @@
+import { Rotation } from './geometry.types';
+
+const MAX_SKEW = 15; // degrees
+const INK_CONTRAST = 20; // grey levels darker than the surroundings that count as ink
+const INK_WINDOW = 15; // half-size of the surroundings
+const MAX_SKEW_SAMPLES = 100000;
+// Column profile this much more uneven than the row profile means sideways text
+const SIDEWAYS_RATIO = 1.4;
+// Descender ink this much above ascender ink means upside-down text
+const UPSIDE_DOWN_RATIO = 1.3;
+const MIN_TEXT_LINES = 3;
+
+export interface InkMap {
+  ink: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Dark marks against their local surroundings: text, lines and the edges of the photo
+ */
+export function inkMap(gray: Uint8Array, width: number, height: number): InkMap {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - INK_WINDOW);
+    const bottom = Math.min(height, y + INK_WINDOW + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - INK_WINDOW);
+      const right = Math.min(width, x + INK_WINDOW + 1);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right] -
+                  integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      ink[y * width + x] = mean - gray[y * width + x] > INK_CONTRAST ? 1 : 0;
+    }
+  }
+
+  return { ink, width, height };
+}
+
+/**
+ * Angle (degrees, clockwise) the text lines are tilted by: the angle at which
+ * projecting the ink onto the vertical gives the sharpest line/gap profile.
+ */
+export function estimateSkew({ ink, width, height }: InkMap): number {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let total = 0;
+  for (let i = 0; i < ink.length; i++) total += ink[i];
+  const stride = Math.max(1, Math.ceil(total / MAX_SKEW_SAMPLES));
+  let seen = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ink[y * width + x] && seen++ % stride === 0) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) {
+    return 0;
+  }
+
+  const offset = width + height;
+  const sharpness = (degrees: number): number => {
+    const sin = Math.sin(degrees * Math.PI / 180);
+    const cos = Math.cos(degrees * Math.PI / 180);
+    const profile = new Float64Array(2 * offset + 1);
+    for (let i = 0; i < xs.length; i++) {
+      profile[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+    let squares = 0;
+    for (const count of profile) squares += count * count;
+    return squares;
+  };
+
+  let best = 0;
+  let bestSharpness = sharpness(0);
+  const search = (from: number, to: number, step: number) => {
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = sharpness(angle);
+      if (value > bestSharpness) {
+        best = angle;
+        bestSharpness = value;
+      }
+    }
+  };
+  search(-MAX_SKEW, MAX_SKEW, 0.5);
+  search(best - 0.5, best + 0.5, 0.1);
+
+  return Number(best.toFixed(1));
+}
+
+/**
+ * Clockwise rotation that brings the text upright. Text lines gather the ink
+ * in rows with empty gaps between them, while every column crosses several
+ * lines; if the columns are the more uneven profile, the text runs sideways. Upright
+ * Latin text has more ascenders than descenders, so ink above the line
+ * cores outweighs ink below them. Without clear evidence the image is left as it is.
+ */
+export function detectTextRotation(map: InkMap): Rotation {
+  const sideways = profileStructure(columnProfile(map)) > profileStructure(rowProfile(map)) * SIDEWAYS_RATIO;
+  const turned = sideways ? rotateClockwise(map) : map;
+  const upsideDown = isUpsideDown(turned);
+
+  if (sideways) {
+    return upsideDown ? 270 : 90;
+  }
+  return upsideDown ? 180 : 0;
+}
+
+function rowProfile({ ink, width, height }: InkMap): Float64Array {
+  const profile = new Float64Array(height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) profile[y] += ink[y * width + x];
+  }
+  return profile;
+}
+
+function columnProfile({ ink, width, height }: InkMap): Float64Array {
+  const profile = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) profile[x] += ink[y * width + x];
+  }
+  return profile;
+}
+
+/**
+ * Variance of a profile relative to its squared mean: how much the ink gathers
+ * in some rows (or columns) and leaves others empty
+ */
+function profileStructure(profile: Float64Array): number {
+  let sum = 0;
+  let squares = 0;
+  for (const value of profile) {
+    sum += value;
+    squares += value * value;
+  }
+  const mean = sum / profile.length;
+  return mean > 0 ? squares / profile.length / (mean * mean) - 1 : 0;
+}
+
+function isUpsideDown(map: InkMap): boolean {
+  const maxLineHeight = map.height / 6;
+  const profile = rowProfile(withoutTallStrokes(map, maxLineHeight / 2));
+  const maxProfile = Math.max(...profile);
+  if (maxProfile === 0) {
+    return false;
+  }
+
+  let above = 0;
+  let below = 0;
+  let lines = 0;
+  const lineThreshold = maxProfile * 0.15;
+  const gapThreshold = maxProfile * 0.02;
+
+  let y = 0;
+  while (y < profile.length) {
+    if (profile[y] < lineThreshold) {
+      y++;
+      continue;
+    }
+
+    // A line runs until the gap to the next; its core is where the ink is densest
+    let start = y;
+    while (start > 0 && profile[start - 1] > gapThreshold) start--;
+    let end = y;
+    while (end < profile.length - 1 && profile[end + 1] > gapThreshold) end++;
+    y = end + 1;
+    if (end - start + 1 > maxLineHeight) continue;
+
+    let peak = 0;
+    for (let row = start; row <= end; row++) peak = Math.max(peak, profile[row]);
+    let coreStart = start;
+    while (profile[coreStart] < peak * 0.5) coreStart++;
+    let coreEnd = end;
+    while (profile[coreEnd] < peak * 0.5) coreEnd--;
+
+    for (let row = start; row < coreStart; row++) above += profile[row];
+    for (let row = coreEnd + 1; row <= end; row++) below += profile[row];
+    lines++;
+  }
+
+  return lines >= MIN_TEXT_LINES && below > above * UPSIDE_DOWN_RATIO;
+}
+
+/**
+ * Ink map without vertical strokes taller than a line of text: photo borders,
+ * card edges and table rules would otherwise join the lines together
+ */
+function withoutTallStrokes({ ink, width, height }: InkMap, maxStroke: number): InkMap {
+  const filtered = Uint8Array.from(ink);
+  for (let x = 0; x < width; x++) {
+    let runStart = -1;
+    for (let y = 0; y <= height; y++) {
+      const isInk = y < height && ink[y * width + x] === 1;
+      if (isInk && runStart < 0) {
+        runStart = y;
+      } else if (!isInk && runStart >= 0) {
+        if (y - runStart > maxStroke) {
+          for (let row = runStart; row < y; row++) filtered[row * width + x] = 0;
+        }
+        runStart = -1;
+      }
+    }
+  }
+  return { ink: filtered, width, height };
+}
+
+function rotateClockwise({ ink, width, height }: InkMap): InkMap {
+  const rotated = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rotated[x * height + (height - 1 - y)] = ink[y * width + x];
+    }
+  }
+  return { ink: rotated, width: height, height: width };
+}
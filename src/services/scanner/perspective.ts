@@ -0,0 +1,91 @@
+import { Quadrilateral } from './geometry.types';
+
+/**
+ * Size of the flattened document: the longer of each pair of opposite sides
+ */
+export function flattenedSize(corners: Quadrilateral): { width: number; height: number } {
+  const length = (a: number, b: number) => Math.hypot(corners[b].x - corners[a].x, corners[b].y - corners[a].y);
+  return {
+    width: Math.round(Math.max(length(0, 1), length(3, 2))),
+    height: Math.round(Math.max(length(0, 3), length(1, 2)))
+  };
+}
+
+/**
+ * Map the quadrilateral of a raw image onto a rectangle of the given size,
+ * sampling the source bilinearly through the inverse homography.
+ */
+export function warpPerspective(
+  source: Buffer,
+  width: number,
+  height: number,
+  channels: number,
+  corners: Quadrilateral,
+  outWidth: number,
+  outHeight: number
+): Buffer {
+  const h = homography(
+    [{ x: 0, y: 0 }, { x: outWidth - 1, y: 0 }, { x: outWidth - 1, y: outHeight - 1 }, { x: 0, y: outHeight - 1 }],
+    corners
+  );
+  const output = Buffer.alloc(outWidth * outHeight * channels);
+
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      const w = h[6] * u + h[7] * v + 1;
+      const x = Math.min(width - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const y = Math.min(height - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      for (let c = 0; c < channels; c++) {
+        const top = source[(y0 * width + x0) * channels + c] * (1 - fx) + source[(y0 * width + x1) * channels + c] * fx;
+        const bottom = source[(y1 * width + x0) * channels + c] * (1 - fx) + source[(y1 * width + x1) * channels + c] * fx;
+        output[(v * outWidth + u) * channels + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Homography taking each of the four `from` points to the matching `to` point,
+ * as the first eight entries of the 3x3 matrix (the ninth is 1)
+ */
+function homography(from: Quadrilateral, to: Quadrilateral): number[] {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-12) {
+      throw new Error('Degenerate document outline');
+    }
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+}
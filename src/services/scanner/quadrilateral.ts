@@ -0,0 +1,289 @@
+import { Point, Quadrilateral } from './geometry.types';
+
+// Degrees either side of its gradient direction an edge pixel votes for
+const GRADIENT_WINDOW = 6;
+const MIN_EDGE_MAGNITUDE = 40;
+// Share of pixels kept as edges, strongest first
+const EDGE_FRACTION = 0.25;
+const MAX_LINES = 24;
+// Lines closer than this (degrees, pixels) are the same edge
+const SAME_LINE_ANGLE = 4;
+const SAME_LINE_DISTANCE = 8;
+// Opposite sides of a document photographed at an angle are no longer parallel
+const MAX_SIDE_CONVERGENCE = 25;
+const MIN_CORNER_ANGLE = 50;
+const MIN_AREA_FRACTION = 0.15;
+// Corners may fall this far outside the frame (a corner cut off by the photo)
+const CORNER_MARGIN = 0.05;
+// Share of each side that must lie on an edge; fingers holding the card cover part of it
+const MIN_SIDE_COVERAGE = 0.5;
+const MIN_MEAN_COVERAGE = 0.7;
+// Degrees an edge pixel's normal may differ from the side's to count for it
+const EDGE_DIRECTION_TOLERANCE = 20;
+
+interface Line {
+  angle: number; // degrees of the line normal, 0-179
+  distance: number; // signed distance of the line from the origin
+  votes: number;
+}
+
+/**
+ * Find the document outline in a raw image (grey or colour). Straight edges are found
+ * with a Hough transform, each edge pixel voting only for lines along its own
+ * gradient; of every four lines that close a plausible quadrilateral, the one
+ * whose sides are best covered by edges (and then the largest) is the document.
+ * Returns null when no outline stands out, e.g. a scan or a photo cropped to the card.
+ */
+export function findDocumentQuadrilateral(pixels: Uint8Array, width: number, height: number, channels: number): Quadrilateral | null {
+  const edges = detectEdges(pixels, width, height, channels);
+  const lines = houghLines(edges.points, width, height);
+  if (lines.length < 4) {
+    return null;
+  }
+
+  const minSide = Math.min(width, height);
+  const pairs: Array<[Line, Line]> = [];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      const { difference, flipped } = angleDifference(lines[i].angle, lines[j].angle);
+      const separation = Math.abs(lines[i].distance - (flipped ? -lines[j].distance : lines[j].distance));
+      if (difference <= MAX_SIDE_CONVERGENCE && separation >= minSide * 0.2) {
+        pairs.push([lines[i], lines[j]]);
+      }
+    }
+  }
+
+  let best: { corners: Quadrilateral; score: number } | null = null;
+
+  for (let p = 0; p < pairs.length; p++) {
+    for (let q = p + 1; q < pairs.length; q++) {
+      const [a, b] = pairs[p];
+      const [c, d] = pairs[q];
+      if (angleDifference(a.angle, c.angle).difference < MIN_CORNER_ANGLE) continue;
+
+      const points = [intersect(a, c), intersect(c, b), intersect(b, d), intersect(d, a)];
+      if (points.some(point => point === null)) continue;
+      const corners = orderCorners(points as Point[]);
+      if (!isPlausible(corners, width, height)) continue;
+
+      const coverage = corners.map((corner, i) => sideCoverage(edges.normals, width, height, corner, corners[(i + 1) % 4]));
+      const meanCoverage = coverage.reduce((sum, value) => sum + value, 0) / 4;
+      if (Math.min(...coverage) < MIN_SIDE_COVERAGE || meanCoverage < MIN_MEAN_COVERAGE) continue;
+
+      // Prefer the outer card over the photo or text boxes printed on it
+      const score = meanCoverage + 0.5 * polygonArea(corners) / (width * height);
+      if (!best || score > best.score) {
+        best = { corners, score };
+      }
+    }
+  }
+
+  return best?.corners ?? null;
+}
+
+/**
+ * Sobel edges thinned to one pixel along the gradient, keeping the strongest
+ * share. Each pixel takes the gradient of its strongest channel: a blue card
+ * on a brown table can be the same grey.
+ */
+function detectEdges(pixels: Uint8Array, width: number, height: number, channels: number) {
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+  const histogram = new Uint32Array(1500);
+  let counted = 0;
+  const row = width * channels;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      for (let c = 0; c < channels; c++) {
+        const p = i * channels + c;
+        const dx = pixels[p - row + channels] + 2 * pixels[p + channels] + pixels[p + row + channels] -
+                   pixels[p - row - channels] - 2 * pixels[p - channels] - pixels[p + row - channels];
+        const dy = pixels[p + row - channels] + 2 * pixels[p + row] + pixels[p + row + channels] -
+                   pixels[p - row - channels] - 2 * pixels[p - row] - pixels[p - row + channels];
+        const channelMagnitude = Math.hypot(dx, dy);
+        if (channelMagnitude > magnitude[i]) {
+          gx[i] = dx;
+          gy[i] = dy;
+          magnitude[i] = channelMagnitude;
+        }
+      }
+      histogram[Math.min(histogram.length - 1, Math.round(magnitude[i]))]++;
+      counted++;
+    }
+  }
+
+  let threshold = histogram.length - 1;
+  for (let kept = 0; threshold > MIN_EDGE_MAGNITUDE && kept < counted * EDGE_FRACTION; threshold--) {
+    kept += histogram[threshold];
+  }
+
+  // Direction of the edge normal (0-179 degrees) at edge pixels, -1 elsewhere
+  const normals = new Float32Array(width * height).fill(-1);
+  const points: Array<{ x: number; y: number; angle: number }> = [];
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const i = y * width + x;
+      if (magnitude[i] < threshold) continue;
+
+      // Non-maximum suppression across the edge
+      const angle = Math.atan2(gy[i], gx[i]) * 180 / Math.PI;
+      const sector = Math.round(((angle + 180) % 180) / 45) % 4;
+      const offset = [1, width + 1, width, width - 1][sector];
+      if (magnitude[i] < magnitude[i - offset] || magnitude[i] < magnitude[i + offset]) continue;
+
+      normals[i] = (angle + 180) % 180;
+      points.push({ x, y, angle });
+    }
+  }
+
+  return { normals, points };
+}
+
+function houghLines(points: Array<{ x: number; y: number; angle: number }>, width: number, height: number): Line[] {
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const distances = 2 * diagonal + 1;
+  const accumulator = new Uint32Array(180 * distances);
+  const cos = Array.from({ length: 180 }, (_, t) => Math.cos(t * Math.PI / 180));
+  const sin = Array.from({ length: 180 }, (_, t) => Math.sin(t * Math.PI / 180));
+
+  for (const { x, y, angle } of points) {
+    const normal = Math.round(angle);
+    for (let t = normal - GRADIENT_WINDOW; t <= normal + GRADIENT_WINDOW; t++) {
+      const theta = ((t % 180) + 180) % 180;
+      const distance = Math.round(x * cos[theta] + y * sin[theta]);
+      accumulator[theta * distances + distance + diagonal]++;
+    }
+  }
+
+  const minVotes = Math.min(width, height) * 0.1;
+  const candidates: Line[] = [];
+  for (let theta = 0; theta < 180; theta++) {
+    for (let r = 0; r < distances; r++) {
+      const votes = accumulator[theta * distances + r];
+      if (votes >= minVotes) {
+        candidates.push({ angle: theta, distance: r - diagonal, votes });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.votes - a.votes);
+
+  const lines: Line[] = [];
+  for (const candidate of candidates) {
+    const duplicate = lines.some(line => {
+      const { difference, flipped } = angleDifference(line.angle, candidate.angle);
+      const distance = flipped ? -candidate.distance : candidate.distance;
+      return difference <= SAME_LINE_ANGLE && Math.abs(line.distance - distance) <= SAME_LINE_DISTANCE;
+    });
+    if (duplicate) continue;
+    lines.push(candidate);
+    if (lines.length === MAX_LINES) break;
+  }
+
+  return lines;
+}
+
+/**
+ * Angle between two line normals, 0-90. A line at 179° is the line at -1°
+ * with its distance negated, reported as flipped.
+ */
+function angleDifference(a: number, b: number): { difference: number; flipped: boolean } {
+  const difference = Math.abs(a - b);
+  return difference > 90 ? { difference: 180 - difference, flipped: true } : { difference, flipped: false };
+}
+
+function intersect(a: Line, b: Line): Point | null {
+  const [ta, tb] = [a.angle * Math.PI / 180, b.angle * Math.PI / 180];
+  const determinant = Math.cos(ta) * Math.sin(tb) - Math.sin(ta) * Math.cos(tb);
+  if (Math.abs(determinant) < 1e-6) {
+    return null;
+  }
+  return {
+    x: (a.distance * Math.sin(tb) - b.distance * Math.sin(ta)) / determinant,
+    y: (b.distance * Math.cos(ta) - a.distance * Math.cos(tb)) / determinant
+  };
+}
+
+/**
+ * Clockwise (in image coordinates, y down) starting at the top-left corner
+ */
+export function orderCorners(points: Point[]): Quadrilateral {
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sorted = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  const start = sorted.reduce((best, p, i) => (p.x + p.y < sorted[best].x + sorted[best].y ? i : best), 0);
+  return [0, 1, 2, 3].map(i => sorted[(start + i) % 4]) as Quadrilateral;
+}
+
+function isPlausible(corners: Quadrilateral, width: number, height: number): boolean {
+  const marginX = width * CORNER_MARGIN;
+  const marginY = height * CORNER_MARGIN;
+  if (corners.some(p => p.x < -marginX || p.y < -marginY || p.x > width + marginX || p.y > height + marginY)) {
+    return false;
+  }
+
+  // Convex: every turn goes the same way
+  const turns = corners.map((p, i) => {
+    const next = corners[(i + 1) % 4];
+    const after = corners[(i + 2) % 4];
+    return (next.x - p.x) * (after.y - next.y) - (next.y - p.y) * (after.x - next.x);
+  });
+  if (!turns.every(turn => turn > 0) && !turns.every(turn => turn < 0)) {
+    return false;
+  }
+
+  const minSide = Math.min(width, height) * 0.15;
+  if (corners.some((p, i) => Math.hypot(corners[(i + 1) % 4].x - p.x, corners[(i + 1) % 4].y - p.y) < minSide)) {
+    return false;
+  }
+
+  return polygonArea(corners) >= width * height * MIN_AREA_FRACTION;
+}
+
+function polygonArea(corners: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < corners.length; i++) {
+    const next = corners[(i + 1) % corners.length];
+    area += corners[i].x * next.y - next.x * corners[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Share of the in-frame part of a side that lies on an edge running along
+ * it; text baselines and margins line up too, but only in fragments and
+ * with edges pointing every way
+ */
+function sideCoverage(normals: Float32Array, width: number, height: number, from: Point, to: Point): number {
+  const steps = Math.ceil(Math.hypot(to.x - from.x, to.y - from.y));
+  const sideNormal = ((Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI + 90) % 180 + 180) % 180;
+  let inside = 0;
+  let covered = 0;
+
+  for (let s = 0; s <= steps; s++) {
+    const x = Math.round(from.x + (to.x - from.x) * s / steps);
+    const y = Math.round(from.y + (to.y - from.y) * s / steps);
+    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+    inside++;
+
+    // Any edge pixel within one pixel whose normal agrees with the side's
+    search:
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const normal = normals[ny * width + nx];
+        if (normal >= 0 && angleDifference(normal, sideNormal).difference <= EDGE_DIRECTION_TOLERANCE) {
+          covered++;
+          break search;
+        }
+      }
+    }
+  }
+
+  // Mostly outside the frame: the side cannot be confirmed
+  return inside >= steps * 0.7 ? covered / inside : 0;
+}
@@ -0,0 +1,290 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AttemptStatus, VerificationStatus, VerificationResult } from '../types/verification.types';
+import { formatCheckRuns } from './checks/check-pipeline';
+import { VerificationStateService, APPLICANT_ACTOR, SYSTEM_ACTOR } from './verification-state.service';
+import { toJsonInput } from '../utils/json';
+
+const prisma = new PrismaClient();
+
+export const ATTEMPT_ERRORS = {
+  COMPLETED: 'Verification already completed successfully',
+  PROCESSING: 'Verification is being processed',
+  RETRY_LIMIT: 'Maximum retry limit reached'
+} as const;
+
+/**
+ * Why an attempt in this status cannot take uploads
+ */
+function closedAttemptError(status: string): Error {
+  return new Error(status === AttemptStatus.PASSED ? ATTEMPT_ERRORS.COMPLETED : ATTEMPT_ERRORS.PROCESSING);
+}
+
+/**
+ * Attempts of a verification. Uploads go to the open attempt; once an attempt
+ * fails the next upload opens a new one, as long as fewer than maxRetries
+ * attempts have failed.
+ */
+export class VerificationAttemptService {
+  private stateService = new VerificationStateService();
+
+  /**
+   * The latest attempt. Verifications created before attempts existed get
+   * their first attempt here.
+   */
+  async getCurrent(verificationId: string) {
+    const latest = await prisma.verificationAttempt.findFirst({
+      where: { verificationId },
+      orderBy: { number: 'desc' }
+    });
+
+    return latest || this.createFirst(verificationId);
+  }
+
+  /**
+   * The attempt new documents belong to, opening the next one when the latest failed
+   */
+  async openForUpload(verificationId: string) {
+    const current = await this.getCurrent(verificationId);
+    if (current.status === AttemptStatus.OPEN) return current;
+    if (current.status !== AttemptStatus.FAILED) throw closedAttemptError(current.status);
+
+    return prisma.$transaction(async (tx) => {
+      // Lock the verification so concurrent uploads cannot open attempts past the limit
+      const [verification] = await tx.$queryRaw<{ retryCount: number; maxRetries: number }[]>`
+        SELECT "retryCount", "maxRetries" FROM "Verification" WHERE id = ${verificationId} FOR UPDATE`;
+      if (!verification) throw new Error('Verification not found');
+
+      const latest = await tx.verificationAttempt.findFirstOrThrow({
+        where: { verificationId },
+        orderBy: { number: 'desc' }
+      });
+      // Another upload opened the next attempt while this one waited for the lock
+      if (latest.status === AttemptStatus.OPEN) return latest;
+      if (latest.status !== AttemptStatus.FAILED) throw closedAttemptError(latest.status);
+
+      if (verification.retryCount >= verification.maxRetries) {
+        throw new Error(ATTEMPT_ERRORS.RETRY_LIMIT);
+      }
+
+      const attempt = await tx.verificationAttempt.create({
+        data: { verificationId, number: latest.number + 1 }
+      });
+      await this.stateService.transition(verificationId, VerificationStatus.IN_PROGRESS, APPLICANT_ACTOR, {
+        tx,
+        reason: `Attempt #${attempt.number} opened`,
+        data: { completedAt: null }
+      });
+
+      console.log(`[VerificationAttemptService] Opened attempt #${attempt.number} for verification ${verificationId}`);
+      return attempt;
+    });
+  }
+
+  /**
+   * Move an open attempt to SUBMITTED; false when it was not open (already submitted or finished)
+   */
+  async submit(attemptId: string): Promise<boolean> {
+    const { count } = await prisma.verificationAttempt.updateMany({
+      where: { id: attemptId, status: AttemptStatus.OPEN },
+      data: { status: AttemptStatus.SUBMITTED, submittedAt: new Date() }
+    });
+    return count > 0;
+  }
+
+  /**
+   * Record the outcome of an attempt and mirror it on the verification. A
+   * failed attempt counts towards maxRetries.
+   */
+  async complete(attempt: { id: string; verificationId: string; number: number }, result: VerificationResult): Promise<void> {
+    const completedAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.verificationAttempt.update({
+        where: { id: attempt.id },
+        data: {
+          status: result.passed ? AttemptStatus.PASSED : AttemptStatus.FAILED,
+          passed: result.passed,
+          score: result.score,
+          riskLevel: result.riskLevel,
+          flags: result.flags,
+          result: toJsonInput(result),
+          completedAt
+        }
+      });
+      await this.stateService.transition(
+        attempt.verificationId,
+        result.passed ? VerificationStatus.COMPLETED : VerificationStatus.FAILED,
+        SYSTEM_ACTOR,
+        {
+          tx,
+          reason: `Attempt #${attempt.number} ${result.passed ? 'passed' : 'failed'}`,
+          data: { completedAt, retryCount: result.passed ? undefined : { increment: 1 } }
+        }
+      );
+    });
+  }
+
+  /**
+   * Fail a submitted attempt whose processing gave up for good, so the
+   * verification does not stay IN_PROGRESS. It does not count towards
+   * maxRetries: the applicant did nothing wrong. Returns false when the
+   * attempt was no longer SUBMITTED.
+   */
+  async failSubmitted(attempt: { id: string; verificationId: string; number: number }, reason: string): Promise<boolean> {
+    const completedAt = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.verificationAttempt.updateMany({
+        where: { id: attempt.id, status: AttemptStatus.SUBMITTED },
+        data: { status: AttemptStatus.FAILED, passed: false, completedAt }
+      });
+      if (count === 0) return false;
+
+      await this.stateService.transition(attempt.verificationId, VerificationStatus.FAILED, SYSTEM_ACTOR, {
+        tx,
+        reason: `Attempt #${attempt.number} could not be processed: ${reason}`,
+        data: { completedAt }
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Mirror an admin's decision on the latest attempt, inside the transaction
+   * that changes the verification status. An approval closes the attempt to
+   * uploads; a rejection fails it like a failed check run. Returns whether a
+   * not yet failed attempt was failed, which counts towards maxRetries.
+   * Verifications without attempts get theirs from the status later (createFirst).
+   */
+  async recordManualDecision(
+    tx: Prisma.TransactionClient,
+    verificationId: string,
+    passed: boolean,
+    completedAt: Date
+  ): Promise<boolean> {
+    const latest = await tx.verificationAttempt.findFirst({
+      where: { verificationId },
+      orderBy: { number: 'desc' }
+    });
+    if (!latest) return false;
+
+    await tx.verificationAttempt.update({
+      where: { id: latest.id },
+      data: {
+        status: passed ? AttemptStatus.PASSED : AttemptStatus.FAILED,
+        passed,
+        completedAt
+      }
+    });
+    return !passed && latest.status !== AttemptStatus.FAILED;
+  }
+
+  private async createFirst(verificationId: string) {
+    const verification = await prisma.verification.findUnique({
+      where: { id: verificationId },
+      include: { results: true }
+    });
+    if (!verification) {
+      throw new Error('Verification not found');
+    }
+
+    // A finished verification keeps its outcome as the first attempt
+    const status = verification.status === VerificationStatus.COMPLETED ? AttemptStatus.PASSED
+      : verification.status === VerificationStatus.FAILED ? AttemptStatus.FAILED
+        : AttemptStatus.OPEN;
+    const results = status !== AttemptStatus.OPEN ? verification.results : null;
+
+    try {
+      const attempt = await prisma.verificationAttempt.create({
+        data: {
+          verificationId,
+          number: 1,
+          status,
+          passed: results?.passed ?? null,
+          score: results?.score ?? null,
+          riskLevel: results?.riskLevel ?? null,
+          flags: results?.flags ?? [],
+          completedAt: status === AttemptStatus.OPEN ? null : verification.completedAt
+        }
+      });
+      await prisma.document.updateMany({
+        where: { verificationId, attemptId: null },
+        data: { attemptId: attempt.id }
+      });
+      await prisma.verificationCheck.updateMany({
+        where: { verificationId, attemptId: null },
+        data: { attemptId: attempt.id }
+      });
+      return attempt;
+    } catch (error) {
+      // A concurrent request created it first
+      const existing = await prisma.verificationAttempt.findUnique({
+        where: { verificationId_number: { verificationId, number: 1 } }
+      });
+      if (existing) return existing;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether a stored attempt result has the shape complete writes
+ */
+function isVerificationResult(value: unknown): value is VerificationResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.passed === 'boolean' &&
+    typeof result.score === 'number' &&
+    typeof result.riskLevel === 'string' &&
+    !!result.checks && typeof result.checks === 'object' &&
+    !!result.extractedData && typeof result.extractedData === 'object' &&
+    Array.isArray(result.flags) &&
+    Array.isArray(result.warnings);
+}
+
+/**
+ * The verification result a finished attempt was completed with; null when it
+ * has none, e.g. an attempt an admin decided
+ */
+export function storedAttemptResult(attempt: { result: Prisma.JsonValue | null }): VerificationResult | null {
+  return isVerificationResult(attempt.result) ? attempt.result : null;
+}
+
+/**
+ * Check rows of the latest finished attempt, which produced the current result.
+ * Rows of a verification that has no attempt yet have no attemptId.
+ */
+export function latestAttemptChecks(verification: { checks?: any[]; attempts?: any[] }): any[] {
+  const finished = (verification.attempts || [])
+    .filter(a => a.status === AttemptStatus.PASSED || a.status === AttemptStatus.FAILED)
+    .sort((a, b) => b.number - a.number)[0];
+
+  return (verification.checks || []).filter(c => finished ? c.attemptId === finished.id : !c.attemptId);
+}
+
+/**
+ * Attempt history for responses, oldest first. Check runs are only included for partners and admins.
+ */
+export function formatAttempts(attempts: any[] | undefined, options: { includeChecks?: boolean } = {}) {
+  return [...(attempts || [])]
+    .sort((a, b) => a.number - b.number)
+    .map(a => ({
+      id: a.id,
+      number: a.number,
+      status: a.status,
+      passed: a.passed,
+      score: a.score,
+      riskLevel: a.riskLevel,
+      flags: a.flags || [],
+      createdAt: a.createdAt,
+      submittedAt: a.submittedAt,
+      completedAt: a.completedAt,
+      documents: (a.documents || []).map((doc: any) => ({
+        id: doc.id,
+        type: doc.type,
+        side: doc.side,
+        createdAt: doc.createdAt
+      })),
+      ...(options.includeChecks ? { checkRuns: formatCheckRuns(a.checks) } : {})
+    }));
+}
@@ -0,0 +1,130 @@
+import { PrismaClient } from '@prisma/client';
+import { VerificationStatus, WebhookEvent } from '../types/verification.types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { EmailService } from './email.service';
+import { WebhookService } from './webhook.service';
+import { VerificationStateService, SYSTEM_ACTOR } from './verification-state.service';
+
+const prisma = new PrismaClient();
+
+const ACTIVE_STATUSES = [VerificationStatus.PENDING, VerificationStatus.IN_PROGRESS, VerificationStatus.REQUIRES_INPUT];
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Verifications created before expiresAt existed expire maxVerificationAgeDays after creation
+ */
+function expiryOf(verification: { expiresAt?: Date | null; createdAt: Date }): Date {
+  return verification.expiresAt ??
+    new Date(verification.createdAt.getTime() + config.verification.maxVerificationAgeDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a verification link no longer accepts uploads or submits. A completed
+ * or failed verification keeps its outcome; a failed one still expires for retries.
+ */
+export function isVerificationExpired(verification: { status: string; expiresAt?: Date | null; createdAt: Date }): boolean {
+  if (verification.status === VerificationStatus.EXPIRED) return true;
+  if (verification.status === VerificationStatus.COMPLETED) return false;
+  return expiryOf(verification) <= new Date();
+}
+
+/**
+ * Moves stale PENDING / IN_PROGRESS / REQUIRES_INPUT verifications to EXPIRED
+ * and tells the partner. Safe to run from several workers at once: a
+ * verification is only notified by the sweep whose update moved it.
+ */
+export class VerificationExpiryService {
+  private webhookService = new WebhookService();
+  private emailService = new EmailService();
+  private stateService = new VerificationStateService();
+
+  async sweep(): Promise<number> {
+    const now = new Date();
+    const legacyCutoff = new Date(now.getTime() - config.verification.maxVerificationAgeDays * 24 * 60 * 60 * 1000);
+    let expired = 0;
+    // Paged by id: a row that fails to move is not read again, so the sweep always ends
+    let after: string | undefined;
+
+    for (;;) {
+      const stale = await prisma.verification.findMany({
+        where: {
+          status: { in: ACTIVE_STATUSES },
+          OR: [
+            { expiresAt: { lte: now } },
+            { expiresAt: null, createdAt: { lte: legacyCutoff } }
+          ],
+          // Never expire a verification while its submission is being processed
+          jobs: { none: { status: { in: ['QUEUED', 'RUNNING'] } } },
+          ...(after ? { id: { gt: after } } : {})
+        },
+        include: {
+          user: true,
+          partner: { include: { users: { take: 1, orderBy: { createdAt: 'asc' } } } }
+        },
+        orderBy: { id: 'asc' },
+        take: SWEEP_BATCH_SIZE
+      });
+
+      for (const verification of stale) {
+        try {
+          const moved = await this.stateService.transition(verification.id, VerificationStatus.EXPIRED, SYSTEM_ACTOR, {
+            reason: 'Verification link expired'
+          });
+          if (!moved) continue;
+        } catch (error) {
+          // Moved out of an active status since it was read, e.g. submitted or expired by another worker
+          logger.warn(`[VerificationExpiryService] Skipped ${verification.id}: ${error instanceof Error ? error.message : error}`);
+          continue;
+        }
+
+        expired++;
+        await this.notify(verification);
+      }
+
+      if (stale.length < SWEEP_BATCH_SIZE) break;
+      after = stale[stale.length - 1].id;
+    }
+
+    if (expired > 0) {
+      logger.info(`[VerificationExpiryService] Expired ${expired} verification(s)`);
+    }
+    return expired;
+  }
+
+  private async notify(verification: any): Promise<void> {
+    // A legacy retry row belongs to a verification whose failure the partner was already told about
+    if (verification.parentVerificationId) return;
+
+    const expiredAt = expiryOf(verification);
+
+    if (verification.webhookUrl) {
+      try {
+        await this.webhookService.sendWebhook(verification.webhookUrl, {
+          event: WebhookEvent.VERIFICATION_EXPIRED,
+          verificationId: verification.id,
+          status: VerificationStatus.EXPIRED,
+          timestamp: new Date().toISOString()
+        }, verification.id);
+      } catch (error) {
+        logger.error(`[VerificationExpiryService] Expiry webhook failed for ${verification.id}:`, error);
+      }
+    }
+
+    // Sandbox verifications only notify through their webhook
+    const partnerEmail = verification.isSandbox ? null : verification.partner?.users[0]?.email;
+    if (partnerEmail) {
+      try {
+        await this.emailService.sendVerificationExpiredEmail(
+          partnerEmail,
+          verification.partner.companyName,
+          verification.user?.fullName || 'User',
+          verification.user?.email || 'Unknown',
+          expiredAt
+        );
+      } catch (error) {
+        logger.error(`[VerificationExpiryService] Expiry email failed for ${verification.id}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { VerificationStatus } from '../types/verification.types';
+
+const prisma = new PrismaClient();
+
+export type StatusActorType = 'system' | 'applicant' | 'partner' | 'admin';
+
+export interface StatusActor {
+  type: StatusActorType;
+  id?: string | null;
+}
+
+export const SYSTEM_ACTOR: StatusActor = { type: 'system' };
+export const APPLICANT_ACTOR: StatusActor = { type: 'applicant' };
+
+export interface TransitionOptions {
+  reason?: string;
+  data?: Record<string, unknown>; // other verification fields written together with the status
+  tx?: Prisma.TransactionClient; // run inside the caller's transaction
+}
+
+/**
+ * Statuses each status may move to; every other move is rejected
+ */
+export const VERIFICATION_TRANSITIONS: Record<VerificationStatus, VerificationStatus[]> = {
+  [VerificationStatus.PENDING]: [
+    VerificationStatus.IN_PROGRESS,
+    VerificationStatus.COMPLETED,
+    VerificationStatus.FAILED,
+    VerificationStatus.EXPIRED
+  ],
+  [VerificationStatus.IN_PROGRESS]: [
+    VerificationStatus.REQUIRES_INPUT,
+    VerificationStatus.COMPLETED,
+    VerificationStatus.FAILED,
+    VerificationStatus.EXPIRED
+  ],
+  [VerificationStatus.REQUIRES_INPUT]: [
+    VerificationStatus.IN_PROGRESS,
+    VerificationStatus.COMPLETED,
+    VerificationStatus.FAILED,
+    VerificationStatus.EXPIRED
+  ],
+  // The next attempt, a retry allowance reset or a manual pass
+  [VerificationStatus.FAILED]: [
+    VerificationStatus.IN_PROGRESS,
+    VerificationStatus.PENDING,
+    VerificationStatus.COMPLETED
+  ],
+  // Only a manual rejection overturns a pass
+  [VerificationStatus.COMPLETED]: [VerificationStatus.FAILED],
+  [VerificationStatus.EXPIRED]: []
+};
+
+export function canTransition(from: VerificationStatus, to: VerificationStatus): boolean {
+  return (VERIFICATION_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Nested create for the first history entry of a new verification
+ */
+export function initialStatusChange(actor: StatusActor) {
+  return {
+    create: {
+      toStatus: VerificationStatus.PENDING,
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      reason: 'Verification created'
+    }
+  };
+}
+
+/**
+ * The one place verification status changes. Each move is checked against
+ * VERIFICATION_TRANSITIONS and recorded as a VerificationStatusChange.
+ */
+export class VerificationStateService {
+  /**
+   * Move a verification to a status. Resolves to the updated verification, or
+   * to null when it already had that status: data is still written but no
+   * history is recorded. Throws on a move the state machine does not allow.
+   */
+  async transition(
+    verificationId: string,
+    to: VerificationStatus,
+    actor: StatusActor,
+    options: TransitionOptions = {}
+  ) {
+    if (options.tx) {
+      return this.apply(options.tx, verificationId, to, actor, options);
+    }
+    return prisma.$transaction((tx) => this.apply(tx, verificationId, to, actor, options));
+  }
+
+  /**
+   * Status history of a verification, oldest first. Partners do not see which admin acted.
+   */
+  async getTimeline(verificationId: string, options: { hideAdminIds?: boolean } = {}) {
+    const changes = await prisma.verificationStatusChange.findMany({
+      where: { verificationId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return changes.map((change: any) => ({
+      from: change.fromStatus,
+      to: change.toStatus,
+      actor: {
+        type: change.actorType,
+        id: options.hideAdminIds && change.actorType === 'admin' ? null : change.actorId
+      },
+      reason: change.reason,
+      at: change.createdAt
+    }));
+  }
+
+  private async apply(
+    tx: Prisma.TransactionClient,
+    verificationId: string,
+    to: VerificationStatus,
+    actor: StatusActor,
+    options: TransitionOptions
+  ) {
+    const verification = await tx.verification.findUnique({
+      where: { id: verificationId },
+      select: { status: true }
+    });
+    if (!verification) {
+      throw new Error('Verification not found');
+    }
+
+    const from = verification.status as VerificationStatus;
+    if (from === to) {
+      if (options.data) {
+        await tx.verification.update({ where: { id: verificationId }, data: options.data });
+      }
+      return null;
+    }
+
+    if (!canTransition(from, to)) {
+      throw new Error(`Invalid status transition from ${from} to ${to}`);
+    }
+
+    // Guard on the status read above so a concurrent move is not overwritten
+    const { count } = await tx.verification.updateMany({
+      where: { id: verificationId, status: from },
+      data: { ...options.data, status: to }
+    });
+    if (count === 0) {
+      throw new Error(`Verification status changed while moving from ${from} to ${to}`);
+    }
+
+    await tx.verificationStatusChange.create({
+      data: {
+        verificationId,
+        fromStatus: from,
+        toStatus: to,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        reason: options.reason ?? null
+      }
+    });
+
+    console.log(`[VerificationStateService] ${verificationId}: ${from} -> ${to} (${actor.type}${actor.id ? ` ${actor.id}` : ''})`);
+
+    return tx.verification.findUniqueOrThrow({ where: { id: verificationId } });
+  }
+}
@@ -4,35 +4,132 @@ import {
   VerificationType,
   ExtractedDocumentData,
   VerificationResult,
-  RiskLevel,
-  DocumentType
+  DocumentType,
+  CheckStatus,
+  VerificationOptions,
+  DocumentOriginalityResult,
+  DocumentLayoutResult,
+  LivenessCheckResult,
+  WebhookEvent,
+  AttemptStatus
 } from '../types/verification.types';
 import { DocumentScannerService } from './document-scanner.service';
 import { OCRService } from './ocr.service';
+import { OcrProviderAttempt } from './ocr/ocr-provider.types';
 import { BiometricService } from './biometric.service';
 import { EmailService } from './email.service';
+import { WebhookService } from './webhook.service';
+import { BarcodeService } from './barcode.service';
+import { aamvaParser } from './aamva-parser.service';
+import { DecisionPolicyService } from './decision-policy.service';
+import { FieldMergeService } from './field-merge.service';
+import { DocumentReuseService, documentKey } from './document-reuse.service';
+import { FaceIndexService } from './face-index.service';
+import { VerificationAttemptService, formatAttempts, storedAttemptResult } from './verification-attempt.service';
+import { VerificationStateService, APPLICANT_ACTOR, SYSTEM_ACTOR, initialStatusChange } from './verification-state.service';
+import { CheckPipeline } from './checks/check-pipeline';
+import { DocumentQualityCheck } from './checks/document-quality.check';
+import { NameMatchCheck } from './checks/name-match.check';
+import { DateOfBirthMatchCheck } from './checks/date-of-birth-match.check';
+import { AddressMatchCheck } from './checks/address-match.check';
+import { AgeCheck } from './checks/age.check';
+import { DocumentExpiryCheck } from './checks/document-expiry.check';
+import { DocumentTamperingCheck } from './checks/document-tampering.check';
+import { DocumentOriginalityCheck } from './checks/document-originality.check';
+import { DocumentLayoutCheck } from './checks/document-layout.check';
+import { MrzCheck } from './checks/mrz.check';
+import { BarcodeCheck } from './checks/barcode.check';
+import { DataConsistencyCheck } from './checks/data-consistency.check';
+import { DocumentReuseCheck } from './checks/document-reuse.check';
+import { DuplicateFaceCheck } from './checks/duplicate-face.check';
+import { FaceMatchCheck } from './checks/face-match.check';
+import { SandboxFaceMatchCheck } from './checks/sandbox-face-match.check';
+import { VerificationCheckModule } from './checks/check.types';
+import { SandboxService } from './sandbox.service';
+import { ImageForensicsService } from './image-forensics.service';
+import { ImageForensicsReport } from './forensics/forensics.types';
+import { DocumentOriginalityService } from './document-originality.service';
+import { DocumentLayoutService } from './document-layout.service';
+import { LivenessChallengeService } from './liveness-challenge.service';
+import { LivenessCheck } from './checks/liveness.check';
 import { s3Service } from './s3.service';
 // import { documentIdValidator } from './document-id-validator.service';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { parseDocumentDate } from '../utils/date';
+import { verificationOptionsData, verificationOptionsFrom } from '../utils/verification-options';
+import { withholdDateOfBirth } from '../utils/redact';
+import { withFieldConfidence } from '../utils/field-confidence';
 import https from 'https';
 import http from 'http';
 import fs from 'fs';
 import path from 'path';
+import sharp from 'sharp';
 
 const prisma = new PrismaClient();
 
+const ID_DOCUMENT_TYPES = ['DRIVERS_LICENSE', 'PASSPORT', 'NATIONAL_ID', 'RESIDENCE_PERMIT', 'PERMANENT_RESIDENT_CARD'];
+
 export class VerificationService {
   private documentScanner: DocumentScannerService;
   private ocrService: OCRService;
   private biometricService: BiometricService;
   private emailService: EmailService;
+  private webhookService: WebhookService;
+  private barcodeService: BarcodeService;
+  private decisionPolicyService: DecisionPolicyService;
+  private fieldMergeService: FieldMergeService;
+  private faceIndexService: FaceIndexService;
+  private attemptService: VerificationAttemptService;
+  private stateService: VerificationStateService;
+  private checkPipeline: CheckPipeline;
+  private sandboxCheckPipeline: CheckPipeline;
+  private sandboxService: SandboxService;
+  private forensicsService: ImageForensicsService;
+  private originalityService: DocumentOriginalityService;
+  private layoutService: DocumentLayoutService;
+  private livenessChallengeService: LivenessChallengeService;
 
   constructor() {
     this.documentScanner = new DocumentScannerService();
     this.ocrService = new OCRService();
     this.biometricService = new BiometricService();
     this.emailService = new EmailService();
+    this.webhookService = new WebhookService();
+    this.barcodeService = new BarcodeService();
+    this.decisionPolicyService = new DecisionPolicyService();
+    this.fieldMergeService = new FieldMergeService();
+    this.faceIndexService = new FaceIndexService(this.biometricService);
+    this.attemptService = new VerificationAttemptService();
+    this.stateService = new VerificationStateService();
+    this.sandboxService = new SandboxService();
+    this.forensicsService = new ImageForensicsService();
+    this.originalityService = new DocumentOriginalityService();
+    this.layoutService = new DocumentLayoutService(this.documentScanner, this.biometricService);
+    this.livenessChallengeService = new LivenessChallengeService(this.biometricService);
+    this.checkPipeline = this.buildCheckPipeline(new FaceMatchCheck(this.biometricService));
+    // Sandbox verifications get a scripted face match instead of a biometric provider
+    this.sandboxCheckPipeline = this.buildCheckPipeline(new SandboxFaceMatchCheck(this.sandboxService));
+  }
+
+  private buildCheckPipeline(faceMatchCheck: VerificationCheckModule): CheckPipeline {
+    return new CheckPipeline()
+      .register(new DocumentQualityCheck())
+      .register(new DocumentLayoutCheck())
+      .register(new NameMatchCheck())
+      .register(new DateOfBirthMatchCheck())
+      .register(new AddressMatchCheck())
+      .register(new AgeCheck())
+      .register(new DocumentExpiryCheck())
+      .register(new DocumentTamperingCheck())
+      .register(new DocumentOriginalityCheck())
+      .register(new MrzCheck())
+      .register(new BarcodeCheck())
+      .register(new DataConsistencyCheck())
+      .register(new DocumentReuseCheck(new DocumentReuseService()))
+      .register(faceMatchCheck)
+      .register(new LivenessCheck(this.biometricService))
+      .register(new DuplicateFaceCheck(this.faceIndexService));
   }
 
   async createVerification(
@@ -40,21 +137,27 @@ export class VerificationService {
     type: VerificationType = VerificationType.IDENTITY,
     webhookUrl?: string,
     metadata?: Record<string, unknown>,
-    partnerId?: string
+    partnerId?: string,
+    options: VerificationOptions = {},
+    sandbox = false
   ) {
     const verification = await prisma.verification.create({
       data: {
         userId,
         partnerId,
+        isSandbox: sandbox,
         type,
         status: VerificationStatus.PENDING,
         webhookUrl,
-        metadata: (metadata || {}) as any
+        metadata: (metadata || {}) as any,
+        ...verificationOptionsData(options),
+        attempts: { create: { number: 1 } },
+        statusChanges: initialStatusChange(partnerId ? { type: 'partner', id: partnerId } : SYSTEM_ACTOR)
       }
     });
 
-    // Increment partner's usage count if partnerId provided
-    if (partnerId) {
+    // Increment partner's usage count if partnerId provided; sandbox verifications are not billed
+    if (partnerId && !sandbox) {
       await prisma.partner.update({
         where: { id: partnerId },
         data: {
@@ -73,78 +176,31 @@ export class VerificationService {
     imageBuffer: Buffer,
     documentType?: DocumentType,
     side?: 'FRONT' | 'BACK',
-    documentUrl?: string
+    documentUrl?: string,
+    issuingCountry?: string
   ) {
+    // Documents belong to the open attempt; after a failed attempt this opens the next one
+    const attempt = await this.attemptService.openForUpload(verificationId);
     const verification = await prisma.verification.findUnique({
       where: { id: verificationId },
-      include: { documents: true }
+      include: { user: true }
     });
-
-    if (!verification) {
-      throw new Error('Verification not found');
-    }
-
-    // Check if this is a retry (verification was FAILED)
-    const isRetry = verification.status === 'FAILED';
-    let activeVerificationId = verificationId;
-
-    if (isRetry) {
-      // Find the root/original verification (in case of multiple retries)
-      const originalVerificationId = verification.parentVerificationId || verificationId;
-
-      // First, check if there's already an IN_PROGRESS or PENDING retry for this verification
-      // Also ensure it hasn't been completed (completedAt is null)
-      const existingActiveRetry = await prisma.verification.findFirst({
-        where: {
-          parentVerificationId: originalVerificationId,
-          status: { in: ['PENDING', 'IN_PROGRESS'] },
-          completedAt: null
-        },
-        orderBy: { createdAt: 'desc' }
-      });
-
-      if (existingActiveRetry) {
-        // Use the existing active retry instead of creating a new one
-        console.log(`[VerificationService] Found existing active retry ${existingActiveRetry.id} - reusing it`);
-        activeVerificationId = existingActiveRetry.id;
-      } else {
-        // No active retry exists, create a new one
-        console.log('[VerificationService] Retry detected - creating new verification record');
-
-        // Count existing retries to set retry number
-        const existingRetries = await prisma.verification.count({
-          where: { parentVerificationId: originalVerificationId }
-        });
-
-        // Create a new verification linked to the original
-        const newVerification = await prisma.verification.create({
-          data: {
-            userId: verification.userId,
-            partnerId: verification.partnerId,
-            type: verification.type,
-            status: VerificationStatus.PENDING,
-            webhookUrl: verification.webhookUrl,
-            metadata: verification.metadata as any,
-            parentVerificationId: originalVerificationId,
-            retryCount: existingRetries + 1
-          }
-        });
-
-        console.log(`[VerificationService] Created new verification ${newVerification.id} (retry #${existingRetries + 1}) linked to original ${originalVerificationId}`);
-        activeVerificationId = newVerification.id;
-      }
-    }
+    const sandbox = !!verification?.isSandbox;
 
     // Detect if file is PDF (PDFs start with %PDF)
     const isPdf = imageBuffer[0] === 0x25 && imageBuffer[1] === 0x50 &&
                   imageBuffer[2] === 0x44 && imageBuffer[3] === 0x46;
 
     let preprocessed: Buffer;
+    let processedImage: Buffer | null = null;
+    // Upright image of the document itself, and whether its outline was found to crop to
+    let documentImage = imageBuffer;
+    let outlineFound = false;
     let qualityCheck: { qualityScore: number; isBlurry: boolean; hasGlare: boolean; isComplete: boolean; issues: string[] };
 
-    if (isPdf) {
-      // PDFs can't be preprocessed with sharp - send directly to OCR
-      console.log('[VerificationService] PDF detected - skipping image preprocessing');
+    if (isPdf || sandbox) {
+      // PDFs can't be preprocessed with sharp - send directly to OCR. Sandbox uploads may be any picture.
+      console.log(`[VerificationService] ${sandbox ? 'Sandbox verification' : 'PDF detected'} - skipping image preprocessing`);
       preprocessed = imageBuffer;
       // Default quality check for PDFs (assume good quality since we can't analyze)
       qualityCheck = {
@@ -155,8 +211,20 @@ export class VerificationService {
         issues: []
       };
     } else {
-      // Image files - preprocess normally
-      preprocessed = await this.documentScanner.preprocessImage(imageBuffer);
+      // Image files - flatten, deskew and turn the document upright, then preprocess
+      if (config.documentCorrection.enabled) {
+        try {
+          const correction = await this.documentScanner.correctDocument(imageBuffer);
+          outlineFound = !!correction.corners;
+          if (correction.corrected) {
+            documentImage = correction.image;
+            processedImage = correction.image;
+          }
+        } catch (error) {
+          console.error('[VerificationService] Document correction failed, using the upload as is:', error);
+        }
+      }
+      preprocessed = await this.documentScanner.preprocessImage(documentImage);
       qualityCheck = await this.documentScanner.checkQuality(preprocessed);
 
       if (qualityCheck.qualityScore < config.verification.minQualityScore) {
@@ -168,13 +236,42 @@ export class VerificationService {
     const finalDocumentType = documentType || DocumentType.DRIVERS_LICENSE;
     console.log('[VerificationService] Using document type:', finalDocumentType);
 
-    await this.ocrService.initialize();
-    // Extract document data using external OCR API (with fallback to Google services)
-    const extractedData = await this.ocrService.extractDocumentData(
-      preprocessed,
-      finalDocumentType
-    );
-    await this.ocrService.terminate();
+    let extractedData: ExtractedDocumentData | null = null;
+    let ocrProvider: string | null = null;
+    let ocrAttempts: OcrProviderAttempt[] | null = null;
+
+    if (sandbox) {
+      extractedData = this.sandboxService.extractDocumentData(verification!, finalDocumentType);
+      ocrProvider = 'sandbox';
+    }
+
+    // The back of North American licences and ID cards carries the holder's data
+    // in an AAMVA PDF417 barcode, which is more reliable than OCR
+    if (!extractedData && side === 'BACK' && !isPdf) {
+      const payload = await this.barcodeService.decodePdf417(imageBuffer);
+      const barcode = payload ? aamvaParser.parse(payload) : null;
+      if (barcode) {
+        console.log(`[VerificationService] Decoded AAMVA barcode (IIN ${barcode.iin}, version ${barcode.version})`);
+        extractedData = withFieldConfidence(barcode.data, 'aamva_barcode');
+        ocrProvider = 'aamva_barcode';
+      }
+    }
+
+    if (!extractedData) {
+      await this.ocrService.initialize();
+      try {
+        // Providers and their order come from config.ocr
+        const ocrResult = await this.ocrService.extractWithProviders(preprocessed, {
+          documentType: finalDocumentType,
+          country: issuingCountry
+        });
+        extractedData = ocrResult.data;
+        ocrProvider = ocrResult.provider;
+        ocrAttempts = ocrResult.attempts;
+      } finally {
+        await this.ocrService.terminate();
+      }
+    }
 
     // Validate essential fields were extracted (name, document number)
     const missingFields: string[] = [];
@@ -230,6 +327,43 @@ export class VerificationService {
       await this.documentScanner.generateThumbnail(preprocessed);
     }
 
+    // Forensics look at the file as uploaded; preprocessing re-encodes it and erases compression traces
+    let forensics: ImageForensicsReport | null = null;
+    if (!isPdf && !sandbox && this.forensicsService.isEnabled()) {
+      try {
+        forensics = await this.forensicsService.analyzeDocument(verificationId, finalDocumentType, imageBuffer);
+        if (forensics.tampered) {
+          console.log(`[VerificationService] Image forensics score ${forensics.score} - document looks edited`);
+        }
+      } catch (error) {
+        console.error('[VerificationService] Image forensics failed:', error);
+      }
+    }
+
+    // Photos of a screen, photocopies and printouts instead of the physical document
+    let originality: DocumentOriginalityResult | null = null;
+    if (!isPdf && !sandbox) {
+      try {
+        originality = await this.originalityService.analyzeDocument(imageBuffer);
+        if (!originality.isOriginal) {
+          console.log(`[VerificationService] Document does not look original: ${originality.reasons.join(', ')}`);
+        }
+      } catch (error) {
+        console.error('[VerificationService] Document originality analysis failed:', error);
+      }
+    }
+
+    // Card or passport page proportions, portrait and MRZ expected for the document type
+    let layout: DocumentLayoutResult | null = null;
+    if (!isPdf && !sandbox) {
+      try {
+        layout = await this.layoutService.validate(documentImage, finalDocumentType, side, { outlineFound, extractedData });
+        qualityCheck.issues.push(...layout.issues);
+      } catch (error) {
+        console.error('[VerificationService] Document layout validation failed:', error);
+      }
+    }
+
     const enrichedExtractedData = {
       ...extractedData
     };
@@ -243,20 +377,28 @@ export class VerificationService {
       mimeType = 'image/png';
     }
 
-    // Delete existing documents of the same type (not SELFIE) for this verification
-    // This ensures only one ID document is kept per verification
+    // Delete existing ID documents of the same type and side of this attempt
+    // This keeps one front and one back per ID type, so a passport and a licence can be merged
+    const sameSide = side === 'BACK'
+      ? { side: 'BACK' as const }
+      : { OR: [{ side: null }, { side: 'FRONT' as const }] };
     const existingDocs = await prisma.document.findMany({
       where: {
-        verificationId: activeVerificationId,
-        type: { not: 'SELFIE' }
+        attemptId: attempt.id,
+        type: finalDocumentType,
+        ...sameSide
       }
     });
 
     if (existingDocs.length > 0) {
-      console.log(`[VerificationService] Deleting ${existingDocs.length} existing document(s) for verification ${activeVerificationId}`);
+      console.log(`[VerificationService] Deleting ${existingDocs.length} existing document(s) for attempt ${attempt.id}`);
 
       // Delete files from S3
       for (const doc of existingDocs) {
+        await this.forensicsService.deleteHeatmaps(doc.forensics as unknown as ImageForensicsReport | null);
+        if (doc.processedUrl) {
+          await this.deleteProcessedImage(doc.processedUrl);
+        }
         if (doc.originalUrl && doc.originalUrl !== 'not-saved') {
           try {
             await s3Service.deleteFile(doc.originalUrl);
@@ -270,31 +412,43 @@ export class VerificationService {
       // Delete document records from database
       await prisma.document.deleteMany({
         where: {
-          verificationId: activeVerificationId,
-          type: { not: 'SELFIE' }
+          attemptId: attempt.id,
+          type: finalDocumentType,
+          ...sameSide
         }
       });
     }
 
+    // The corrected image is what OCR read; face matching uses it too
+    const processedUrl = processedImage
+      ? await this.storeProcessedImage(verificationId, `${finalDocumentType}-${side || 'FRONT'}-${Date.now()}.jpg`, processedImage)
+      : null;
+
     const document = await prisma.document.create({
       data: {
-        verificationId: activeVerificationId,
+        verificationId,
+        attemptId: attempt.id,
         type: finalDocumentType,
         side,
         originalUrl: documentUrl || 'not-saved',
+        processedUrl,
         mimeType,
         extractedData: enrichedExtractedData as any,
         qualityScore: qualityCheck.qualityScore,
         isBlurry: qualityCheck.isBlurry,
         hasGlare: qualityCheck.hasGlare,
         isComplete: qualityCheck.isComplete,
-        ocrConfidence: extractedData.confidence
+        ocrConfidence: extractedData.confidence,
+        ocrProvider,
+        ocrAttempts: ocrAttempts as any,
+        forensics: forensics as any,
+        originality: originality as any,
+        layout: layout as any
       }
     });
 
-    await prisma.verification.update({
-      where: { id: activeVerificationId },
-      data: { status: VerificationStatus.IN_PROGRESS }
+    await this.stateService.transition(verificationId, VerificationStatus.IN_PROGRESS, APPLICANT_ACTOR, {
+      reason: `${this.getDocumentTypeName(finalDocumentType)} uploaded`
     });
 
     return {
@@ -303,29 +457,32 @@ export class VerificationService {
       qualityCheck,
       documentType: finalDocumentType,
       userSelectedType: documentType || null,
-      verificationId: activeVerificationId,
-      isRetry,
-      originalVerificationId: isRetry ? (verification.parentVerificationId || verificationId) : null
+      verificationId,
+      attemptId: attempt.id,
+      attemptNumber: attempt.number
     };
   }
 
-  async processSelfie(verificationId: string, imageBuffer: Buffer, selfieUrl?: string) {
-    // Check if this verification has a retry - use the retry verification instead
+  /**
+   * liveness: result already judged across several frames of the selfie; the
+   * single-image check runs when it is not given
+   */
+  async processSelfie(verificationId: string, imageBuffer: Buffer, selfieUrl?: string, liveness?: LivenessCheckResult) {
+    const attempt = await this.attemptService.openForUpload(verificationId);
     const verification = await prisma.verification.findUnique({
-      where: { id: verificationId }
+      where: { id: verificationId },
+      include: { user: true }
     });
 
-    let activeVerificationId = verificationId;
+    // Sandbox verifications get scripted face and liveness results
+    const sandbox = verification?.isSandbox
+      ? this.sandboxService.analyzeSelfie(this.sandboxService.scenarioFor({
+        metadata: verification.metadata,
+        requesterName: verification.user?.fullName
+      }))
+      : null;
 
-    if (verification?.status === 'FAILED') {
-      const latestRetry = await this.getLatestRetryVerification(verificationId);
-      if (latestRetry && latestRetry.status !== 'COMPLETED') {
-        console.log('[VerificationService] Using retry verification for selfie:', latestRetry.id);
-        activeVerificationId = latestRetry.id;
-      }
-    }
-
-    const biometricData = await this.biometricService.extractFaceData(imageBuffer);
+    const biometricData = sandbox ? sandbox.biometricData : await this.biometricService.extractFaceData(imageBuffer);
 
     if (!biometricData.faceDetected) {
       throw new Error('No face detected in selfie');
@@ -337,7 +494,9 @@ export class VerificationService {
 
     // Perform liveness/anti-spoofing check
     console.log('[VerificationService] Performing liveness check on selfie...');
-    const livenessResult = await this.biometricService.performSingleImageLivenessCheck(imageBuffer);
+    const livenessResult = sandbox
+      ? sandbox.liveness
+      : liveness ?? await this.biometricService.performSingleImageLivenessCheck(imageBuffer);
 
     console.log('[VerificationService] Liveness check result:', {
       isLive: livenessResult.isLive,
@@ -356,20 +515,20 @@ export class VerificationService {
     };
 
     // Save selfie as a document in the Document table
-    // Delete existing selfie first to ensure only one per verification
+    // Delete existing selfie first to ensure only one per attempt
     if (selfieUrl) {
-      console.log('[VerificationService] Saving selfie to verification:', activeVerificationId);
+      console.log(`[VerificationService] Saving selfie to attempt #${attempt.number} of verification ${verificationId}`);
 
-      // Delete existing selfie for this verification
+      // Delete existing selfie for this attempt
       const existingSelfies = await prisma.document.findMany({
         where: {
-          verificationId: activeVerificationId,
+          attemptId: attempt.id,
           type: 'SELFIE'
         }
       });
 
       if (existingSelfies.length > 0) {
-        console.log(`[VerificationService] Deleting ${existingSelfies.length} existing selfie(s) for verification ${activeVerificationId}`);
+        console.log(`[VerificationService] Deleting ${existingSelfies.length} existing selfie(s) for attempt ${attempt.id}`);
 
         // Delete files from S3
         for (const selfie of existingSelfies) {
@@ -386,7 +545,7 @@ export class VerificationService {
         // Delete selfie records from database
         await prisma.document.deleteMany({
           where: {
-            verificationId: activeVerificationId,
+            attemptId: attempt.id,
             type: 'SELFIE'
           }
         });
@@ -399,9 +558,10 @@ export class VerificationService {
         selfieMimeType = 'image/png';
       }
 
-      await prisma.document.create({
+      const selfieDocument = await prisma.document.create({
         data: {
-          verificationId: activeVerificationId,
+          verificationId,
+          attemptId: attempt.id,
           type: 'SELFIE',
           originalUrl: selfieUrl,
           mimeType: selfieMimeType,
@@ -410,13 +570,24 @@ export class VerificationService {
           isComplete: true
         }
       });
+
+      // Face template for duplicate detection; a failure here must not block the upload.
+      // Sandbox selfies stay out of the index.
+      if (!sandbox) {
+        try {
+          await this.faceIndexService.enroll(verificationId, imageBuffer, selfieDocument.id);
+        } catch (error) {
+          console.error('[VerificationService] Failed to enroll face template:', error);
+        }
+      }
     }
 
     // Store liveness result in verification metadata
-    await prisma.verification.update({
-      where: { id: activeVerificationId },
+    await this.stateService.transition(verificationId, VerificationStatus.IN_PROGRESS, APPLICANT_ACTOR, {
+      reason: 'Selfie uploaded',
       data: {
         metadata: {
+          ...((verification?.metadata as Record<string, unknown>) || {}),
           livenessCheck: livenessResult.isLive,
           livenessScore: livenessResult.confidence,
           livenessDetails: livenessResult.checks
@@ -427,7 +598,35 @@ export class VerificationService {
     return biometricDataWithLiveness;
   }
 
-  async performVerification(verificationId: string): Promise<VerificationResult> {
+  /**
+   * Selfie from a short clip or burst of frames, in capture order: liveness is
+   * judged across the frames and the sharpest frontal frame is kept as the
+   * selfie used for face matching
+   */
+  async processSelfieFrames(verificationId: string, frames: Buffer[]) {
+    await this.attemptService.openForUpload(verificationId);
+    const verification = await prisma.verification.findUnique({ where: { id: verificationId } });
+
+    // Sandbox frames may be any picture; processSelfie scripts their liveness
+    let liveness: LivenessCheckResult | undefined;
+    let selectedFrame = Math.floor(frames.length / 2);
+    if (!verification?.isSandbox) {
+      console.log(`[VerificationService] Performing liveness check on ${frames.length} selfie frames...`);
+      liveness = await this.biometricService.performLivenessCheck(frames);
+      selectedFrame = liveness.checks.selectedFrame ?? selectedFrame;
+    }
+
+    const selfie = await sharp(frames[selectedFrame]).rotate().jpeg({ quality: 95 }).toBuffer();
+    const selfieUrl = await this.storeSelfieFrame(verificationId, selfie);
+    const biometricData = await this.processSelfie(verificationId, selfie, selfieUrl, liveness);
+
+    return { ...biometricData, selfieUrl, selectedFrame, framesAnalyzed: frames.length };
+  }
+
+  /**
+   * Run the checks on the documents of an attempt (the current one when not given)
+   */
+  async performVerification(verificationId: string, attemptId?: string): Promise<VerificationResult> {
     const verification = await prisma.verification.findUnique({
       where: { id: verificationId },
       include: { documents: true, results: true, user: true }
@@ -437,201 +636,148 @@ export class VerificationService {
       throw new Error('Verification not found');
     }
 
-    // Log if this is a retry
-    if (verification.results) {
-      console.log('[VerificationService] Re-verification attempt - will update existing result');
-    }
-
-    const flags: string[] = [];
-    const warnings: string[] = [];
-
-    // CRITICAL: Validate required documents based on verification type
-    const validIdTypes = ['DRIVERS_LICENSE', 'PASSPORT', 'NATIONAL_ID', 'RESIDENCE_PERMIT', 'PERMANENT_RESIDENT_CARD'];
-    const idDocuments = verification.documents.filter(doc => validIdTypes.includes(doc.type));
-    const selfieDocuments = verification.documents.filter(doc => doc.type === 'SELFIE');
-
-    console.log('[VerificationService] Documents present:', verification.documents.map(d => d.type));
-    console.log('[VerificationService] Verification type:', verification.type);
+    const attempt = attemptId
+      ? await prisma.verificationAttempt.findUnique({ where: { id: attemptId } })
+      : await this.attemptService.getCurrent(verificationId);
 
-    // Check ID document requirement (required for all types except SELFIE_ONLY)
-    if (verification.type !== 'SELFIE_ONLY' && idDocuments.length === 0) {
-      console.log('[VerificationService] FAILED: No valid ID document found');
-      throw new Error('No valid ID document found. Please upload a government-issued ID (driver\'s license, passport, national ID, etc.) before submitting verification.');
+    if (!attempt || attempt.verificationId !== verificationId) {
+      throw new Error('Verification attempt not found');
     }
 
-    // Check selfie requirement (required for IDENTITY, FULL_KYC, and SELFIE_ONLY)
-    const requiresSelfie = ['IDENTITY', 'FULL_KYC', 'SELFIE_ONLY'].includes(verification.type);
-    if (requiresSelfie && selfieDocuments.length === 0) {
-      console.log('[VerificationService] FAILED: No selfie found');
-      throw new Error('No selfie found. Please upload a selfie photo for identity verification.');
+    // A retried job whose attempt was already completed must not run and record the checks again
+    if (attempt.status !== AttemptStatus.SUBMITTED) {
+      const stored = storedAttemptResult(attempt);
+      if (stored) return stored;
+      throw new Error(`Verification attempt #${attempt.number} is ${attempt.status}, not SUBMITTED`);
     }
 
-    console.log('[VerificationService] Valid ID documents found:', idDocuments.map(d => d.type));
-    console.log('[VerificationService] Selfie documents found:', selfieDocuments.length);
+    console.log(`[VerificationService] Processing attempt #${attempt.number} of verification ${verificationId}`);
+    const documents = verification.documents.filter(doc => doc.attemptId === attempt.id);
 
-    const documentChecks = await this.verifyDocuments(verification.documents);
-
-    const extractedData = this.mergeExtractedData(verification.documents);
-
-    // Name validation - compare requester name with extracted name
-    let nameMatch = false;
-    let nameMatchScore = 0;
-    let nameComparisonDetails: string | null = null;
+    const flags: string[] = [];
+    const warnings: string[] = [];
 
-    if (verification.user?.fullName) {
-      console.log('[VerificationService] Performing name validation...');
-      console.log('  - Requester name:', verification.user.fullName);
-      console.log('  - Extracted name:', extractedData.fullName);
+    // Pass/fail rules come from the partner's active decision policy (built-in default if none)
+    const policy = await this.decisionPolicyService.getActivePolicy(verification.partnerId);
+    console.log(`[VerificationService] Using decision policy version ${policy.version}`);
 
-      const nameComparison = this.compareNames(verification.user.fullName, extractedData.fullName);
-      nameMatch = nameComparison.match;
-      nameMatchScore = nameComparison.score;
-      nameComparisonDetails = nameComparison.details;
+    const options = verificationOptionsFrom(verification);
 
-      console.log('[VerificationService] Name comparison result:');
-      console.log('  - Match:', nameMatch);
-      console.log('  - Score:', nameMatchScore);
-      console.log('  - Details:', nameComparisonDetails);
+    // CRITICAL: Validate required documents based on verification type
+    const idDocuments = documents.filter(doc => ID_DOCUMENT_TYPES.includes(doc.type));
+    const selfieDocuments = documents.filter(doc => doc.type === 'SELFIE');
 
-      if (!nameMatch) {
-        flags.push('NAME_MISMATCH');
-        // Name mismatch is a critical error that fails verification - not a warning
-      }
-    } else {
-      console.log('[VerificationService] No requester name provided, skipping name validation');
-      warnings.push('Name validation skipped - no requester name provided');
-    }
+    console.log('[VerificationService] Documents present:', documents.map(d => d.type));
+    console.log('[VerificationService] Verification type:', verification.type);
 
-    // Document expiry validation
-    const documentExpired = this.checkDocumentExpiry(extractedData.expiryDate);
-    if (documentExpired) {
-      flags.push('DOCUMENT_EXPIRED');
-      const expiryDate = extractedData.expiryDate ? new Date(extractedData.expiryDate).toLocaleDateString() : 'unknown';
-      warnings.push(`Document expired on ${expiryDate}`);
-      console.log('[VerificationService] Document is EXPIRED - expiry date:', expiryDate);
-    } else if (extractedData.expiryDate) {
-      console.log('[VerificationService] Document is valid - expiry date:', extractedData.expiryDate);
-    } else {
-      console.log('[VerificationService] No expiry date found on document');
-      warnings.push('Could not verify document expiry - no expiry date found');
+    const missingDocuments = this.getMissingDocumentsError({ type: verification.type, documents });
+    if (missingDocuments) {
+      console.log('[VerificationService] FAILED:', missingDocuments);
+      throw new Error(missingDocuments);
     }
 
-    const documentTampered = this.detectTampering(verification.documents);
-    if (documentTampered) {
-      flags.push('POSSIBLE_TAMPERING');
-    }
+    console.log('[VerificationService] Valid ID documents found:', idDocuments.map(d => d.type));
+    console.log('[VerificationService] Selfie documents found:', selfieDocuments.length);
 
-    // Face comparison - compare document photo with selfie
-    let faceMatch = false;
-    let faceMatchScore = 0;
-    let faceComparisonDetails: any = null;
-
-    const idDocument = verification.documents.find(doc =>
-      doc.type === 'DRIVERS_LICENSE' ||
-      doc.type === 'PASSPORT' ||
-      doc.type === 'NATIONAL_ID' ||
-      doc.type === 'RESIDENCE_PERMIT' ||
-      doc.type === 'PERMANENT_RESIDENT_CARD'
-    );
-    const selfieDocument = verification.documents.find(doc => doc.type === 'SELFIE');
+    const documentChecks = await this.verifyDocuments(documents);
 
-    if (idDocument && selfieDocument) {
-      console.log('[VerificationService] Performing face comparison...');
-      console.log('  - ID Document URL:', idDocument.originalUrl);
-      console.log('  - Selfie URL:', selfieDocument.originalUrl);
+    const merged = this.fieldMergeService.merge(documents);
+    const extractedData = merged.data;
+    console.log('[VerificationService] Merged extracted data:', JSON.stringify(extractedData, null, 2));
 
-      try {
-        // Fetch the images from URLs
-        const idImageBuffer = await this.fetchImageFromUrl(idDocument.originalUrl);
-        const selfieImageBuffer = await this.fetchImageFromUrl(selfieDocument.originalUrl);
-
-        if (!idImageBuffer) {
-          console.error('[VerificationService] Failed to fetch ID document image');
-          flags.push('IMAGE_FETCH_FAILED');
-          warnings.push('Could not fetch ID document image for face comparison');
-        } else if (!selfieImageBuffer) {
-          console.error('[VerificationService] Failed to fetch selfie image');
-          flags.push('IMAGE_FETCH_FAILED');
-          warnings.push('Could not fetch selfie image for face comparison');
-        } else {
-          const faceComparisonResult = await this.biometricService.compareFacesWithGoogleVision(
-            idImageBuffer,
-            selfieImageBuffer
-          );
-
-          faceMatch = faceComparisonResult.match;
-          faceMatchScore = faceComparisonResult.confidence;
-          faceComparisonDetails = faceComparisonResult.details;
-
-          console.log('[VerificationService] Face comparison result:');
-          console.log('  - Match:', faceMatch);
-          console.log('  - Score:', faceMatchScore);
-          console.log('  - Details:', JSON.stringify(faceComparisonDetails));
-
-          if (!faceMatch) {
-            flags.push('FACE_MISMATCH');
-          }
-        }
-      } catch (faceError) {
-        console.error('[VerificationService] Face comparison error:', faceError);
-        flags.push('FACE_COMPARISON_ERROR');
-        warnings.push('Face comparison failed: ' + (faceError instanceof Error ? faceError.message : 'Unknown error'));
-      }
-    } else {
-      if (!idDocument) {
-        warnings.push('No ID document found for face comparison');
-      }
-      if (!selfieDocument) {
-        warnings.push('No selfie found for face comparison');
-      }
+    // Surfaced in the result so reviewers know which values to check against the images
+    const lowConfidenceFields = Object.entries(merged.sources)
+      .filter(([, source]) => source.confidence < policy.thresholds.fieldConfidence)
+      .map(([field]) => field);
+    if (lowConfidenceFields.length > 0) {
+      console.log('[VerificationService] Low-confidence fields:', lowConfidenceFields);
     }
 
-    // Get liveness check result from verification metadata
-    const metadata = verification.metadata as any || {};
-    const livenessCheck = metadata.livenessCheck ?? true; // Default to true if not set (for backwards compatibility)
-    const livenessScore = metadata.livenessScore ?? 1;
+    // Face comparison needs the photo on the front of the card
+    const idDocument = idDocuments.find(doc => doc.side !== 'BACK') || idDocuments[0];
+    const selfieDocument = selfieDocuments[0];
+    const livenessChallenge = await this.livenessChallengeService.getCompletedResult(attempt.id);
+
+    // Run every registered check module; each run is persisted with the result
+    const pipeline = verification.isSandbox ? this.sandboxCheckPipeline : this.checkPipeline;
+    const checkRuns = await pipeline.run({
+      verificationId,
+      verificationType: verification.type,
+      partnerId: verification.partnerId,
+      requesterName: verification.user?.fullName,
+      expectedDateOfBirth: options.expectedDateOfBirth,
+      expectedAddress: options.expectedAddress,
+      minimumAge: options.minimumAge,
+      metadata: (verification.metadata as any) || {},
+      documents,
+      idDocument,
+      selfieDocument,
+      livenessChallenge,
+      extractedData,
+      fieldSources: merged.sources,
+      fieldConflicts: merged.conflicts,
+      averageQuality: documentChecks.averageQuality || 0,
+      policy,
+      fetchImage: (url: string) => this.fetchImageFromUrl(url)
+    });
 
-    // Add liveness failure flag if check failed
-    if (!livenessCheck) {
-      flags.push('LIVENESS_CHECK_FAILED');
-      warnings.push('Selfie may not be a live person - possible photo or screen detected');
+    for (const run of checkRuns) {
+      flags.push(...(run.flags || []));
+      warnings.push(...(run.warnings || []));
     }
 
-    const riskLevel = this.calculateRiskLevel(flags, documentChecks);
-
-    // Check if name validation should affect pass/fail
-    // Name mismatch only fails if requester name was provided and doesn't match
-    const nameMismatchFailure = verification.user?.fullName ? !nameMatch : false;
-
-    // Include face match, name match, AND liveness check in pass/fail decision
-    const passed = flags.length === 0 &&
-                   documentChecks.averageQuality >= config.verification.minQualityScore &&
-                   !documentExpired &&
-                   !documentTampered &&
-                   !nameMismatchFailure &&
-                   faceMatch && // Face must match
-                   livenessCheck; // Liveness must pass
-
-    // Calculate weighted verification score
-    // Weights: Document Quality 20%, Face Match 35%, Name Match 25%, Liveness 20%
-    const documentQualityScore = documentChecks.averageQuality || 0;
-    const normalizedFaceScore = faceMatch ? faceMatchScore : 0;
-    const normalizedNameScore = nameMatch ? nameMatchScore : 0;
-    const normalizedLivenessScore = livenessCheck ? livenessScore : 0;
-
-    const weightedScore = (
-      (documentQualityScore * 0.20) +
-      (normalizedFaceScore * 0.35) +
-      (normalizedNameScore * 0.25) +
-      (normalizedLivenessScore * 0.20)
-    );
+    const checkRun = (name: string) => checkRuns.find(run => run.name === name);
+    const nameCheck = checkRun('name_match');
+    const faceCheck = checkRun('face_match');
+    const livenessRun = checkRun('liveness');
+
+    const nameMatch = nameCheck?.status === CheckStatus.PASSED;
+    const nameMatchScore = nameCheck?.score ?? 0;
+    const dobRun = checkRun('date_of_birth_match');
+    const dateOfBirthMatch = dobRun && dobRun.status !== CheckStatus.SKIPPED ? dobRun.status === CheckStatus.PASSED : undefined;
+    const addressRun = checkRun('address_match');
+    const addressMatch = addressRun && addressRun.status !== CheckStatus.SKIPPED ? addressRun.status === CheckStatus.PASSED : undefined;
+    const addressMatchScore = addressMatch !== undefined ? addressRun?.score ?? 0 : undefined;
+    const ageRun = checkRun('age');
+    const ageOverThreshold = ageRun && ageRun.status !== CheckStatus.SKIPPED ? ageRun.status === CheckStatus.PASSED : undefined;
+    const age = (ageRun?.details?.age as number | null | undefined) ?? undefined;
+    const documentExpired = checkRun('document_expiry')?.status === CheckStatus.FAILED;
+    // A barcode that disagrees with the printed front is a tampering signal
+    const documentTampered = checkRun('document_tampering')?.status === CheckStatus.FAILED ||
+                             checkRun('barcode')?.status === CheckStatus.FAILED;
+    const documentOriginal = checkRun('document_originality')?.status !== CheckStatus.FAILED;
+    const documentLayoutValid = checkRun('document_layout')?.status !== CheckStatus.FAILED;
+    const mrzRun = checkRun('mrz');
+    const mrzValid = mrzRun && mrzRun.status !== CheckStatus.SKIPPED ? mrzRun.status === CheckStatus.PASSED : undefined;
+    const faceMatch = faceCheck?.status === CheckStatus.PASSED;
+    const faceMatchScore = faceCheck?.score ?? 0;
+    // A skipped liveness check (no data recorded) is not treated as a failure
+    const livenessCheck = livenessRun ? livenessRun.status !== CheckStatus.FAILED && livenessRun.status !== CheckStatus.ERROR : true;
+    const livenessScore = livenessRun?.score ?? 1;
+
+    const decision = this.decisionPolicyService.evaluate(policy, {
+      flags,
+      averageQuality: documentChecks.averageQuality || 0,
+      faceMatch,
+      faceMatchScore,
+      nameMatch,
+      nameMatchScore,
+      livenessCheck,
+      livenessScore
+    });
+    const { passed, riskLevel } = decision;
+    const weightedScore = decision.score;
 
+    const { weights } = policy;
+    const breakdown = decision.scoreBreakdown;
     console.log('[VerificationService] Score calculation:', {
-      documentQuality: `${(documentQualityScore * 100).toFixed(1)}% × 20% = ${(documentQualityScore * 0.20 * 100).toFixed(1)}%`,
-      faceMatch: `${(normalizedFaceScore * 100).toFixed(1)}% × 35% = ${(normalizedFaceScore * 0.35 * 100).toFixed(1)}%`,
-      nameMatch: `${(normalizedNameScore * 100).toFixed(1)}% × 25% = ${(normalizedNameScore * 0.25 * 100).toFixed(1)}%`,
-      liveness: `${(normalizedLivenessScore * 100).toFixed(1)}% × 20% = ${(normalizedLivenessScore * 0.20 * 100).toFixed(1)}%`,
-      total: `${(weightedScore * 100).toFixed(1)}%`
+      documentQuality: `weight ${(weights.documentQuality * 100).toFixed(0)}% → ${(breakdown.documentQuality * 100).toFixed(1)}%`,
+      faceMatch: `weight ${(weights.faceMatch * 100).toFixed(0)}% → ${(breakdown.faceMatch * 100).toFixed(1)}%`,
+      nameMatch: `weight ${(weights.nameMatch * 100).toFixed(0)}% → ${(breakdown.nameMatch * 100).toFixed(1)}%`,
+      liveness: `weight ${(weights.liveness * 100).toFixed(0)}% → ${(breakdown.liveness * 100).toFixed(1)}%`,
+      total: `${(weightedScore * 100).toFixed(1)}%`,
+      blockingFlags: decision.blockingFlags,
+      advisoryFlags: decision.advisoryFlags
     });
 
     const result: VerificationResult = {
@@ -639,19 +785,27 @@ export class VerificationService {
       score: weightedScore,
       riskLevel,
       checks: {
-        documentAuthentic: !documentTampered,
+        documentAuthentic: !documentTampered && documentOriginal && documentLayoutValid && mrzValid !== false,
         documentExpired,
         documentTampered,
+        mrzValid,
         faceMatch,
         faceMatchScore,
         nameMatch,
         nameMatchScore,
+        dateOfBirthMatch,
+        addressMatch,
+        addressMatchScore,
+        ageOverThreshold,
+        age,
         livenessCheck,
         livenessScore
       },
       extractedData,
+      lowConfidenceFields,
       flags,
-      warnings
+      warnings,
+      policyVersion: policy.version
     };
 
     // Format address as string if it's an object
@@ -672,18 +826,21 @@ export class VerificationService {
     console.log('  - expectedName:', verification.user?.fullName || 'not provided');
     console.log('  - nameMatch:', nameMatch, '(score:', nameMatchScore, ')');
     console.log('  - extractedDob:', extractedData.dateOfBirth);
+    console.log('  - dateOfBirthMatch:', dateOfBirthMatch ?? 'not requested');
+    console.log('  - ageOverThreshold:', ageOverThreshold ?? 'not requested', options.minimumAge ? `(minimum ${options.minimumAge})` : '');
     console.log('  - documentNumber:', extractedData.documentNumber);
     console.log('  - expiryDate:', extractedData.expiryDate);
     console.log('  - documentExpired:', documentExpired);
     console.log('  - issuingCountry:', extractedData.issuingCountry);
     console.log('  - address:', addressString);
+    console.log('  - addressMatch:', addressMatch ?? 'not requested', addressMatchScore !== undefined ? `(score: ${addressMatchScore})` : '');
     console.log('  - faceMatch:', faceMatch);
     console.log('  - faceMatchScore:', faceMatchScore);
     console.log('  - passed:', passed);
 
     // Parse dates using helper that handles various formats (including Canadian bilingual)
-    const parsedDob = this.parseDate(extractedData.dateOfBirth);
-    const parsedExpiry = this.parseDate(extractedData.expiryDate);
+    const parsedDob = parseDocumentDate(extractedData.dateOfBirth);
+    const parsedExpiry = parseDocumentDate(extractedData.expiryDate);
 
     console.log('[VerificationService] Parsed dates:', {
       rawDob: extractedData.dateOfBirth,
@@ -714,20 +871,30 @@ export class VerificationService {
           score: result.score,
           riskLevel,
           nameMatch,
+          dateOfBirthMatch: dateOfBirthMatch ?? null,
+          addressMatch: addressMatch ?? null,
+          addressMatchScore: addressMatchScore ?? null,
+          ageOverThreshold: ageOverThreshold ?? null,
+          age: age ?? null,
           documentAuthentic: result.checks.documentAuthentic,
           documentExpired: result.checks.documentExpired,
           documentTampered: result.checks.documentTampered,
           faceMatch,
           faceMatchScore,
+          livenessCheck,
+          livenessScore,
           extractedName: extractedData.fullName || null,
           extractedDob: parsedDob,
           extractedAddress: addressString,
           documentNumber: extractedData.documentNumber || null,
           issuingCountry: extractedData.issuingCountry || null,
+          documentKey: documentKey(extractedData.documentNumber, extractedData.issuingCountry),
           expiryDate: parsedExpiry,
           extractedData: extractedData as any,
           flags,
           warnings,
+          policyId: policy.id,
+          policyVersion: policy.version,
           updatedAt: new Date()
         },
         create: {
@@ -736,484 +903,208 @@ export class VerificationService {
           score: result.score,
           riskLevel,
           nameMatch,
+          dateOfBirthMatch: dateOfBirthMatch ?? null,
+          addressMatch: addressMatch ?? null,
+          addressMatchScore: addressMatchScore ?? null,
+          ageOverThreshold: ageOverThreshold ?? null,
+          age: age ?? null,
           documentAuthentic: result.checks.documentAuthentic,
           documentExpired: result.checks.documentExpired,
           documentTampered: result.checks.documentTampered,
           faceMatch,
           faceMatchScore,
+          livenessCheck,
+          livenessScore,
           extractedName: extractedData.fullName || null,
           extractedDob: parsedDob,
           extractedAddress: addressString,
           documentNumber: extractedData.documentNumber || null,
           issuingCountry: extractedData.issuingCountry || null,
+          documentKey: documentKey(extractedData.documentNumber, extractedData.issuingCountry),
           expiryDate: parsedExpiry,
           extractedData: extractedData as any,
           flags,
-          warnings
-        }
-      });
-      console.log('verification.update verificationId:', verificationId);
-      const newStatus = passed ? VerificationStatus.COMPLETED : VerificationStatus.FAILED;
-      const completedAt = new Date();
-
-      // Update the current verification (could be original or retry)
-      await prisma.verification.update({
-        where: { id: verificationId },
-        data: {
-          status: newStatus,
-          completedAt, // Always set completedAt when verification is processed (success or failure)
-          // Increment retry count if verification failed
-          retryCount: passed ? undefined : {
-            increment: 1
-          }
+          warnings,
+          policyId: policy.id,
+          policyVersion: policy.version
         }
       });
-
-      // If this is a retry verification, also update the parent verification
-      // This ensures the parent reflects the latest status
-      if (verification.parentVerificationId) {
-        console.log('[VerificationService] Updating parent verification:', verification.parentVerificationId);
-        await prisma.verification.update({
-          where: { id: verification.parentVerificationId },
-          data: {
-            status: newStatus,
-            completedAt,
-            // Also update retry count on parent to track total attempts
-            retryCount: {
-              increment: 1
-            }
-          }
-        });
-      }
     } catch (dbError) {
       // Log error but don't fail the verification
       logger.error('[VerificationService] Failed to update verification status:', dbError);
     }
-    console.log('Send email notification to partner');
-    // Send email notification to partner
-    // For retry verifications, get partner info from parent verification
-    try {
-      const lookupId = verification.parentVerificationId || verificationId;
-      const verificationWithDetails = await prisma.verification.findUnique({
-        where: { id: lookupId },
-        include: {
-          partner: {
-            include: {
-              users: {
-                take: 1,
-                orderBy: { createdAt: 'asc' }
-              }
-            }
-          },
-          user: true
-        }
-      });
 
-      if (verificationWithDetails?.partner) {
-        const partnerEmail = verificationWithDetails.partner.users[0]?.email;
-        if (partnerEmail) {
-          logger.info(`[VerificationService] Sending completion email to partner: ${partnerEmail}`);
-
-          await this.emailService.sendVerificationCompleteEmail(
-            partnerEmail,
-            verificationWithDetails.partner.companyName,
-            verificationWithDetails.user?.fullName || 'User',
-            verificationWithDetails.user?.email || 'Unknown',
-            {
-              passed: result.passed,
-              score: result.score,
-              riskLevel: result.riskLevel,
-              extractedData: result.extractedData,
-              flags: result.flags
-            }
-          );
+    // Not caught: an attempt left SUBMITTED must fail the job so the worker retries or dead-letters it
+    await this.checkPipeline.persist(verificationId, attempt.id, checkRuns);
+    await this.attemptService.complete(attempt, result);
 
-          logger.info(`[VerificationService] Partner notification email sent successfully`);
-        } else {
-          logger.warn(`[VerificationService] No partner email found for verification: ${lookupId}`);
-        }
-      } else {
-        logger.warn(`[VerificationService] No partner associated with verification: ${lookupId}`);
-      }
-    } catch (emailError) {
-      // Log error but don't fail the verification
-      logger.error('[VerificationService] Failed to send partner notification email:', emailError);
-    }
-
-    return result;
-  }
-
-  private async verifyDocuments(documents: any[]) {
-    const qualityScores = documents
-      .map(doc => doc.qualityScore)
-      .filter((score): score is number => score !== null);
-
-    const averageQuality = qualityScores.length > 0
-      ? qualityScores.reduce((sum, score) => sum + score, 0) / qualityScores.length
-      : 0;
-
-    return {
-      averageQuality,
-      documentCount: documents.length
-    };
-  }
-
-  private mergeExtractedData(documents: any[]): ExtractedDocumentData {
-    const merged: ExtractedDocumentData = {};
-
-    console.log('[VerificationService] Merging extracted data from', documents.length, 'documents');
+    // Sandbox verifications only notify through their webhook
+    if (!verification.isSandbox) {
+      console.log('Send email notification to partner');
+      // Send email notification to partner
+      try {
+        const verificationWithDetails = await prisma.verification.findUnique({
+          where: { id: verificationId },
+          include: {
+            partner: {
+              include: {
+                users: {
+                  take: 1,
+                  orderBy: { createdAt: 'asc' }
+                }
+              }
+            },
+            user: true
+          }
+        });
 
-    // Sort documents by updatedAt/createdAt descending (newest first)
-    // This ensures the newest document's data takes priority
-    const sortedDocs = [...documents].sort((a, b) => {
-      const dateA = new Date(a.updatedAt || a.createdAt || 0).getTime();
-      const dateB = new Date(b.updatedAt || b.createdAt || 0).getTime();
-      return dateB - dateA; // Descending order (newest first)
-    });
+        if (verificationWithDetails?.partner) {
+          const partnerEmail = verificationWithDetails.partner.users[0]?.email;
+          if (partnerEmail) {
+            logger.info(`[VerificationService] Sending completion email to partner: ${partnerEmail}`);
+
+            await this.emailService.sendVerificationCompleteEmail(
+              partnerEmail,
+              verificationWithDetails.partner.companyName,
+              verificationWithDetails.user?.fullName || 'User',
+              verificationWithDetails.user?.email || 'Unknown',
+              {
+                passed: result.passed,
+                score: result.score,
+                riskLevel: result.riskLevel,
+                extractedData: result.extractedData,
+                flags: result.flags
+              }
+            );
 
-    // Filter to only include ID documents (exclude selfies from data extraction)
-    const idDocTypes = ['DRIVERS_LICENSE', 'PASSPORT', 'NATIONAL_ID', 'RESIDENCE_PERMIT', 'PERMANENT_RESIDENT_CARD'];
-    const idDocs = sortedDocs.filter(doc => idDocTypes.includes(doc.type));
-
-    console.log('[VerificationService] Processing', idDocs.length, 'ID documents (sorted by date, newest first)');
-
-    // Process newest documents first - their data takes priority
-    for (const doc of idDocs) {
-      if (doc.extractedData) {
-        const data = typeof doc.extractedData === 'string'
-          ? JSON.parse(doc.extractedData)
-          : doc.extractedData;
-
-        console.log('[VerificationService] Document', doc.id, 'type:', doc.type,
-          'updated:', doc.updatedAt || doc.createdAt,
-          'extractedData keys:', Object.keys(data).filter(k => data[k] !== null && data[k] !== undefined));
-
-        // Merge only non-null/undefined values
-        for (const [key, value] of Object.entries(data)) {
-          if (value !== null && value !== undefined && value !== '') {
-            // Skip detection metadata
-            if (key === 'autoDetected' || key === 'detectionConfidence' || key === 'detectionMethod' || key === 'detectedKeywords') {
-              continue;
-            }
-            // Since we process newest first, always use the first (newest) non-empty value
-            if (!merged[key as keyof ExtractedDocumentData]) {
-              (merged as any)[key] = value;
-            }
+            logger.info(`[VerificationService] Partner notification email sent successfully`);
+          } else {
+            logger.warn(`[VerificationService] No partner email found for verification: ${verificationId}`);
           }
+        } else {
+          logger.warn(`[VerificationService] No partner associated with verification: ${verificationId}`);
         }
+      } catch (emailError) {
+        // Log error but don't fail the verification
+        logger.error('[VerificationService] Failed to send partner notification email:', emailError);
       }
     }
 
-    console.log('[VerificationService] Final merged extracted data:', JSON.stringify(merged, null, 2));
-
-    return merged;
-  }
-
-  private checkDocumentExpiry(expiryDate?: string): boolean {
-    if (!expiryDate) return false;
-
-    const expiry = this.parseDate(expiryDate);
-    if (!expiry) return false;
-
-    const today = new Date();
-    // Set time to start of day for accurate date comparison
-    today.setHours(0, 0, 0, 0);
-    expiry.setHours(0, 0, 0, 0);
-
-    return expiry < today;
+    return result;
   }
 
   /**
-   * Parse date strings in various formats including:
-   * - ISO format: "1988-02-18"
-   * - Canadian bilingual: "18 FEB-FEV 1988", "01 MAY - MAI 96"
-   * - Korean bilingual: "13 1월-JAN 2002", "06 11월-NOV 2023"
-   * - Standard: "February 18, 1988", "18 Feb 1988"
-   * Returns null if parsing fails
+   * Why a verification cannot be submitted yet, or null when every required document is uploaded
    */
-  private parseDate(dateString?: string): Date | null {
-    if (!dateString) return null;
-
-    // Try standard Date parsing first
-    let date = new Date(dateString);
-    if (!isNaN(date.getTime())) {
-      return date;
+  getMissingDocumentsError(verification: { type: string; documents: Array<{ type: string }> }): string | null {
+    // ID document required for all types except SELFIE_ONLY
+    const hasIdDocument = verification.documents.some(doc => ID_DOCUMENT_TYPES.includes(doc.type));
+    if (verification.type !== 'SELFIE_ONLY' && !hasIdDocument) {
+      return 'No valid ID document found. Please upload a government-issued ID (driver\'s license, passport, national ID, etc.) before submitting verification.';
     }
 
-    // Support both 3-letter abbreviations and full month names
-    const months: Record<string, number> = {
-      'JAN': 0, 'JANUARY': 0, 'JANVIER': 0,
-      'FEB': 1, 'FEBRUARY': 1, 'FEVRIER': 1, 'FEV': 1,
-      'MAR': 2, 'MARCH': 2, 'MARS': 2,
-      'APR': 3, 'APRIL': 3, 'AVRIL': 3, 'AVR': 3,
-      'MAY': 4, 'MAI': 4,
-      'JUN': 5, 'JUNE': 5, 'JUIN': 5,
-      'JUL': 6, 'JULY': 6, 'JUILLET': 6, 'JUIL': 6,
-      'AUG': 7, 'AUGUST': 7, 'AOUT': 7, 'AOU': 7,
-      'SEP': 8, 'SEPTEMBER': 8, 'SEPTEMBRE': 8, 'SEPT': 8,
-      'OCT': 9, 'OCTOBER': 9, 'OCTOBRE': 9,
-      'NOV': 10, 'NOVEMBER': 10, 'NOVEMBRE': 10,
-      'DEC': 11, 'DECEMBER': 11, 'DECEMBRE': 11
-    };
-
-    // Helper to convert 2-digit year to 4-digit year
-    const toFullYear = (year: number): number => {
-      if (year >= 100) return year; // Already 4 digits
-      // Assume years 00-30 are 2000s, 31-99 are 1900s
-      return year <= 30 ? 2000 + year : 1900 + year;
-    };
-
-    // Handle Korean bilingual format: "13 1월-JAN 2002", "06 11월-NOV 2023"
-    // Korean months use number + 월 (e.g., 1월 = January, 12월 = December)
-    const koreanMatch = dateString.match(/(\d{1,2})\s+(\d{1,2})월\s*-\s*[A-Z]{3,9}\s+(\d{2,4})/i);
-    if (koreanMatch) {
-      const day = parseInt(koreanMatch[1], 10);
-      const month = parseInt(koreanMatch[2], 10) - 1; // Korean months are 1-based, JS is 0-based
-      const year = toFullYear(parseInt(koreanMatch[3], 10));
-
-      if (month >= 0 && month <= 11) {
-        return new Date(year, month, day);
-      }
-    }
-
-    // Handle Canadian bilingual format: "18 FEB-FEV 1988", "01 MAY - MAI 96", "24 JULY-JUIL 28"
-    // Allows optional spaces around hyphen, variable length month names, and 2 or 4 digit years
-    const bilingualMatch = dateString.match(/(\d{1,2})\s+([A-Z]{3,9})\s*-\s*[A-Z]{3,9}\s+(\d{2,4})/i);
-    if (bilingualMatch) {
-      const day = parseInt(bilingualMatch[1], 10);
-      const monthStr = bilingualMatch[2].toUpperCase();
-      const year = toFullYear(parseInt(bilingualMatch[3], 10));
-
-      const month = months[monthStr];
-      if (month !== undefined) {
-        return new Date(year, month, day);
-      }
-    }
-
-    // Handle format: "18 FEB 1988", "18 FEB 88", "FEB 18 1988", "FEB 18 88", "18 JULY 2028"
-    const simpleMatch = dateString.match(/(\d{1,2})\s+([A-Z]{3,9})\s+(\d{2,4})/i) ||
-                        dateString.match(/([A-Z]{3,9})\s+(\d{1,2})\s+(\d{2,4})/i);
-    if (simpleMatch) {
-      // Determine if day or month came first
-      if (/^\d/.test(simpleMatch[1])) {
-        // Day first: "18 FEB 1988" or "18 FEB 88"
-        const day = parseInt(simpleMatch[1], 10);
-        const month = months[simpleMatch[2].toUpperCase()];
-        const year = toFullYear(parseInt(simpleMatch[3], 10));
-        if (month !== undefined) {
-          return new Date(year, month, day);
-        }
-      } else {
-        // Month first: "FEB 18 1988" or "FEB 18 88"
-        const month = months[simpleMatch[1].toUpperCase()];
-        const day = parseInt(simpleMatch[2], 10);
-        const year = toFullYear(parseInt(simpleMatch[3], 10));
-        if (month !== undefined) {
-          return new Date(year, month, day);
-        }
-      }
-    }
-
-    // Handle DD/MM/YYYY, DD/MM/YY, MM/DD/YYYY, or MM/DD/YY format
-    const slashMatch = dateString.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
-    if (slashMatch) {
-      const first = parseInt(slashMatch[1], 10);
-      const second = parseInt(slashMatch[2], 10);
-      const year = toFullYear(parseInt(slashMatch[3], 10));
-
-      // Assume DD/MM/YYYY for values where first > 12
-      if (first > 12) {
-        return new Date(year, second - 1, first);
-      } else if (second > 12) {
-        return new Date(year, first - 1, second);
-      } else {
-        // Ambiguous - assume DD/MM/YYYY (more common internationally)
-        return new Date(year, second - 1, first);
-      }
+    // Selfie required for IDENTITY, FULL_KYC, and SELFIE_ONLY
+    const requiresSelfie = ['IDENTITY', 'FULL_KYC', 'SELFIE_ONLY'].includes(verification.type);
+    if (requiresSelfie && !verification.documents.some(doc => doc.type === 'SELFIE')) {
+      return 'No selfie found. Please upload a selfie photo for identity verification.';
     }
 
-    console.log('[VerificationService] Could not parse date:', dateString);
     return null;
   }
 
   /**
-   * Compare two names with fuzzy matching
-   * Returns a score between 0 and 1 (1 = exact match)
+   * Job handler for a submitted verification: runs the checks, sends the
+   * completion webhook and returns what the submit endpoint used to respond with.
    */
-  private compareNames(expectedName: string | null | undefined, extractedName: string | null | undefined): { match: boolean; score: number; details: string } {
-    if (!expectedName || !extractedName) {
-      return { match: false, score: 0, details: 'One or both names are missing' };
-    }
+  async processSubmission(verificationId: string, attemptId?: string) {
+    const result = await this.performVerification(verificationId, attemptId);
 
-    // Normalize names: lowercase, remove extra spaces, remove special characters
-    const normalize = (name: string): string => {
-      return name
-        .toLowerCase()
-        .trim()
-        .replace(/[^a-z\s]/g, '') // Remove non-alpha characters except spaces
-        .replace(/\s+/g, ' ');    // Normalize multiple spaces to single space
-    };
-
-    const expected = normalize(expectedName);
-    const extracted = normalize(extractedName);
-
-    // Exact match after normalization
-    if (expected === extracted) {
-      return { match: true, score: 1.0, details: 'Exact match' };
-    }
-
-    // Split into parts and check if all parts of one exist in the other
-    const expectedParts = expected.split(' ').filter(p => p.length > 0);
-    const extractedParts = extracted.split(' ').filter(p => p.length > 0);
-
-    // Check if all expected name parts exist in extracted (handles name order differences)
-    const allExpectedInExtracted = expectedParts.every(part =>
-      extractedParts.some(ep => ep === part || this.levenshteinDistance(part, ep) <= 1)
-    );
-
-    const allExtractedInExpected = extractedParts.every(part =>
-      expectedParts.some(ep => ep === part || this.levenshteinDistance(part, ep) <= 1)
-    );
+    // Get updated verification to include retry info
+    const updatedVerification = await this.getVerification(verificationId);
+    const remainingRetries = updatedVerification
+      ? updatedVerification.maxRetries - updatedVerification.retryCount
+      : 0;
 
-    if (allExpectedInExtracted && allExtractedInExpected) {
-      return { match: true, score: 0.95, details: 'Name parts match (different order or minor typos)' };
+    const withholdDob = !!updatedVerification?.withholdDob;
+    if (updatedVerification?.webhookUrl) {
+      await this.webhookService.sendWebhook(updatedVerification.webhookUrl, {
+        event: WebhookEvent.VERIFICATION_COMPLETED,
+        verificationId,
+        status: result.passed ? VerificationStatus.COMPLETED : VerificationStatus.FAILED,
+        result: withholdDob ? withholdDateOfBirth(result) : result,
+        timestamp: new Date().toISOString()
+      });
     }
 
-    if (allExpectedInExtracted || allExtractedInExpected) {
-      return { match: true, score: 0.85, details: 'Partial name match (one contains all parts of the other)' };
+    const response = withholdDob ? withholdDateOfBirth(result) : result;
+
+    // If verification failed, include retry information
+    if (!result.passed) {
+      return {
+        ...response,
+        canRetry: remainingRetries > 0,
+        remainingRetries,
+        retryCount: updatedVerification?.retryCount || 0,
+        maxRetries: updatedVerification?.maxRetries || 5,
+        attempts: formatAttempts(updatedVerification?.attempts),
+        message: remainingRetries > 0
+          ? `Verification failed. You have ${remainingRetries} attempt(s) remaining. Please re-upload your documents and try again.`
+          : 'Verification failed. Maximum retry limit reached. Please contact the organization that requested this verification.'
+      };
     }
 
-    // Calculate similarity score using Levenshtein distance
-    const distance = this.levenshteinDistance(expected, extracted);
-    const maxLength = Math.max(expected.length, extracted.length);
-    const similarity = 1 - (distance / maxLength);
-
-    // Consider it a match if similarity is above 0.8 (allows for minor OCR errors)
-    const isMatch = similarity >= 0.8;
-
-    return {
-      match: isMatch,
-      score: similarity,
-      details: isMatch ? `Similar names (${(similarity * 100).toFixed(1)}% match)` : `Names differ significantly (${(similarity * 100).toFixed(1)}% similarity)`
-    };
+    return response;
   }
 
   /**
-   * Calculate Levenshtein distance between two strings
+   * Dead-letter handler of the processing job: fail the attempt it was
+   * processing and tell the partner, so the verification does not stay
+   * IN_PROGRESS with nobody told
    */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const m = str1.length;
-    const n = str2.length;
-
-    // Create a 2D array to store distances
-    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-    // Initialize base cases
-    for (let i = 0; i <= m; i++) dp[i][0] = i;
-    for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-    // Fill in the rest of the matrix
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (str1[i - 1] === str2[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1];
-        } else {
-          dp[i][j] = 1 + Math.min(
-            dp[i - 1][j],     // deletion
-            dp[i][j - 1],     // insertion
-            dp[i - 1][j - 1]  // substitution
-          );
-        }
-      }
+  async abandonSubmission(verificationId: string, attemptId: string | undefined, reason: string) {
+    const attempt = attemptId
+      ? await prisma.verificationAttempt.findUnique({ where: { id: attemptId } })
+      : await this.attemptService.getCurrent(verificationId);
+    if (!attempt || attempt.verificationId !== verificationId) {
+      logger.warn(`[VerificationService] No attempt to fail for abandoned verification ${verificationId}`);
+      return;
     }
 
-    return dp[m][n];
-  }
-
-  private detectTampering(documents: any[]): boolean {
-    // Tampering detection should only flag obvious manipulation
-    // Low quality or OCR confidence alone doesn't indicate tampering
-    // (could be lighting, camera quality, document wear, etc.)
-
-    for (const doc of documents) {
-      // Skip selfie documents - they don't need tampering checks
-      if (doc.type === 'SELFIE') continue;
-
-      const qualityScore = doc.qualityScore || 1;
-      const confidence = doc.extractedData?.confidence || 1;
-
-      console.log('[VerificationService] Tampering check for document:', {
-        type: doc.type,
-        qualityScore,
-        confidence,
-        isBlurry: doc.isBlurry,
-        hasGlare: doc.hasGlare
-      });
-
-      // Only flag as tampered if quality is EXTREMELY low (< 0.15)
-      // This indicates potential digital manipulation or fake document
-      if (qualityScore < 0.15) {
-        console.log('[VerificationService] Document flagged for very low quality:', qualityScore);
-        return true;
-      }
-
-      // Only flag if OCR confidence is EXTREMELY low (< 0.2)
-      // This could indicate text has been digitally altered
-      if (confidence < 0.2) {
-        console.log('[VerificationService] Document flagged for very low OCR confidence:', confidence);
-        return true;
-      }
+    const failed = await this.attemptService.failSubmitted(attempt, reason);
+    if (!failed) return;
+    logger.warn(`[VerificationService] Attempt #${attempt.number} of verification ${verificationId} failed: ${reason}`);
+
+    const verification = await prisma.verification.findUnique({ where: { id: verificationId } });
+    if (verification?.webhookUrl) {
+      await this.webhookService.sendWebhook(verification.webhookUrl, {
+        event: WebhookEvent.VERIFICATION_FAILED,
+        verificationId,
+        status: VerificationStatus.FAILED,
+        timestamp: new Date().toISOString()
+      }, verificationId);
     }
-
-    return false;
   }
 
-  private calculateRiskLevel(flags: string[], documentChecks: any): RiskLevel {
-    if (flags.includes('POSSIBLE_TAMPERING')) {
-      return RiskLevel.CRITICAL;
-    }
-
-    if (flags.includes('FACE_MISMATCH')) {
-      return RiskLevel.CRITICAL;
-    }
-
-    if (flags.includes('NAME_MISMATCH')) {
-      return RiskLevel.CRITICAL;
-    }
-
-    // Liveness check failure is critical - possible spoofing attempt
-    if (flags.includes('LIVENESS_CHECK_FAILED')) {
-      return RiskLevel.CRITICAL;
-    }
-
-    if (flags.includes('IMAGE_FETCH_FAILED')) {
-      return RiskLevel.HIGH;
-    }
-
-    if (flags.includes('FACE_COMPARISON_ERROR')) {
-      return RiskLevel.HIGH;
-    }
-
-    if (flags.includes('DOCUMENT_EXPIRED')) {
-      return RiskLevel.HIGH;
-    }
-
-    if (documentChecks.averageQuality < 0.5) {
-      return RiskLevel.HIGH;
-    }
+  private async verifyDocuments(documents: any[]) {
+    const qualityScores = documents
+      .map(doc => doc.qualityScore)
+      .filter((score): score is number => score !== null);
 
-    if (documentChecks.averageQuality < 0.7) {
-      return RiskLevel.MEDIUM;
-    }
+    const averageQuality = qualityScores.length > 0
+      ? qualityScores.reduce((sum, score) => sum + score, 0) / qualityScores.length
+      : 0;
 
-    return RiskLevel.LOW;
+    return {
+      averageQuality,
+      documentCount: documents.length
+    };
   }
 
   async comparefaces(verificationId: string, documentImageBuffer: Buffer, selfieBuffer: Buffer) {
     console.log('[VerificationService] Starting face comparison for verification:', verificationId);
 
-    // Use the new Google Vision-based comparison
-    const result = await this.biometricService.compareFacesWithGoogleVision(
+    // Providers and their order come from config.biometrics
+    const result = await this.biometricService.compareFaceImages(
       documentImageBuffer,
       selfieBuffer
     );
@@ -1239,60 +1130,84 @@ export class VerificationService {
   }
 
   async getVerification(verificationId: string) {
+    const verification = await this.findVerification(verificationId);
+
+    // Verifications created before attempts existed get their first attempt on first read
+    if (verification && verification.attempts.length === 0) {
+      await this.attemptService.getCurrent(verificationId);
+      return this.findVerification(verificationId);
+    }
+
+    return verification;
+  }
+
+  private async findVerification(verificationId: string) {
     return await prisma.verification.findUnique({
       where: { id: verificationId },
       include: {
         documents: true,
         results: true,
-        user: true
+        user: true,
+        attempts: {
+          orderBy: { number: 'asc' },
+          include: { documents: true }
+        }
       }
     });
   }
 
   /**
-   * Get the latest retry verification for a given parent verification ID
-   * Returns the most recent retry linked to the parent
+   * Store the corrected document image where the upload itself is stored: S3, or the local uploads folder
    */
-  async getLatestRetryVerification(parentVerificationId: string): Promise<Awaited<ReturnType<typeof this.getVerification>> | null> {
-    console.log('[VerificationService] Looking for retries of verification:', parentVerificationId);
-
-    // Find the latest retry that has this verification as parent
-    const latestRetry = await prisma.verification.findFirst({
-      where: { parentVerificationId },
-      orderBy: { createdAt: 'desc' },
-      include: {
-        documents: true,
-        results: true,
-        user: true
+  private async storeProcessedImage(verificationId: string, filename: string, image: Buffer): Promise<string | null> {
+    try {
+      if (s3Service.isEnabled()) {
+        const result = await s3Service.uploadProcessedDocument(verificationId, image, filename);
+        return result.url;
       }
-    });
-
-    console.log('[VerificationService] Found retry:', latestRetry ? latestRetry.id : 'none');
 
-    return latestRetry;
+      const uploadDir = path.join(__dirname, '../../uploads/documents', verificationId);
+      if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(uploadDir, `processed-${filename}`), image);
+      return `${process.env.API_URL || 'http://localhost:3002'}/uploads/documents/${verificationId}/processed-${filename}`;
+    } catch (error) {
+      console.error(`[VerificationService] Failed to store processed image ${filename}:`, error);
+      return null;
+    }
   }
 
   /**
-   * Get total retry count for a verification chain
-   * Counts all retries linked to the original verification
+   * Store the frame chosen as the selfie where uploaded selfies are stored: S3, or the local uploads folder
    */
-  async getTotalRetryCount(verificationId: string): Promise<number> {
-    // Find the root verification (in case we're given a retry ID)
-    const verification = await prisma.verification.findUnique({
-      where: { id: verificationId }
-    });
-
-    if (!verification) return 0;
-
-    // If this is a retry, get the root verification
-    const rootId = verification.parentVerificationId || verificationId;
+  private async storeSelfieFrame(verificationId: string, image: Buffer): Promise<string> {
+    const filename = `selfie-${Date.now()}.jpg`;
+    if (s3Service.isEnabled()) {
+      const result = await s3Service.uploadSelfie(verificationId, image, filename, 'image/jpeg');
+      return result.url;
+    }
 
-    // Count all verifications that have this as parent (direct retries)
-    const count = await prisma.verification.count({
-      where: { parentVerificationId: rootId }
-    });
+    const uploadDir = path.join(__dirname, '../../uploads/documents', verificationId);
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    fs.writeFileSync(path.join(uploadDir, filename), image);
+    return `${process.env.API_URL || 'http://localhost:3002'}/uploads/documents/${verificationId}/${filename}`;
+  }
 
-    return count+1;
+  private async deleteProcessedImage(url: string): Promise<void> {
+    try {
+      if (s3Service.isEnabled()) {
+        const key = s3Service.extractKeyFromUrl(url);
+        if (key) await s3Service.deleteFile(key);
+      } else {
+        const localPath = path.join(__dirname, '../..', url.substring(url.indexOf('/uploads/')));
+        if (fs.existsSync(localPath)) fs.unlinkSync(localPath);
+      }
+    } catch (error) {
+      console.error(`[VerificationService] Failed to delete processed image: ${url}`, error);
+    }
   }
 
   /**
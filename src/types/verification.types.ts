@@ -4,7 +4,9 @@ import {
   VerificationType,
   DocumentType,
   DocumentSide,
-  RiskLevel
+  RiskLevel,
+  CheckStatus,
+  AttemptStatus
 } from '@prisma/client';
 
 // Re-export for convenience
@@ -13,10 +15,23 @@ export {
   VerificationType,
   DocumentType,
   DocumentSide,
-  RiskLevel
+  RiskLevel,
+  CheckStatus,
+  AttemptStatus
 };
 
-export interface CreateVerificationRequest {
+/**
+ * Per-request options a partner can set when creating a verification
+ */
+export interface VerificationOptions {
+  expectedDateOfBirth?: string; // YYYY-MM-DD
+  expectedAddress?: DocumentAddress | string;
+  minimumAge?: number;
+  withholdDateOfBirth?: boolean; // only return ageOverThreshold, never the date of birth
+  expiresInHours?: number; // defaults to config.verification.maxVerificationAgeDays
+}
+
+export interface CreateVerificationRequest extends VerificationOptions {
   userId?: string;
   type: VerificationType;
   webhookUrl?: string;
@@ -29,6 +44,14 @@ export interface DocumentUpload {
   side?: DocumentSide;
 }
 
+export interface DocumentAddress {
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
 export interface ExtractedDocumentData {
   documentNumber?: string;
   firstName?: string;
@@ -40,15 +63,19 @@ export interface ExtractedDocumentData {
   issuingCountry?: string;
   issueDate?: string;
   expiryDate?: string;
-  address?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    postalCode?: string;
-    country?: string;
-  };
+  address?: DocumentAddress;
   mrz?: string;
-  confidence?: number;
+  barcode?: string; // raw AAMVA PDF417 payload from the back of a licence
+  confidence?: number; // overall confidence of the read
+  fieldConfidence?: Record<string, ExtractedFieldConfidence>; // keyed by field name
+}
+
+/**
+ * How much a single extracted field can be trusted and what read it
+ */
+export interface ExtractedFieldConfidence {
+  confidence: number; // 0-1
+  source: string; // OCR provider, 'aamva_barcode', 'mrz' or 'sandbox'
 }
 
 export interface DocumentQualityCheck {
@@ -59,6 +86,24 @@ export interface DocumentQualityCheck {
   issues: string[];
 }
 
+/**
+ * ISO/IEC 7810 size a document type is issued in: ID-1 for cards, ID-3 for passport pages
+ */
+export type DocumentFormat = 'ID-1' | 'ID-3';
+
+export interface DocumentLayoutResult {
+  valid: boolean;
+  format: DocumentFormat | null; // null for document types without a fixed size
+  aspectRatio: number; // long side over short side of the (flattened) image
+  expectedAspectRatio: number | null;
+  outlineFound: boolean; // without an outline the image still includes background
+  portraitRequired: boolean;
+  portraitFound?: boolean; // undefined when face detection was unavailable
+  mrzRequired: boolean;
+  mrzFound?: boolean;
+  issues: string[];
+}
+
 export interface BiometricData {
   faceDetected: boolean;
   faceCount: number;
@@ -93,7 +138,15 @@ export interface LivenessCheckResult {
     // Video-based checks
     blinkDetected?: boolean;
     headMovement?: boolean;
-    textureAnalysis?: boolean;
+    headMovementScore?: number; // widest head turn or nod over the frames
+    microMotionScore?: number;  // median change of face shape between frames
+    microMotionPass?: boolean;
+    textureAnalysis?: boolean;  // face texture consistent from frame to frame
+    textureConsistencyScore?: number;
+    samePerson?: boolean;       // every face frame matches the selected frame
+    samePersonScore?: number;   // lowest face comparison score against the selected frame
+    framesAnalyzed?: number;
+    selectedFrame?: number;     // sharpest frontal frame, used as the selfie
 
     // Single-image anti-spoofing checks (heuristic)
     textureScore?: number;
@@ -144,6 +197,129 @@ export interface LivenessCheckResult {
   };
 }
 
+/**
+ * Head pose, eyes and expression of the face in one camera frame
+ */
+export interface FaceFrameAnalysis {
+  faceDetected: boolean;
+  faceCount: number;
+  landmarks?: FaceLandmarks; // pixels of the upright frame
+  eyeAspectRatio?: number; // eye height over width, mean of both eyes; drops when the eyes close
+  eyesOpen?: boolean; // the provider's own reading, when it gives one
+  smiling?: boolean;
+  sunglasses?: boolean;
+  boundingBox?: FaceBoundingBox;
+  yaw?: number; // degrees, in the provider's convention
+  pitch?: number;
+  roll?: number;
+}
+
+/**
+ * Face box as fractions of the frame's width and height
+ */
+export interface FaceBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One of nine equal areas of an image, three across and three down
+ */
+export type ImageRegion =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Exposure of an image and where its highlights are blown out
+ */
+export interface LightingAnalysis {
+  brightness: number; // mean luminance, 0-255
+  glareRegions: ImageRegion[];
+}
+
+/**
+ * What the applicant should change before taking the picture again
+ */
+export enum CaptureGuidanceCode {
+  TOO_DARK = 'TOO_DARK',
+  TOO_BRIGHT = 'TOO_BRIGHT',
+  BLURRY = 'BLURRY',
+  GLARE = 'GLARE',
+  DOCUMENT_CUT_OFF = 'DOCUMENT_CUT_OFF',
+  LOW_RESOLUTION = 'LOW_RESOLUTION',
+  NO_FACE = 'NO_FACE',
+  MULTIPLE_FACES = 'MULTIPLE_FACES',
+  FACE_TOO_SMALL = 'FACE_TOO_SMALL',
+  FACE_TOO_CLOSE = 'FACE_TOO_CLOSE',
+  CENTER_FACE = 'CENTER_FACE',
+  FACE_CAMERA = 'FACE_CAMERA',
+  TILT_HEAD = 'TILT_HEAD',
+  LOOK_STRAIGHT = 'LOOK_STRAIGHT',
+  OPEN_EYES = 'OPEN_EYES',
+  REMOVE_SUNGLASSES = 'REMOVE_SUNGLASSES'
+}
+
+export interface CaptureGuidance {
+  code: CaptureGuidanceCode;
+  message: string;
+  region?: ImageRegion;
+}
+
+/**
+ * Pre-upload check of a capture; nothing is stored
+ */
+export interface CaptureFeedback {
+  acceptable: boolean;
+  qualityScore: number | null;
+  guidance: CaptureGuidance[];
+}
+
+/**
+ * Actions of an active liveness challenge; left and right are the applicant's own
+ */
+export enum LivenessAction {
+  TURN_LEFT = 'TURN_LEFT',
+  TURN_RIGHT = 'TURN_RIGHT',
+  BLINK = 'BLINK',
+  SMILE = 'SMILE'
+}
+
+export interface LivenessChallengeResult {
+  passed: boolean;
+  score: number; // share of the actions confirmed, in order
+  actions: Array<{ action: LivenessAction; confirmed: boolean; frame: number | null }>;
+  framesAnalyzed: number;
+  framesWithFace: number;
+  reason?: string; // why the frames could not be evaluated
+  method: string; // 'active_challenge' or 'sandbox'
+  frameUrl?: string; // a face frame of a passed challenge, compared with the selfie
+}
+
+/**
+ * Presentation-attack analysis of an ID document image: was the physical
+ * document photographed, or a screen, photocopy or printout of it.
+ * Scores are 0-1, high means the image looks like the original document.
+ */
+export interface DocumentOriginalityResult {
+  isOriginal: boolean;
+  score: number;
+  reasons: string[]; // 'screen_recapture', 'printout', 'photocopy'
+  signals: {
+    moireScore: number;         // interference pattern of a photographed screen
+    moirePass: boolean;
+    halftoneScore: number;      // dot pattern of a printer
+    halftonePass: boolean;
+    colorScore: number;         // photocopies lose the document's colours
+    colorPass: boolean;
+    dynamicRangeScore: number;  // screens cannot show deep black
+    dynamicRangePass: boolean;
+  };
+  analyzedAt: string;
+}
+
 export interface VerificationResult {
   passed: boolean;
   score: number;
@@ -152,16 +328,60 @@ export interface VerificationResult {
     documentAuthentic: boolean;
     documentExpired: boolean;
     documentTampered: boolean;
+    mrzValid?: boolean; // undefined when no MRZ was read
     faceMatch?: boolean;
     faceMatchScore?: number;
     nameMatch?: boolean;
     nameMatchScore?: number;
+    dateOfBirthMatch?: boolean; // undefined when no expected date of birth was supplied
+    addressMatch?: boolean;     // undefined when no expected address was supplied
+    addressMatchScore?: number;
+    ageOverThreshold?: boolean; // undefined when no minimum age was requested
+    age?: number;
     livenessCheck?: boolean;
     livenessScore?: number;
   };
   extractedData: ExtractedDocumentData;
+  lowConfidenceFields?: string[]; // extracted fields below the policy's fieldConfidence threshold
   flags: string[];
   warnings: string[];
+  policyVersion?: number;
+}
+
+export interface DecisionPolicyWeights {
+  documentQuality: number;
+  faceMatch: number;
+  nameMatch: number;
+  liveness: number;
+}
+
+export interface DecisionPolicyThresholds {
+  minQualityScore: number;
+  minScore: number;
+  faceMatch: number;
+  nameMatch: number;
+  liveness: number;
+  addressMatch: number;
+  duplicateFace: number; // minimum face template similarity treated as the same person
+  fieldConfidence: number; // extracted fields below this are not trusted to decide a check
+}
+
+export interface DecisionPolicyRiskRules {
+  flags: Array<{ flag: string; riskLevel: RiskLevel }>;
+  quality: Array<{ below: number; riskLevel: RiskLevel }>;
+}
+
+export interface DecisionPolicyRules {
+  weights: DecisionPolicyWeights;
+  thresholds: DecisionPolicyThresholds;
+  blockingFlags: string[];
+  advisoryFlags: string[];
+  riskRules: DecisionPolicyRiskRules;
+}
+
+export interface DecisionPolicy extends DecisionPolicyRules {
+  id: string | null; // null for the built-in default policy
+  version: number;
 }
 
 export interface WebhookPayload {
@@ -177,6 +397,7 @@ export enum WebhookEvent {
   VERIFICATION_UPDATED = 'verification.updated',
   VERIFICATION_COMPLETED = 'verification.completed',
   VERIFICATION_FAILED = 'verification.failed',
+  VERIFICATION_EXPIRED = 'verification.expired',
   DOCUMENT_UPLOADED = 'document.uploaded',
   DOCUMENT_PROCESSED = 'document.processed'
 }
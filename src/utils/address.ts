@@ -0,0 +1,269 @@
+import { DocumentAddress } from '../types/verification.types';
+
+// USPS / Canada Post street type and directional abbreviations
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  'STREET': 'ST', 'STR': 'ST', 'AVENUE': 'AVE', 'AV': 'AVE', 'ROAD': 'RD', 'DRIVE': 'DR',
+  'BOULEVARD': 'BLVD', 'BOUL': 'BLVD', 'CRESCENT': 'CRES', 'CRESCENTS': 'CRES', 'COURT': 'CT',
+  'PLACE': 'PL', 'LANE': 'LN', 'TERRACE': 'TER', 'HIGHWAY': 'HWY', 'PARKWAY': 'PKWY',
+  'CIRCLE': 'CIR', 'SQUARE': 'SQ', 'TRAIL': 'TRL', 'GATE': 'GT', 'GROVE': 'GRV',
+  'HEIGHTS': 'HTS', 'POINT': 'PT', 'MOUNT': 'MT', 'EXPRESSWAY': 'EXPY', 'FREEWAY': 'FWY',
+  'NORTH': 'N', 'SOUTH': 'S', 'EAST': 'E', 'WEST': 'W',
+  'NORTHEAST': 'NE', 'NORTHWEST': 'NW', 'SOUTHEAST': 'SE', 'SOUTHWEST': 'SW',
+  'SAINT': 'ST'
+};
+
+const UNIT_DESIGNATORS = ['APARTMENT', 'APT', 'UNIT', 'SUITE', 'STE', 'ROOM', 'RM', 'FLOOR', 'FL', 'BLDG', 'BUILDING'];
+
+const REGION_CODES: Record<string, string> = {
+  // Canadian provinces and territories
+  'ALBERTA': 'AB', 'BRITISH COLUMBIA': 'BC', 'MANITOBA': 'MB', 'NEW BRUNSWICK': 'NB',
+  'NEWFOUNDLAND AND LABRADOR': 'NL', 'NEWFOUNDLAND': 'NL', 'NOVA SCOTIA': 'NS',
+  'NORTHWEST TERRITORIES': 'NT', 'NUNAVUT': 'NU', 'ONTARIO': 'ON', 'PRINCE EDWARD ISLAND': 'PE',
+  'QUEBEC': 'QC', 'SASKATCHEWAN': 'SK', 'YUKON': 'YT',
+  // US states
+  'ALABAMA': 'AL', 'ALASKA': 'AK', 'ARIZONA': 'AZ', 'ARKANSAS': 'AR', 'CALIFORNIA': 'CA',
+  'COLORADO': 'CO', 'CONNECTICUT': 'CT', 'DELAWARE': 'DE', 'DISTRICT OF COLUMBIA': 'DC',
+  'FLORIDA': 'FL', 'GEORGIA': 'GA', 'HAWAII': 'HI', 'IDAHO': 'ID', 'ILLINOIS': 'IL',
+  'INDIANA': 'IN', 'IOWA': 'IA', 'KANSAS': 'KS', 'KENTUCKY': 'KY', 'LOUISIANA': 'LA',
+  'MAINE': 'ME', 'MARYLAND': 'MD', 'MASSACHUSETTS': 'MA', 'MICHIGAN': 'MI', 'MINNESOTA': 'MN',
+  'MISSISSIPPI': 'MS', 'MISSOURI': 'MO', 'MONTANA': 'MT', 'NEBRASKA': 'NE', 'NEVADA': 'NV',
+  'NEW HAMPSHIRE': 'NH', 'NEW JERSEY': 'NJ', 'NEW MEXICO': 'NM', 'NEW YORK': 'NY',
+  'NORTH CAROLINA': 'NC', 'NORTH DAKOTA': 'ND', 'OHIO': 'OH', 'OKLAHOMA': 'OK', 'OREGON': 'OR',
+  'PENNSYLVANIA': 'PA', 'RHODE ISLAND': 'RI', 'SOUTH CAROLINA': 'SC', 'SOUTH DAKOTA': 'SD',
+  'TENNESSEE': 'TN', 'TEXAS': 'TX', 'UTAH': 'UT', 'VERMONT': 'VT', 'VIRGINIA': 'VA',
+  'WASHINGTON': 'WA', 'WEST VIRGINIA': 'WV', 'WISCONSIN': 'WI', 'WYOMING': 'WY'
+};
+const REGION_CODE_SET = new Set(Object.values(REGION_CODES));
+
+const CA_POSTAL_CODE = /\b([A-Z]\d[A-Z])\s?-?(\d[A-Z]\d)\b/;
+const US_ZIP_CODE = /\b(\d{5})(?:-?\d{4})?\b/;
+
+// Relative weight of each address component in the match score
+const COMPONENT_WEIGHTS = {
+  civicNumber: 0.25,
+  streetName: 0.25,
+  unit: 0.1,
+  city: 0.15,
+  region: 0.1,
+  postalCode: 0.15
+};
+
+interface NormalizedAddress {
+  civicNumber?: string;
+  unit?: string;
+  streetTokens: string[];
+  cityTokens: string[];
+  region?: string;
+  postalCode?: string;
+  tokens: Set<string>; // every street and city token, for addresses where OCR ran the city into the street
+}
+
+export interface AddressComparison {
+  match: boolean;
+  score: number;
+  components: Record<string, { expected: string | null; actual: string | null; score: number }>;
+}
+
+/**
+ * Accept a one-line address or an object with at least one known component.
+ * Returns null for anything else.
+ */
+export function parseAddressInput(value: unknown): DocumentAddress | string | null {
+  if (typeof value === 'string') {
+    return value.trim() || null;
+  }
+
+  if (value && typeof value === 'object') {
+    const address: DocumentAddress = {};
+    for (const key of ['street', 'city', 'state', 'postalCode', 'country'] as const) {
+      const component = (value as Record<string, unknown>)[key];
+      if (typeof component === 'string' && component.trim()) {
+        address[key] = component.trim();
+      }
+    }
+    return Object.keys(address).length > 0 ? address : null;
+  }
+
+  return null;
+}
+
+/**
+ * Format a structured address as a single line
+ */
+export function formatAddress(address: DocumentAddress | string): string {
+  if (typeof address === 'string') return address;
+  return [address.street, address.city, address.state, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Canadian postal codes as "A1A 1A1", US ZIP codes as the 5-digit ZIP
+ */
+export function normalizePostalCode(postalCode?: string): string | undefined {
+  if (!postalCode) return undefined;
+  const value = postalCode.toUpperCase().trim();
+
+  const canadian = value.match(CA_POSTAL_CODE);
+  if (canadian) return `${canadian[1]} ${canadian[2]}`;
+
+  const zip = value.match(US_ZIP_CODE);
+  if (zip) return zip[1];
+
+  return value.replace(/\s+/g, ' ');
+}
+
+/**
+ * Compare a partner-supplied address with the address read from a document.
+ * Components missing on either side are left out and the remaining weights rescaled.
+ * A different civic number never matches, whatever the overall score.
+ */
+export function compareAddresses(expected: DocumentAddress | string, actual: DocumentAddress | string, threshold: number = 0.8): AddressComparison {
+  const a = normalizeAddress(expected);
+  const b = normalizeAddress(actual);
+  const components: AddressComparison['components'] = {};
+
+  const add = (name: keyof typeof COMPONENT_WEIGHTS, expectedValue: string | undefined, actualValue: string | undefined, score: number) => {
+    components[name] = { expected: expectedValue || null, actual: actualValue || null, score };
+  };
+
+  if (a.civicNumber && b.civicNumber) {
+    add('civicNumber', a.civicNumber, b.civicNumber, a.civicNumber === b.civicNumber ? 1 : 0);
+  }
+
+  if (a.streetTokens.length > 0 && b.tokens.size > 0) {
+    add('streetName', a.streetTokens.join(' '), b.streetTokens.join(' '), tokenCoverage(a.streetTokens, b.tokens));
+  }
+
+  if (a.unit || b.unit) {
+    // A unit on only one side is usually an omission rather than a different address
+    add('unit', a.unit, b.unit, a.unit === b.unit ? 1 : (a.unit && b.unit ? 0 : 0.5));
+  }
+
+  if (a.cityTokens.length > 0 && b.tokens.size > 0) {
+    add('city', a.cityTokens.join(' '), b.cityTokens.join(' '), tokenCoverage(a.cityTokens, b.tokens));
+  }
+
+  if (a.region && b.region) {
+    add('region', a.region, b.region, a.region === b.region ? 1 : 0);
+  }
+
+  if (a.postalCode && b.postalCode) {
+    let score = a.postalCode === b.postalCode ? 1 : 0;
+    // Same Canadian forward sortation area (first 3 characters) is a near miss
+    if (!score && /^[A-Z]\d[A-Z] /.test(a.postalCode) && a.postalCode.substring(0, 3) === b.postalCode.substring(0, 3)) {
+      score = 0.5;
+    }
+    add('postalCode', a.postalCode, b.postalCode, score);
+  }
+
+  let totalWeight = 0;
+  let weighted = 0;
+  for (const [name, component] of Object.entries(components)) {
+    const weight = COMPONENT_WEIGHTS[name as keyof typeof COMPONENT_WEIGHTS];
+    totalWeight += weight;
+    weighted += component.score * weight;
+  }
+
+  const score = totalWeight > 0 ? weighted / totalWeight : 0;
+  const civicMismatch = components.civicNumber?.score === 0;
+
+  return {
+    match: totalWeight > 0 && score >= threshold && !civicMismatch,
+    score,
+    components
+  };
+}
+
+function normalizeAddress(address: DocumentAddress | string): NormalizedAddress {
+  let street: string;
+  let city = '';
+  let region: string | undefined;
+  let postalCode: string | undefined;
+
+  if (typeof address === 'string') {
+    // Unstructured: pull out the postal code and region, keep the rest as street tokens
+    let rest = address.toUpperCase();
+    const postal = rest.match(CA_POSTAL_CODE) || rest.match(/\b\d{5}(?:-\d{4})?\b(?!.*\d)/);
+    if (postal) {
+      postalCode = normalizePostalCode(postal[0]);
+      rest = rest.replace(postal[0], ' ');
+    }
+    const parts = rest.split(',').map(p => p.trim()).filter(Boolean);
+    const last = parts[parts.length - 1];
+    if (parts.length > 1 && last && normalizeRegion(last.split(/\s+/).pop())) {
+      region = normalizeRegion(last.split(/\s+/).pop());
+      parts[parts.length - 1] = last.split(/\s+/).slice(0, -1).join(' ');
+    }
+    street = parts.join(' ');
+  } else {
+    street = address.street || '';
+    city = address.city || '';
+    region = normalizeRegion(address.state);
+    postalCode = normalizePostalCode(address.postalCode);
+  }
+
+  let streetTokens = tokenize(street);
+  let civicNumber: string | undefined;
+  let unit: string | undefined;
+
+  // Canadian "unit-civic" form: 1203-57 KALMAR CRES
+  const unitCivic = street.match(/^\s*([0-9]+[A-Z]?)\s*-\s*([0-9]+)\b/i);
+  if (unitCivic) {
+    unit = unitCivic[1].toUpperCase();
+    civicNumber = unitCivic[2];
+    streetTokens = tokenize(street.replace(unitCivic[0], ''));
+  }
+
+  const remaining: string[] = [];
+  for (let i = 0; i < streetTokens.length; i++) {
+    const token = streetTokens[i];
+    if ((UNIT_DESIGNATORS.includes(token) || token === '#') && streetTokens[i + 1]) {
+      unit = streetTokens[++i];
+    } else if (token.startsWith('#') && token.length > 1) {
+      unit = token.substring(1);
+    } else if (!civicNumber && /^\d+[A-Z]?$/.test(token)) {
+      civicNumber = token;
+    } else {
+      remaining.push(token);
+    }
+  }
+
+  const cityTokens = tokenize(city);
+
+  return {
+    civicNumber,
+    unit,
+    streetTokens: remaining,
+    cityTokens,
+    region,
+    postalCode,
+    tokens: new Set([...remaining, ...cityTokens])
+  };
+}
+
+function normalizeRegion(region?: string): string | undefined {
+  if (!region) return undefined;
+  const value = region.toUpperCase().replace(/[^A-Z ]/g, '').replace(/\s+/g, ' ').trim();
+  if (REGION_CODE_SET.has(value)) return value;
+  return REGION_CODES[value];
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9#\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => STREET_ABBREVIATIONS[token] || token);
+}
+
+/**
+ * Fraction of the expected tokens found in the other address
+ */
+function tokenCoverage(expected: string[], actual: Set<string>): number {
+  if (expected.length === 0) return 0;
+  return expected.filter(token => actual.has(token)).length / expected.length;
+}
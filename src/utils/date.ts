@@ -0,0 +1,131 @@
+/**
+ * Parse date strings in various formats including:
+ * - ISO format: "1988-02-18"
+ * - Canadian bilingual: "18 FEB-FEV 1988", "01 MAY - MAI 96"
+ * - Korean bilingual: "13 1월-JAN 2002", "06 11월-NOV 2023"
+ * - Standard: "February 18, 1988", "18 Feb 1988"
+ * Returns null if parsing fails
+ */
+export function parseDocumentDate(dateString?: string): Date | null {
+  if (!dateString) return null;
+
+  // Try standard Date parsing first
+  let date = new Date(dateString);
+  if (!isNaN(date.getTime())) {
+    return date;
+  }
+
+  // Support both 3-letter abbreviations and full month names
+  const months: Record<string, number> = {
+    'JAN': 0, 'JANUARY': 0, 'JANVIER': 0,
+    'FEB': 1, 'FEBRUARY': 1, 'FEVRIER': 1, 'FEV': 1,
+    'MAR': 2, 'MARCH': 2, 'MARS': 2,
+    'APR': 3, 'APRIL': 3, 'AVRIL': 3, 'AVR': 3,
+    'MAY': 4, 'MAI': 4,
+    'JUN': 5, 'JUNE': 5, 'JUIN': 5,
+    'JUL': 6, 'JULY': 6, 'JUILLET': 6, 'JUIL': 6,
+    'AUG': 7, 'AUGUST': 7, 'AOUT': 7, 'AOU': 7,
+    'SEP': 8, 'SEPTEMBER': 8, 'SEPTEMBRE': 8, 'SEPT': 8,
+    'OCT': 9, 'OCTOBER': 9, 'OCTOBRE': 9,
+    'NOV': 10, 'NOVEMBER': 10, 'NOVEMBRE': 10,
+    'DEC': 11, 'DECEMBER': 11, 'DECEMBRE': 11
+  };
+
+  // Helper to convert 2-digit year to 4-digit year
+  const toFullYear = (year: number): number => {
+    if (year >= 100) return year; // Already 4 digits
+    // Assume years 00-30 are 2000s, 31-99 are 1900s
+    return year <= 30 ? 2000 + year : 1900 + year;
+  };
+
+  // Handle Korean bilingual format: "13 1월-JAN 2002", "06 11월-NOV 2023"
+  // Korean months use number + 월 (e.g., 1월 = January, 12월 = December)
+  const koreanMatch = dateString.match(/(\d{1,2})\s+(\d{1,2})월\s*-\s*[A-Z]{3,9}\s+(\d{2,4})/i);
+  if (koreanMatch) {
+    const day = parseInt(koreanMatch[1], 10);
+    const month = parseInt(koreanMatch[2], 10) - 1; // Korean months are 1-based, JS is 0-based
+    const year = toFullYear(parseInt(koreanMatch[3], 10));
+
+    if (month >= 0 && month <= 11) {
+      return new Date(year, month, day);
+    }
+  }
+
+  // Handle Canadian bilingual format: "18 FEB-FEV 1988", "01 MAY - MAI 96", "24 JULY-JUIL 28"
+  // Allows optional spaces around hyphen, variable length month names, and 2 or 4 digit years
+  const bilingualMatch = dateString.match(/(\d{1,2})\s+([A-Z]{3,9})\s*-\s*[A-Z]{3,9}\s+(\d{2,4})/i);
+  if (bilingualMatch) {
+    const day = parseInt(bilingualMatch[1], 10);
+    const monthStr = bilingualMatch[2].toUpperCase();
+    const year = toFullYear(parseInt(bilingualMatch[3], 10));
+
+    const month = months[monthStr];
+    if (month !== undefined) {
+      return new Date(year, month, day);
+    }
+  }
+
+  // Handle format: "18 FEB 1988", "18 FEB 88", "FEB 18 1988", "FEB 18 88", "18 JULY 2028"
+  const simpleMatch = dateString.match(/(\d{1,2})\s+([A-Z]{3,9})\s+(\d{2,4})/i) ||
+                      dateString.match(/([A-Z]{3,9})\s+(\d{1,2})\s+(\d{2,4})/i);
+  if (simpleMatch) {
+    // Determine if day or month came first
+    if (/^\d/.test(simpleMatch[1])) {
+      // Day first: "18 FEB 1988" or "18 FEB 88"
+      const day = parseInt(simpleMatch[1], 10);
+      const month = months[simpleMatch[2].toUpperCase()];
+      const year = toFullYear(parseInt(simpleMatch[3], 10));
+      if (month !== undefined) {
+        return new Date(year, month, day);
+      }
+    } else {
+      // Month first: "FEB 18 1988" or "FEB 18 88"
+      const month = months[simpleMatch[1].toUpperCase()];
+      const day = parseInt(simpleMatch[2], 10);
+      const year = toFullYear(parseInt(simpleMatch[3], 10));
+      if (month !== undefined) {
+        return new Date(year, month, day);
+      }
+    }
+  }
+
+  // Handle DD/MM/YYYY, DD/MM/YY, MM/DD/YYYY, or MM/DD/YY format
+  const slashMatch = dateString.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (slashMatch) {
+    const first = parseInt(slashMatch[1], 10);
+    const second = parseInt(slashMatch[2], 10);
+    const year = toFullYear(parseInt(slashMatch[3], 10));
+
+    // Assume DD/MM/YYYY for values where first > 12
+    if (first > 12) {
+      return new Date(year, second - 1, first);
+    } else if (second > 12) {
+      return new Date(year, first - 1, second);
+    } else {
+      // Ambiguous - assume DD/MM/YYYY (more common internationally)
+      return new Date(year, second - 1, first);
+    }
+  }
+
+  console.log('[DateUtils] Could not parse date:', dateString);
+  return null;
+}
+
+/**
+ * Normalize a document date to YYYY-MM-DD so dates read in different formats
+ * can be compared. Returns undefined if the date can't be parsed.
+ */
+export function toIsoDate(dateString?: string): string | undefined {
+  const date = parseDocumentDate(dateString);
+  if (!date) return undefined;
+
+  // ISO strings parse as UTC midnight, the other supported formats as local dates
+  if (/^\d{4}-\d{2}-\d{2}/.test(dateString!)) {
+    return date.toISOString().split('T')[0];
+  }
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+}
@@ -0,0 +1,32 @@
+import { ExtractedDocumentData, ExtractedFieldConfidence } from '../types/verification.types';
+
+// Fields of ExtractedDocumentData that hold document data and get a confidence of their own
+export const EXTRACTED_FIELDS = [
+  'documentNumber', 'firstName', 'lastName', 'fullName', 'dateOfBirth', 'gender', 'nationality',
+  'issuingCountry', 'issueDate', 'expiryDate', 'address', 'mrz', 'barcode'
+];
+
+// Used when a source reports no confidence at all
+export const DEFAULT_FIELD_CONFIDENCE = 0.5;
+
+/**
+ * Copy of the data with a confidence and source for every field present.
+ * Fields missing from `confidences` (and from data.fieldConfidence) get the
+ * overall confidence of the read.
+ */
+export function withFieldConfidence(
+  data: ExtractedDocumentData,
+  source: string,
+  confidences: Record<string, number> = {}
+): ExtractedDocumentData {
+  const overall = data.confidence ?? DEFAULT_FIELD_CONFIDENCE;
+  const fieldConfidence: Record<string, ExtractedFieldConfidence> = { ...(data.fieldConfidence || {}) };
+
+  for (const field of EXTRACTED_FIELDS) {
+    const value = (data as any)[field];
+    if (value === null || value === undefined || value === '' || fieldConfidence[field]) continue;
+    fieldConfidence[field] = { confidence: confidences[field] ?? overall, source };
+  }
+
+  return { ...data, fieldConfidence };
+}
@@ -0,0 +1,10 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Copy of a value as it is stored in a JSON column, for types Prisma's JSON
+ * input does not accept: interfaces have no index signature. Undefined
+ * properties are dropped, as Prisma would drop them.
+ */
+export function toJsonInput(value: object): Prisma.InputJsonObject {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,28 @@
+// Keys that carry the date of birth, directly or inside raw OCR / machine readable data
+const DATE_OF_BIRTH_KEYS = new Set(['dateOfBirth', 'extractedDob', 'extractedDateOfBirth', 'age', 'mrz', 'barcode', 'ocrText']);
+
+/**
+ * Deep copy of a verification, result or webhook payload with the date of birth
+ * removed, for verifications created with withholdDateOfBirth. The partner
+ * only learns ageOverThreshold.
+ */
+export function withholdDateOfBirth<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value
+      // Field-by-field comparisons (MRZ, barcode) list mismatching values
+      .filter(item => !(item && typeof item === 'object' && (item as any).field === 'dateOfBirth'))
+      .map(item => withholdDateOfBirth(item)) as unknown as T;
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (!DATE_OF_BIRTH_KEYS.has(key)) {
+      copy[key] = withholdDateOfBirth(item);
+    }
+  }
+  return copy as T;
+}
@@ -0,0 +1,82 @@
+import { VerificationOptions } from '../types/verification.types';
+import { toIsoDate } from './date';
+import { parseAddressInput } from './address';
+import { config } from '../config';
+
+/**
+ * Validate the per-request options a partner can send when creating a verification.
+ * Returns the normalized options, or an error message suitable for a 400 response.
+ */
+export function parseVerificationOptions(body: Record<string, any>): { options: VerificationOptions; error?: string } {
+  const { expectedDateOfBirth, expectedAddress, minimumAge, withholdDateOfBirth, expiresInHours } = body || {};
+  const options: VerificationOptions = {};
+
+  if (expectedDateOfBirth) {
+    options.expectedDateOfBirth = toIsoDate(expectedDateOfBirth);
+    if (!options.expectedDateOfBirth) {
+      return { options, error: 'expectedDateOfBirth must be a valid date (YYYY-MM-DD)' };
+    }
+  }
+
+  if (expectedAddress) {
+    const address = parseAddressInput(expectedAddress);
+    if (!address) {
+      return { options, error: 'expectedAddress must be an address string or an object with street, city, state, postalCode or country' };
+    }
+    options.expectedAddress = address;
+  }
+
+  if (minimumAge !== undefined && minimumAge !== null && minimumAge !== '') {
+    const age = Number(minimumAge);
+    if (!Number.isInteger(age) || age < 1 || age > 120) {
+      return { options, error: 'minimumAge must be a whole number between 1 and 120' };
+    }
+    options.minimumAge = age;
+  }
+
+  if (withholdDateOfBirth !== undefined) {
+    if (typeof withholdDateOfBirth !== 'boolean') {
+      return { options, error: 'withholdDateOfBirth must be a boolean' };
+    }
+    if (withholdDateOfBirth && options.minimumAge === undefined) {
+      return { options, error: 'withholdDateOfBirth requires minimumAge' };
+    }
+    options.withholdDateOfBirth = withholdDateOfBirth;
+  }
+
+  if (expiresInHours !== undefined && expiresInHours !== null && expiresInHours !== '') {
+    const hours = Number(expiresInHours);
+    const maxHours = config.verification.maxVerificationAgeDays * 24;
+    if (!Number.isInteger(hours) || hours < 1 || hours > maxHours) {
+      return { options, error: `expiresInHours must be a whole number between 1 and ${maxHours}` };
+    }
+    options.expiresInHours = hours;
+  }
+
+  return { options };
+}
+
+/**
+ * Map verification options to Verification columns
+ */
+export function verificationOptionsData(options: VerificationOptions) {
+  return {
+    expectedDob: options.expectedDateOfBirth ? new Date(`${options.expectedDateOfBirth}T00:00:00.000Z`) : null,
+    expectedAddress: (options.expectedAddress ?? undefined) as any,
+    minimumAge: options.minimumAge ?? null,
+    withholdDob: options.withholdDateOfBirth ?? false,
+    expiresAt: new Date(Date.now() + (options.expiresInHours ?? config.verification.maxVerificationAgeDays * 24) * 60 * 60 * 1000)
+  };
+}
+
+/**
+ * Read verification options back from a Verification row
+ */
+export function verificationOptionsFrom(verification: any): VerificationOptions {
+  return {
+    expectedDateOfBirth: verification.expectedDob ? verification.expectedDob.toISOString().split('T')[0] : undefined,
+    expectedAddress: verification.expectedAddress ?? undefined,
+    minimumAge: verification.minimumAge ?? undefined,
+    withholdDateOfBirth: verification.withholdDob ?? false
+  };
+}
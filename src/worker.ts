@@ -0,0 +1,34 @@
+import { JobWorker } from './services/job-worker.service';
+import { JOB_TYPES } from './services/job-queue.service';
+import { VerificationService } from './services/verification.service';
+import { VerificationExpiryService } from './services/verification-expiry.service';
+import { config } from './config';
+import { logger } from './utils/logger';
+
+/**
+ * Job worker with every handler and periodic task registered. Started by the API server when
+ * JOB_WORKER=in-process, or run on its own with `npm run worker`.
+ */
+export function createJobWorker(): JobWorker {
+  const verificationService = new VerificationService();
+  const expiryService = new VerificationExpiryService();
+
+  return new JobWorker()
+    .register(JOB_TYPES.PROCESS_VERIFICATION,
+      ({ verificationId, attemptId }) => verificationService.processSubmission(verificationId, attemptId),
+      ({ verificationId, attemptId }, error) => verificationService.abandonSubmission(verificationId, attemptId, error))
+    .every('verification-expiry', config.jobs.expirySweepIntervalMs, () => expiryService.sweep());
+}
+
+if (require.main === module) {
+  const worker = createJobWorker();
+  worker.start();
+
+  const shutdown = async (signal: string) => {
+    logger.info(`[Worker] ${signal} received, finishing current job`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}